@@ -1,3 +1,3 @@
 module.exports = {
-  skipFiles: ['MyNFT.sol','PrimeNftCounter.sol','token/RewardToken.sol', 'test/SimpleNFT.sol']
+  skipFiles: ['MyNFT.sol','PrimeNftCounter.sol','token/RewardToken.sol', 'test/SimpleNFT.sol', 'test/SimpleEnumerableNFT.sol']
 };
@@ -6,25 +6,76 @@ import { ERC721Enumerable } from "@openzeppelin/contracts/token/ERC721/extension
 import { Ownable2Step } from "@openzeppelin/contracts/access/Ownable2Step.sol";
 import { ERC2981 } from "@openzeppelin/contracts/token/common/ERC2981.sol";
 import { MerkleProof } from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import { EIP712 } from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import { BitMaps } from "@openzeppelin/contracts/utils/structs/BitMaps.sol";
+import { Strings } from "@openzeppelin/contracts/utils/Strings.sol";
+import { Base64 } from "@openzeppelin/contracts/utils/Base64.sol";
+import { Primes } from "./utils/Primes.sol";
+import { IERC4494 } from "./interfaces/IERC4494.sol";
+import { IERC165 } from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
 
 
 /**
  *  @title NFT with whitelist for sale price discount
  *  @author Carlo Pascoli
  *  @notice NFT minting contract with whitelist of addresses that get a discount on the minting price.
- *          BitMaps are used to prevent multiple mints from the same whitelisted addresses.
+ *          Each whitelisted address can mint up to the allowance included in its Merkle leaf.
+ *          The owner can set an allowlist sale phase, reserved to whitelisted addresses, followed by a public sale phase.
+ *          Each phase has its own time window, price and per-wallet mint limit.
+ *          Until the sale phases are set, the mint is public and whitelisted addresses get a discount.
+ *          As an alternative to the Merkle whitelist, an off-chain signer can issue EIP-712 mint vouchers
+ *          that allow their recipient to mint one NFT at a discount during the allowlist or public phase.
+ *          NFT holders can approve a spender with an EIP-4494 permit signature, without sending a transaction.
+ *          Token metadata is served from a placeholder URI until the owner reveals it,
+ *          then from the base URI or as a JSON data URI built on-chain.
+ *          The mint proceeds can be sent to a revenue splitter, where each payee pulls its own share.
+ *          The owner can update the default royalty and set per-token royalties.
  *
  */
-contract MyNFT is ERC721Enumerable, ERC2981, Ownable2Step {
+contract MyNFT is ERC721Enumerable, ERC2981, EIP712, Ownable2Step, IERC4494 {
 
     using BitMaps for BitMaps.BitMap;
 
+    /// @notice The sale phases
+    enum SalePhase {
+        Closed,     // outside of the sale phases
+        Allowlist,  // only whitelisted addresses can mint
+        Public      // everyone can mint
+    }
+
+    /// @notice The terms of a sale phase
+    struct PhaseConfig {
+        uint64 start;         // the start time of the phase
+        uint64 end;           // the end time of the phase (excluded). A phase with end 0 is not set.
+        uint128 maxPerWallet; // the max number of NFTs a wallet can mint in the phase (0 for no limit)
+        uint256 price;        // the mint price in wei
+    }
+
+    /// @notice The proof that an address is whitelisted, for the leaf (address, index, allowance) of the Merkle tree
+    struct WhitelistProof {
+        uint256 index;      // the index of the address in the whitelist
+        uint256 allowance;  // the max number of NFTs the address can mint at whitelist price
+        bytes32[] proof;    // the Merkle proof. Empty for non whitelisted addresses.
+    }
+
+    /// @notice A mint voucher signed by the voucher signer
+    struct MintVoucher {
+        address recipient;  // the recipient of the NFT
+        uint256 discount;   // the discount on the price of the sale phase, uses 10000 denominator
+        uint256 expiry;     // the time after which the voucher can't be used
+        uint256 nonce;      // the unique nonce of the voucher, that can be used only once
+    }
+
+    bytes32 public constant MINT_VOUCHER_TYPEHASH = keccak256("MintVoucher(address recipient,uint256 discount,uint256 expiry,uint256 nonce)");
+
+    bytes32 public constant PERMIT_TYPEHASH = keccak256("Permit(address spender,uint256 tokenId,uint256 nonce,uint256 deadline)");
+
     uint256 public constant DISCOUNT_PERCENTAGE_DENOMINATOR = 1e4;
 
     uint256 public immutable MINT_PRICE; // in wei
     uint96 public immutable MAX_SUPPLY;
-    uint96 public immutable FEE_NUMERATOR; // uses 10000 denumerator
+    uint96 public immutable FEE_NUMERATOR; // the initial royalty fee, uses 10000 denumerator
     uint96 public immutable DISCOUNT_PERCENTAGE; // includes DISCOUNT_PERCENTAGE_DENOMINATOR decimals
 
 
@@ -35,23 +86,80 @@ contract MyNFT is ERC721Enumerable, ERC2981, Ownable2Step {
     bytes32 public merkleRoot;
 
     /// @notice is mint is enabled
-    bool isPublicMintEnabled;
+    bool public isPublicMintEnabled;
+
+    /// @notice true once the token metadata has been revealed
+    bool public revealed;
+
+    /// @notice true if the token metadata JSON is built on-chain, false to use the base URI
+    bool public onChainMetadata;
+
+    /// @notice the base URI of the token metadata, followed by the tokenID
+    string public baseURI;
+
+    /// @notice the metadata URI of all tokens before the reveal
+    string public placeholderURI;
+
+    /// @notice the revenue splitter receiving the mint proceeds
+    address payable public revenueSplitter;
+
+    /// @notice the signer of the mint vouchers
+    address public voucherSigner;
+
+    /// @notice Bitmap to keep track of the nonces of the mint vouchers already used
+    BitMaps.BitMap private usedVoucherNonces;
+
+    /// @notice the permit nonce of each NFT, incremented when the NFT is transferred or a permit is used
+    mapping (uint256 => uint256) public nonces;
+
+    /// @notice the allowlist sale phase
+    PhaseConfig public allowlistPhase;
+
+    /// @notice the public sale phase
+    PhaseConfig public publicPhase;
+
+    /// @notice the number of NFTs minted at whitelist price by each whitelist index
+    mapping (uint256 => uint256) public whitelistMinted;
 
-    /// @notice Bitmap to keep track of addresses who already minted  
-    BitMaps.BitMap private mintedAddresses;
+    /// @notice the number of NFTs minted by each wallet in the public sale phase
+    mapping (address => uint256) public publicMinted;
 
     // Errors
     error MaxSupplyReached();
+    error QuantityExceedsSupply(uint256 quantity, uint256 remaining);
+    error InvalidQuantity();
     error AddressAlreadyMinted();
     error WrongPrice(uint256 sent, uint256 expected);
     error MintNotEnabled();
     error NoBots();
     error ZeroAddress();
+    error SaleNotActive();
+    error NotWhitelisted();
+    error WalletLimitReached(uint256 limit);
+    error InvalidSalePhases();
+    error AlreadyRevealed();
+    error InvalidVoucher();
+    error VoucherExpired(uint256 expiry);
+    error VoucherAlreadyUsed(uint256 nonce);
+    error PermitExpired(uint256 deadline);
+    error InvalidPermit();
+    error RevenueSplitterEnabled();
 
     // Events
     event MerkleRootSet(bytes32 root);
     event Withdrawn(address indexed recipient, uint256 amount);
     event PublicMintEnabledChanged(bool isEnabled);
+    event BaseURISet(string baseURI);
+    event PlaceholderURISet(string placeholderURI);
+    event OnChainMetadataSet(bool isEnabled);
+    event Revealed();
+    event RevenueSplitterSet(address indexed splitter, bool royalties);
+    event DefaultRoyaltySet(address indexed receiver, uint96 feeNumerator);
+    event TokenRoyaltySet(uint256 indexed tokenId, address indexed receiver, uint96 feeNumerator);
+    event TokenRoyaltyReset(uint256 indexed tokenId);
+    event SalePhasesSet(PhaseConfig allowlistPhase, PhaseConfig publicPhase);
+    event VoucherSignerSet(address indexed signer);
+    event VoucherUsed(uint256 indexed nonce, address indexed recipient);
 
 
     constructor(
@@ -59,34 +167,103 @@ contract MyNFT is ERC721Enumerable, ERC2981, Ownable2Step {
         uint96 feeNumerator,
         uint96 discountPercentage,
         uint256 mintPrice
-    ) ERC721("My NFT Token", "MT") {
+    ) ERC721("My NFT Token", "MT") EIP712("My NFT Token", "1") {
 
         MAX_SUPPLY = maxSupply;
         FEE_NUMERATOR = feeNumerator;
         DISCOUNT_PERCENTAGE = discountPercentage;
         MINT_PRICE = mintPrice;
 
-        super._setDefaultRoyalty(msg.sender, FEE_NUMERATOR);
+        setDefaultRoyaltyInfo(msg.sender, FEE_NUMERATOR);
     }
 
 
 
-    /// @notice mint to an address with an optionl discount
-    /// @param recipient The recipient of the NFT that could be whitelisted or not.
-    /// @param index An optional index of the address provided in the list of whitelisted addresses.
-    /// @param merkleProof An optional proof that can be provided to prove the address is whitelisted. 
-    function mint(address recipient, uint256 index, bytes32[] calldata merkleProof) external payable {
+    /// @notice mint one or more NFTs to an address with an optionl discount
+    /// @param recipient The recipient of the NFTs that could be whitelisted or not.
+    /// @param quantity The number of NFTs to mint. The price paid must be the price for one NFT times the quantity.
+    /// @param whitelist An optional proof that can be provided to prove the address is whitelisted.
+    function mint(address recipient, uint256 quantity, WhitelistProof calldata whitelist) external payable {
 
-        // determine the price of the NFT based on the whiteist status of the recipient address
-        (uint256 price, bool whitelisted) = priceForMint(recipient, merkleProof, index);
+        // determine the price of the NFT based on the sale phase and the whiteist status of the recipient address
+        (uint256 price, bool whitelisted) = priceForMint(recipient, whitelist);
 
-        // check if a whitelisted address did already mint and remember that.
-        if (whitelisted){
-            if (mintedAddresses.get(index)) revert AddressAlreadyMinted();
-            mintedAddresses.set(index);
-        }
+        // check the mint limits of the sale phase and remember the mint.
+        checkMintLimits(recipient, whitelist, whitelisted, quantity);
       
-        mintAtPrice(recipient, price);
+        mintAtPrice(recipient, quantity, price);
+    }
+
+
+    /// @notice mint one NFT to the recipient of a mint voucher, at the discount of the voucher
+    /// @param voucher The mint voucher
+    /// @param signature The EIP-712 signature of the voucher by the voucher signer
+    function mintWithVoucher(MintVoucher calldata voucher, bytes calldata signature) external payable {
+
+        // verify the voucher and determine the price of the NFT based on the sale phase and the voucher discount
+        uint256 price = priceForMintWithVoucher(voucher, signature);
+
+        // the voucher can be used only once
+        usedVoucherNonces.set(voucher.nonce);
+        emit VoucherUsed(voucher.nonce, voucher.recipient);
+
+        // vouchers are valid in the allowlist phase and count against the wallet limit in the public phase
+        SalePhase phase = currentPhase();
+        if (phase == SalePhase.Closed) revert SaleNotActive();
+        if (phase == SalePhase.Public) checkWalletLimit(voucher.recipient, 1);
+
+        mintAtPrice(voucher.recipient, 1, price);
+    }
+
+
+    /// @notice Approves the spender of the NFT with the EIP-4494 permit signature of the owner of the NFT
+    /// @param spender The address approved to transfer the NFT
+    /// @param id The tokenID
+    /// @param deadline The time after which the signature can't be used
+    /// @param sig The EIP-712 signature of the permit by the owner of the NFT
+    function permit(address spender, uint256 id, uint256 deadline, bytes calldata sig) external {
+        if (deadline < block.timestamp) revert PermitExpired(deadline);
+
+        address holder = ownerOf(id);
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(PERMIT_TYPEHASH, spender, id, nonces[id], deadline)));
+
+        (address signer, ECDSA.RecoverError error) = ECDSA.tryRecover(digest, sig);
+        if (error != ECDSA.RecoverError.NoError || signer != holder) revert InvalidPermit();
+
+        // the permit can be used only once
+        ++nonces[id];
+
+        _approve(spender, id);
+    }
+
+
+    /// @notice Allow the owner to set the signer of the mint vouchers
+    /// @param signer The voucher signer. Set to the zero address to disable the vouchers.
+    function setVoucherSigner(address signer) external onlyOwner {
+        voucherSigner = signer;
+
+        emit VoucherSignerSet(signer);
+    }
+
+
+    /// @notice Allow the owner to set the allowlist and public sale phases.
+    ///         Set the end of both phases to 0 to go back to a public mint with whitelist discount.
+    /// @param _allowlistPhase The allowlist sale phase, for whitelisted addresses only
+    /// @param _publicPhase The public sale phase, starting after the end of the allowlist phase
+    function setSalePhases(PhaseConfig calldata _allowlistPhase, PhaseConfig calldata _publicPhase) external onlyOwner {
+
+        bool allowlistSet = _allowlistPhase.end != 0;
+        bool publicSet = _publicPhase.end != 0;
+
+        if (allowlistSet && _allowlistPhase.start >= _allowlistPhase.end) revert InvalidSalePhases();
+        if (publicSet && _publicPhase.start >= _publicPhase.end) revert InvalidSalePhases();
+        if (allowlistSet && publicSet && _allowlistPhase.end > _publicPhase.start) revert InvalidSalePhases();
+
+        allowlistPhase = _allowlistPhase;
+        publicPhase = _publicPhase;
+
+        emit SalePhasesSet(_allowlistPhase, _publicPhase);
     }
 
 
@@ -99,22 +276,86 @@ contract MyNFT is ERC721Enumerable, ERC2981, Ownable2Step {
     }
 
  
-    /// @notice allow the owner to withdraw the ETH from the contract
+    /// @notice allow the owner to withdraw the ETH from the contract.
+    ///         Once the revenue splitter is set, the proceeds can only be sent to it with releaseProceeds.
     /// @param amount The amount of ETH to withdraw. If 0 is passed witwithdraw the full balance.
     function withdraw(address to, uint256 amount) external onlyOwner {
+        if (revenueSplitter != address(0)) revert RevenueSplitterEnabled();
         if (to == address(0)) revert ZeroAddress();
 
         uint256 amountToWithdraw = amount == 0 ? address(this).balance : amount;
         
         if (amountToWithdraw == 0) return;
 
-        emit Withdrawn(to, amount);
+        emit Withdrawn(to, amountToWithdraw);
         (bool success, ) = to.call{ value: amountToWithdraw }("");
 
         require(success, "Could not send ETH");
     }
 
 
+    /// @notice Allow the owner to set the revenue splitter receiving the mint proceeds
+    /// @param splitter The revenue splitter
+    /// @param royalties True if the default royalty should also be paid to the splitter
+    function setRevenueSplitter(address payable splitter, bool royalties) external onlyOwner {
+        if (splitter == address(0)) revert ZeroAddress();
+
+        revenueSplitter = splitter;
+        if (royalties) {
+            // tokenID 0 is never minted so it has the default royalty
+            (, uint256 feeNumerator) = royaltyInfo(0, _feeDenominator());
+            setDefaultRoyaltyInfo(splitter, uint96(feeNumerator));
+        }
+
+        emit RevenueSplitterSet(splitter, royalties);
+    }
+
+
+    /// @notice Allow the owner to update the default royalty of all tokens without a per-token royalty
+    /// @param receiver The receiver of the royalties
+    /// @param feeNumerator The royalty fee, uses 10000 denominator
+    function setDefaultRoyalty(address receiver, uint96 feeNumerator) external onlyOwner {
+        setDefaultRoyaltyInfo(receiver, feeNumerator);
+    }
+
+
+    /// @notice Allow the owner to set the royalty of a token, overriding the default royalty
+    /// @param id The tokenID
+    /// @param receiver The receiver of the royalties
+    /// @param feeNumerator The royalty fee, uses 10000 denominator
+    function setTokenRoyalty(uint256 id, address receiver, uint96 feeNumerator) external onlyOwner {
+        _requireMinted(id);
+        super._setTokenRoyalty(id, receiver, feeNumerator);
+
+        emit TokenRoyaltySet(id, receiver, feeNumerator);
+    }
+
+
+    /// @notice Allow the owner to reset the royalty of a token to the default royalty
+    /// @param id The tokenID
+    function resetTokenRoyalty(uint256 id) external onlyOwner {
+        super._resetTokenRoyalty(id);
+
+        emit TokenRoyaltyReset(id);
+    }
+
+
+    /// @notice Sends the mint proceeds to the revenue splitter, where the payees can pull their share.
+    ///         Can be called by anyone.
+    function releaseProceeds() external {
+        address payable splitter = revenueSplitter;
+        if (splitter == address(0)) revert ZeroAddress();
+
+        uint256 amount = address(this).balance;
+        if (amount == 0) return;
+
+        emit Withdrawn(splitter, amount);
+        (bool success, ) = splitter.call{ value: amount }("");
+
+        require(success, "Could not send ETH");
+    }
+
+
     /// @notice Allow the owner to enable and disable the public mint
     /// @param enableMint True if public mint should be enabled, false otherwise
     function enablePublicMint(bool enableMint) external onlyOwner {
@@ -124,59 +365,295 @@ contract MyNFT is ERC721Enumerable, ERC2981, Ownable2Step {
     }
 
 
+    /// @notice Allow the owner to set the base URI of the token metadata
+    /// @param uri The base URI. The URI of a token is the base URI followed by the tokenID.
+    function setBaseURI(string calldata uri) external onlyOwner {
+        baseURI = uri;
+
+        emit BaseURISet(uri);
+    }
+
+
+    /// @notice Allow the owner to set the metadata URI of all tokens before the reveal
+    /// @param _placeholderURI The placeholder URI
+    function setPlaceholderURI(string calldata _placeholderURI) external onlyOwner {
+        placeholderURI = _placeholderURI;
+
+        emit PlaceholderURISet(_placeholderURI);
+    }
+
+
+    /// @notice Allow the owner to switch between on-chain metadata and the base URI
+    /// @param enable True if the token metadata JSON should be built on-chain, false to use the base URI
+    function setOnChainMetadata(bool enable) external onlyOwner {
+        onChainMetadata = enable;
+
+        emit OnChainMetadataSet(enable);
+    }
+
+
+    /// @notice Allow the owner to reveal the token metadata. The reveal can't be undone.
+    function reveal() external onlyOwner {
+        if (revealed) revert AlreadyRevealed();
+        revealed = true;
+
+        emit Revealed();
+    }
+
+
     ////// Public functions //////
 
-    /// @notice The price for the mint for the given address (can be discounted if a valid proof is provided)
-    /// @param addr An address that could be whitelisted or not.
-    /// @param merkleProof An optional proof that can be provided to prove the address is whitelisted. 
+    /// @notice The current sale phase.
+    /// @dev when no sale phases are set the mint is public
+    function currentPhase() public view returns (SalePhase) {
+
+        if (!salePhasesSet()) return SalePhase.Public;
+
+        if (inPhase(allowlistPhase)) return SalePhase.Allowlist;
+        if (inPhase(publicPhase)) return SalePhase.Public;
+
+        return SalePhase.Closed;
+    }
+
+
+    /// @notice The price for the mint for the given address in the current sale phase
+    ///         (can be discounted if a valid proof is provided)
     /// @param addr An address that could be whitelisted or not.
-    /// @dev the index is associated to the whitelisted address and included in the proof verification
-    function priceForMint(address addr, bytes32[] calldata merkleProof, uint256 index) public view returns (uint256 price, bool whitelisted) {
-        
-        whitelisted = isWhitelistedAddress(addr, merkleProof, index);
-        
-        uint256 discount = whitelisted ? MINT_PRICE * DISCOUNT_PERCENTAGE / DISCOUNT_PERCENTAGE_DENOMINATOR : 0;
+    /// @param whitelist An optional proof that can be provided to prove the address is whitelisted.
+    /// @dev the index and the allowance are associated to the whitelisted address and included in the proof verification
+    function priceForMint(address addr, WhitelistProof calldata whitelist) public view returns (uint256 price, bool whitelisted) {
         
-        price = MINT_PRICE - discount;
+        whitelisted = isWhitelistedAddress(addr, whitelist);
+
+        SalePhase phase = currentPhase();
+
+        // no sale phases set: whitelisted addresses get a discount
+        if (!salePhasesSet()) {
+            uint256 discount = whitelisted ? MINT_PRICE * DISCOUNT_PERCENTAGE / DISCOUNT_PERCENTAGE_DENOMINATOR : 0;
+            return (MINT_PRICE - discount, whitelisted);
+        }
+
+        if (phase == SalePhase.Allowlist) return (allowlistPhase.price, whitelisted);
+        if (phase == SalePhase.Public) return (publicPhase.price, whitelisted);
+
+        // the sale is closed
+        price = MINT_PRICE;
+    }
+
+
+    /// @notice The price for the mint with a voucher in the current sale phase, discounted by the voucher discount.
+    ///         Reverts if the voucher is not valid.
+    /// @param voucher The mint voucher
+    /// @param signature The EIP-712 signature of the voucher by the voucher signer
+    function priceForMintWithVoucher(MintVoucher calldata voucher, bytes calldata signature) public view returns (uint256 price) {
+
+        verifyVoucher(voucher, signature);
+
+        price = MINT_PRICE;
+        if (salePhasesSet()) {
+            SalePhase phase = currentPhase();
+            if (phase == SalePhase.Allowlist) price = allowlistPhase.price;
+            if (phase == SalePhase.Public) price = publicPhase.price;
+        }
+
+        price -= price * voucher.discount / DISCOUNT_PERCENTAGE_DENOMINATOR;
+    }
+
+
+    /// @notice Returns true if the mint voucher with the given nonce was already used
+    function isVoucherUsed(uint256 nonce) external view returns (bool) {
+        return usedVoucherNonces.get(nonce);
     }
 
 
     /// @notice Returns true if the provided interfaceId is supported
     /// @param interfaceId An interface Id
-    function supportsInterface(bytes4 interfaceId) public view virtual override(ERC721Enumerable, ERC2981) returns (bool) {
-        return super.supportsInterface(interfaceId);
+    function supportsInterface(bytes4 interfaceId) public view virtual override(ERC721Enumerable, ERC2981, IERC165) returns (bool) {
+        return interfaceId == type(IERC4494).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+
+    /// @notice The EIP-712 domain separator used by the permit and mint voucher signatures
+    function DOMAIN_SEPARATOR() external view returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+
+
+    /// @notice The metadata URI of the token.
+    ///         Before the reveal it is the placeholder URI, then a base64 JSON data URI or the base URI followed by the tokenID.
+    /// @param id The tokenID
+    function tokenURI(uint256 id) public view override returns (string memory) {
+        _requireMinted(id);
+
+        if (!revealed) return placeholderURI;
+
+        if (onChainMetadata) {
+            return string.concat("data:application/json;base64,", Base64.encode(bytes(metadataJSON(id))));
+        }
+
+        return super.tokenURI(id);
     }
 
 
     /// @notice Verifies that the address is included in the set of whitelistesd addresses
     /// @param addr An address to check
-    /// @param merkleProof The Merkle proof for the address provided. Can be empty for non whitelisted addresses.
-    /// @param index The index for the address in the whitelist (when a merkleProof is provided)
-    function isWhitelistedAddress(address addr, bytes32[] calldata merkleProof, uint256 index) public view returns (bool) {
+    /// @param whitelist The index and allowance of the address in the whitelist and the Merkle proof for them.
+    ///                  The proof can be empty for non whitelisted addresses.
+    function isWhitelistedAddress(address addr, WhitelistProof calldata whitelist) public view returns (bool) {
         
         // if no proof is provided the address is not whitelisted
-        if (merkleProof.length == 0) return false;
+        if (whitelist.proof.length == 0) return false;
 
         // Verify the merkle proof.
-        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(addr, index))));
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(addr, whitelist.index, whitelist.allowance))));
+
+        return MerkleProof.verifyCalldata(whitelist.proof, merkleRoot, leaf);
+    }
 
-        return MerkleProof.verifyCalldata(merkleProof, merkleRoot, leaf);
+
+    /// @notice Checks that the recipient can mint the given quantity of NFTs in the current sale phase
+    ///         and records the NFTs minted against its whitelist allowance or wallet limit
+    /// @param recipient The recipient of the NFTs
+    /// @param whitelist The whitelist proof of the recipient
+    /// @param whitelisted True if the whitelist proof is valid
+    /// @param quantity The number of NFTs to mint
+    function checkMintLimits(address recipient, WhitelistProof calldata whitelist, bool whitelisted, uint256 quantity) internal {
+
+        SalePhase phase = currentPhase();
+        bool phasesSet = salePhasesSet();
+
+        if (phase == SalePhase.Closed) revert SaleNotActive();
+        if (phase == SalePhase.Allowlist && !whitelisted) revert NotWhitelisted();
+
+        // mints at whitelist price count against the whitelist allowance and the allowlist phase limit
+        if (whitelisted && (phase == SalePhase.Allowlist || !phasesSet)) {
+            uint256 limit = whitelist.allowance;
+            uint256 maxPerWallet = allowlistPhase.maxPerWallet;
+            if (phase == SalePhase.Allowlist && maxPerWallet != 0 && maxPerWallet < limit) limit = maxPerWallet;
+
+            uint256 minted = whitelistMinted[whitelist.index] + quantity;
+            if (minted > limit) revert AddressAlreadyMinted();
+            whitelistMinted[whitelist.index] = minted;
+
+            return;
+        }
+
+        // mints in the public phase count against the public phase wallet limit
+        if (phasesSet) checkWalletLimit(recipient, quantity);
+    }
+
+
+    /// @notice Checks that the recipient can mint the given quantity of NFTs in the public sale phase
+    ///         and records the NFTs minted against its wallet limit
+    /// @param recipient The recipient of the NFTs
+    /// @param quantity The number of NFTs to mint
+    function checkWalletLimit(address recipient, uint256 quantity) internal {
+        uint256 minted = publicMinted[recipient] + quantity;
+        uint256 maxPerWallet = publicPhase.maxPerWallet;
+        if (maxPerWallet != 0 && minted > maxPerWallet) revert WalletLimitReached(maxPerWallet);
+        publicMinted[recipient] = minted;
+    }
+
+
+    /// @notice Verifies that the mint voucher is signed by the voucher signer, not expired and not used
+    /// @param voucher The mint voucher
+    /// @param signature The EIP-712 signature of the voucher
+    function verifyVoucher(MintVoucher calldata voucher, bytes calldata signature) internal view {
+
+        if (voucher.expiry < block.timestamp) revert VoucherExpired(voucher.expiry);
+        if (usedVoucherNonces.get(voucher.nonce)) revert VoucherAlreadyUsed(voucher.nonce);
+        if (voucher.discount > DISCOUNT_PERCENTAGE_DENOMINATOR) revert InvalidVoucher();
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            MINT_VOUCHER_TYPEHASH,
+            voucher.recipient,
+            voucher.discount,
+            voucher.expiry,
+            voucher.nonce
+        )));
+
+        (address signer, ECDSA.RecoverError error) = ECDSA.tryRecover(digest, signature);
+        if (error != ECDSA.RecoverError.NoError || signer == address(0) || signer != voucherSigner) revert InvalidVoucher();
+    }
+
+
+    /// @notice Returns true if the owner did set the allowlist or the public sale phase
+    function salePhasesSet() internal view returns (bool) {
+        return allowlistPhase.end != 0 || publicPhase.end != 0;
+    }
+
+
+    /// @notice Returns true if the current time is within the phase
+    function inPhase(PhaseConfig storage phase) internal view returns (bool) {
+        return phase.end != 0 && block.timestamp >= phase.start && block.timestamp < phase.end;
+    }
+
+
+    /// @notice Sets the default royalty
+    /// @param receiver The receiver of the royalties
+    /// @param feeNumerator The royalty fee, uses 10000 denominator
+    function setDefaultRoyaltyInfo(address receiver, uint96 feeNumerator) internal {
+        super._setDefaultRoyalty(receiver, feeNumerator);
+
+        emit DefaultRoyaltySet(receiver, feeNumerator);
+    }
+
+
+    /// @notice Increments the permit nonce of the NFTs transferred, so that their permits can't be used by the new owner
+    function _beforeTokenTransfer(address from, address to, uint256 firstTokenId, uint256 batchSize) internal override {
+        super._beforeTokenTransfer(from, to, firstTokenId, batchSize);
+
+        if (from != address(0)) ++nonces[firstTokenId];
+    }
+
+
+    /// @notice The base URI used by ERC721.tokenURI
+    function _baseURI() internal view override returns (string memory) {
+        return baseURI;
+    }
+
+
+    /// @notice Builds the metadata JSON of the token
+    /// @param id The tokenID
+    function metadataJSON(uint256 id) internal view returns (string memory) {
+        string memory idString = Strings.toString(id);
+
+        return string.concat(
+            '{"name":"', name(), ' #', idString, '",',
+            '"description":"', name(), ' #', idString, ' of ', Strings.toString(MAX_SUPPLY), '",',
+            '"attributes":[',
+                '{"trait_type":"Prime","value":"', Primes.isPrime(id) ? 'Yes' : 'No', '"},',
+                '{"display_type":"number","trait_type":"Token ID","value":', idString, '}',
+            ']}'
+        );
     }
 
 
     /// @notice Intenal mint function
-    /// @param to The address receiving the NFT
-    /// @param price The price of the NFT to mint
-    function mintAtPrice(address to, uint256 price) internal  {
+    /// @param to The address receiving the NFTs
+    /// @param quantity The number of NFTs to mint
+    /// @param price The price of one NFT
+    function mintAtPrice(address to, uint256 quantity, uint256 price) internal  {
+
+        uint256 remaining = MAX_SUPPLY - totalSupply();
+        uint256 totalPrice = price * quantity;
 
         // performs various pre-mint checks
-        if (totalSupply() == MAX_SUPPLY) revert MaxSupplyReached(); // max supply not reached
+        if (quantity == 0) revert InvalidQuantity(); // at least one NFT is minted
+        if (remaining == 0) revert MaxSupplyReached(); // max supply not reached
+        if (quantity > remaining) revert QuantityExceedsSupply(quantity, remaining); // all NFTs can be minted
         if (!isPublicMintEnabled) revert MintNotEnabled(); // mint is enabled
         if (msg.sender != tx.origin) revert NoBots(); //  minter is EOA
-        if (msg.value != price) revert WrongPrice(msg.value, price); // correct price was paid
+        if (msg.value != totalPrice) revert WrongPrice(msg.value, totalPrice); // correct price was paid
 
-        // Mint the NFT
-        super._safeMint(to, ++tokenId);
+        // Mint the NFTs
+        for (uint256 i; i < quantity;) {
+            super._safeMint(to, ++tokenId);
+
+            unchecked {
+                ++i;
+            }
+        }
     }
 
 }
@@ -2,65 +2,166 @@
 pragma solidity 0.8.18;
 
 
-import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import { IERC721 } from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
 import { IERC721Enumerable } from "@openzeppelin/contracts/token/ERC721/extensions/IERC721Enumerable.sol";
-import { Math } from "@openzeppelin/contracts/utils/math/Math.sol";
+import { Primes } from "./utils/Primes.sol";
+import { StakeReceipt } from "./token/StakeReceipt.sol";
 
 /**
  *  @title Prime NFT counter.
  *  @author Carlo Pascoli
  *  @notice A smart contract that has a function which accepts an address and returns
  *          how many NFTs are owned by that address which have tokenIDs that are prime numbers.
+ *          It also allows to count and find the NFTs of an address with tokenIDs matching other traits,
+ *          paging over the tokens of the owner to keep the gas used by each call bounded.
+ *          The NFTs staked in TokenFarm are counted with the receipts of the TokenFarm, set at deployment, which mirror their tokenIDs.
  *
  */
 contract PrimeNftCounter {
 
+    /// @notice The traits of a tokenID that can be queried
+    enum Trait {
+        Prime,        // the tokenID is a prime number
+        InRange,      // the tokenID is between min and max (included)
+        DivisibleBy   // the tokenID is divisible by divisor
+    }
+
+    /// @notice A filter on the tokenIDs. Only the fields used by the trait are relevant.
+    struct Filter {
+        Trait trait;
+        uint256 min;
+        uint256 max;
+        uint256 divisor;
+    }
+
     IERC721Enumerable public immutable nftToken;
 
-    constructor(address nftTokenAddress ) {
+    /// @notice The receipts of the NFTs staked in TokenFarm (TokenFarm.receiptToken)
+    StakeReceipt public immutable receiptToken;
+
+    error InvalidDivisor();
+    error InvalidReceiptToken();
+
+    /// @param nftTokenAddress The NFT counted
+    /// @param receiptTokenAddress The StakeReceipt of the TokenFarm staking the NFT
+    constructor(address nftTokenAddress, address receiptTokenAddress) {
+        if (StakeReceipt(receiptTokenAddress).nftToken() != nftTokenAddress) revert InvalidReceiptToken();
+
         nftToken = IERC721Enumerable(nftTokenAddress);
+        receiptToken = StakeReceipt(receiptTokenAddress);
     }
 
 
     /// @notice function which accepts an address and returns how many NFTs
     /// are owned by that address with tokenIDs that are prime numbers.
     function countPrimes(address owner) external view returns (uint256 primes) {
+        primes = _countPrimes(nftToken, owner);
+    }
 
-        uint256 balance = nftToken.balanceOf(owner);
+
+    /// @notice Counts the NFTs held by the owner and the NFTs staked by the owner in the TokenFarm with tokenIDs that are prime numbers.
+    /// @param owner The owner of the NFTs
+    function countPrimesHeldAndStaked(address owner) external view returns (uint256 primes) {
+        primes = _countPrimes(nftToken, owner) + _countPrimes(receiptToken, owner);
+    }
+
+
+    /// @notice Counts the NFTs of the owner with tokenIDs matching the filter,
+    ///         checking at most `limit` tokens starting from index `start` of the tokens of the owner.
+    /// @param owner The owner of the NFTs
+    /// @param filter The filter on the tokenIDs
+    /// @param start The index of the first token of the owner to check
+    /// @param limit The maximum number of tokens to check
+    /// @return count The number of NFTs matching the filter in the page
+    /// @return next The index of the first token of the next page, equal to the balance of the owner after the last page
+    function countMatching(address owner, Filter calldata filter, uint256 start, uint256 limit) external view returns (uint256 count, uint256 next) {
+
+        if (filter.trait == Trait.DivisibleBy && filter.divisor == 0) revert InvalidDivisor();
+
+        next = _pageEnd(owner, start, limit);
+
+        for (uint256 i = start; i < next;) {
+
+            if (matches(nftToken.tokenOfOwnerByIndex(owner, i), filter)) {
+                unchecked {
+                    ++count;
+                }
+            }
+
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+
+    /// @notice Returns the NFTs of the owner with tokenIDs matching the filter,
+    ///         checking at most `limit` tokens starting from index `start` of the tokens of the owner.
+    /// @param owner The owner of the NFTs
+    /// @param filter The filter on the tokenIDs
+    /// @param start The index of the first token of the owner to check
+    /// @param limit The maximum number of tokens to check
+    /// @return tokenIds The tokenIDs matching the filter in the page
+    /// @return next The index of the first token of the next page, equal to the balance of the owner after the last page
+    function findMatching(address owner, Filter calldata filter, uint256 start, uint256 limit) external view returns (uint256[] memory tokenIds, uint256 next) {
+
+        if (filter.trait == Trait.DivisibleBy && filter.divisor == 0) revert InvalidDivisor();
+
+        next = _pageEnd(owner, start, limit);
+        tokenIds = new uint256[](next > start ? next - start : 0);
+
+        uint256 count;
+        for (uint256 i = start; i < next;) {
+
+            uint256 tokenId = nftToken.tokenOfOwnerByIndex(owner, i);
+            if (matches(tokenId, filter)) {
+                tokenIds[count] = tokenId;
+                unchecked {
+                    ++count;
+                }
+            }
+
+            unchecked {
+                ++i;
+            }
+        }
+
+        // shrink the array to the number of tokenIDs found
+        assembly {
+            mstore(tokenIds, count)
+        }
+    }
+
+
+    /// @notice Returns true if the tokenID matches the filter
+    function matches(uint256 tokenId, Filter calldata filter) public pure returns (bool) {
+
+        if (filter.trait == Trait.Prime) return isPrime(tokenId);
+        if (filter.trait == Trait.InRange) return tokenId >= filter.min && tokenId <= filter.max;
+
+        return tokenId % filter.divisor == 0;
+    }
+
+
+    /// @notice Returns true if n is a prime number.
+    /// @dev See Primes.isPrime
+    function isPrime(uint256 n) public pure returns (bool) {
+        return Primes.isPrime(n);
+    }
+
+
+    ////// Internal functions //////
+
+    /// @notice Returns how many NFTs of the token owned by the owner have tokenIDs that are prime numbers
+    function _countPrimes(IERC721Enumerable token, address owner) internal view returns (uint256 primes) {
+
+        uint256 balance = token.balanceOf(owner);
         uint256 i;
 
         for (; i < balance;) {
 
-            uint256 n = nftToken.tokenOfOwnerByIndex(owner, i);
-
-            // If n is divisible by 2 or 3 it's not prime.
-            // even numbers can be efficiently determinred checking their last bit: n & uint256(1) == 0
-            bool notPrimes = (n == 1) || (n > 3 && ( (n & uint256(1)) == 0 || n % 3 == 0 ));
-
-            if (!notPrimes) {
-                // For every number a, between 5 and sqrt(n),  
-                // check if n is divisible by a or a + 2, skipping numbers divisible by 3.
-               
-                bool notPrimeFound = false;
-                uint256 j=5;
-                uint256 max = Math.sqrt(balance);
-
-                for (; j <= max;) {
-                    if (n != j && n % j == 0) {
-                        notPrimeFound = true;
-                        break;
-                    }
-
-                    unchecked {
-                        // skips multiples of 2 and 3
-                        j += (j+2 % 3 == 0) ? 4 : 2;
-                    }
-                }
-                if (!notPrimeFound) {
-                    unchecked {
-                        ++primes;
-                    }
+            if (isPrime(token.tokenOfOwnerByIndex(owner, i))) {
+                unchecked {
+                    ++primes;
                 }
             }
 
@@ -70,4 +171,13 @@ contract PrimeNftCounter {
         }
     }
 
-}
\ No newline at end of file
+
+    /// @notice Returns the index after the last token of the page starting at `start`
+    function _pageEnd(address owner, uint256 start, uint256 limit) internal view returns (uint256 end) {
+        uint256 balance = nftToken.balanceOf(owner);
+        if (start >= balance) return balance;
+
+        end = balance - start > limit ? start + limit : balance;
+    }
+
+}
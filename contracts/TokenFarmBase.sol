@@ -0,0 +1,847 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.18;
+
+
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { IERC721 } from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import { IERC721Receiver } from "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { Ownable2StepUpgradeable } from "@openzeppelin/contracts-upgradeable/access/Ownable2StepUpgradeable.sol";
+import { PausableUpgradeable } from "@openzeppelin/contracts-upgradeable/security/PausableUpgradeable.sol";
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { IRewardToken } from "./token/RewardToken.sol";
+import { StakeReceipt } from "./token/StakeReceipt.sol";
+import { IERC4494 } from "./interfaces/IERC4494.sol";
+import { ITokenFarm } from "./interfaces/ITokenFarm.sol";
+
+
+/**
+ *  @title The farming logic of TokenFarm and TokenFarmUpgradeable.
+ *  @author Carlo Pascoli
+ *  @notice A contract that can mint ERC20 tokens to NFT token holders who stake their NFTs.
+ *          Users can send their NFTs and withdraw ERC20 tokens every 24 hours for each NFT staked.
+ *          The reward rate is set by the owner in epochs that can be scheduled in advance, until an optional emission end.
+ *          The rewards of each user are checkpointed every time the number of NFTs they staked changes.
+ *          Users without ETH can stake with an NFT permit signature, and a relayer can submit their stake, withdraw
+ *          and claim transactions through the ERC-2771 trusted forwarder.
+ *          The owner can pause staking and claiming. Users can always get their NFTs back with an emergency withdraw,
+ *          forfeiting their rewards, and the owner can rescue the tokens sent to this contract without being staked.
+ *          Users can lock their NFTs when staking to boost their rewards. The boost rewards of a locked NFT
+ *          become claimable when the lock expires, and are forfeited if the NFT is withdrawn early.
+ *          Stakers hold a soulbound receipt of each NFT staked, with the same tokenID, burned when the NFT is withdrawn.
+ *          The state is initialized by the constructor of TokenFarm, or by the initializer of the TokenFarmUpgradeable proxy.
+ *
+ */
+abstract contract TokenFarmBase is Initializable, Ownable2StepUpgradeable, PausableUpgradeable, IERC721Receiver {
+
+    using EnumerableSet for EnumerableSet.UintSet;
+    using SafeERC20 for IERC20;
+
+    /// @notice A period of time with a constant reward rate, starting at `start` and ending at the start of the next epoch
+    struct RewardEpoch {
+        uint256 start;             // the start time of the epoch
+        uint256 rate;              // the reward tokens (in wei) farmed every 24 hours by each NFT staked
+        uint256 cumulativeRewards; // the rewards farmed by one NFT from the start of the first epoch to the start of this epoch, times 1 days
+    }
+
+    /// @notice The lock of a staked NFT, which can't be withdrawn before `end` and farms `multiplier` times the reward rate until then
+    struct Lock {
+        uint64 start;              // the time the NFT was locked
+        uint64 end;                // the time the lock expires
+        uint128 multiplier;        // the reward multiplier, uses BOOST_DENOMINATOR denominator
+        uint256 boostRewards;      // the boost rewards farmed up to the last checkpoint of the owner, claimable when the lock expires
+    }
+
+    /// @notice the denominator of the reward multipliers
+    uint256 public constant BOOST_DENOMINATOR = 10_000;
+
+    /// @notice the reward multiplier of the longest lock (3x)
+    uint256 public constant MAX_BOOST = 30_000;
+
+    uint256 public constant MIN_LOCK_DURATION = 7 days;
+    uint256 public constant MAX_LOCK_DURATION = 365 days;
+
+    /// @notice the time between the approval of a migration and the release of the stakes, for the stakers to emergencyWithdraw
+    uint256 public constant MIGRATION_DELAY = 7 days;
+
+    IERC721 public nftToken;
+    IRewardToken public rewardToken;
+
+    /// @notice the receipts of the NFTs staked, minted and burned by this contract
+    StakeReceipt public receiptToken;
+    mapping (uint256 => address) public tokenToOwner;
+
+    /// @notice the time of the last checkpoint of the rewards of the owner
+    mapping (address => uint256) public ownerToTimeFarming;
+
+    /// @notice the NFTs staked by the owner
+    mapping (address => EnumerableSet.UintSet) internal ownerToStakedTokens;
+
+    /// @notice the number of NFTs staked by all users
+    uint256 public totalStaked;
+
+    /// @notice the rewards accrued by the owner up to the last checkpoint and not yet claimed
+    mapping (address => uint256) public ownerToUnclaimedRewards;
+
+    /// @notice the reward epochs, sorted by start time
+    RewardEpoch[] public rewardEpochs;
+
+    /// @notice the time after which no more rewards are farmed (0 if emissions never end)
+    uint256 public emissionEnd;
+
+    /// @notice the locks of the staked NFTs
+    mapping (uint256 => Lock) public tokenLocks;
+
+    /// @notice the NFTs locked by the owner, including the expired locks not yet checkpointed
+    mapping (address => EnumerableSet.UintSet) internal ownerToLockedTokens;
+
+    /// @notice the ERC-2771 forwarder trusted to relay the meta-transactions (the zero address if they are disabled)
+    address public trustedForwarder;
+
+    /// @notice the farm approved to take over the stakes of this contract (the zero address if none)
+    address public migrationFarm;
+
+    /// @notice the time after which the migration farm can release the stakes
+    uint256 public migrationEffectiveAt;
+
+    /// @dev reserved storage slots for the variables added by future versions, the state of this contract uses 50 slots
+    uint256[35] private __gap;
+
+
+    error TokenTransferNotApproved();
+    error NotTheTokenOwner();
+    // error AlreadyDeposited();
+    error InvalidCaller();
+    error InvalidEpochStart();
+    error InvalidEmissionEnd();
+    error EmissionsEnded();
+    error TokenIsStaked(uint256 tokenId);
+    error InvalidLockDuration();
+    error TokenLocked(uint256 tokenId, uint256 end);
+    error TokenNotLocked(uint256 tokenId);
+    error InvalidReceiptToken();
+    error InvalidMigrationFarm();
+    error MigrationNotEffective(uint256 effectiveAt);
+
+    event Deposited(address indexed staker, uint256 tokenId);
+    event Withdrawn(address indexed recipient, uint256 tokenId);
+    event Claimed(address indexed recipient, uint256 amount);
+    event RewardEpochScheduled(uint256 indexed start, uint256 rate);
+    event EmissionEndSet(uint256 end);
+    event TrustedForwarderSet(address indexed forwarder);
+    event EmergencyWithdrawn(address indexed recipient, uint256 tokenId);
+    event Locked(address indexed staker, uint256 indexed tokenId, uint256 end, uint256 multiplier);
+    event EarlyExited(address indexed recipient, uint256 indexed tokenId, uint256 forfeitedRewards);
+    event ERC721Rescued(address indexed token, uint256 tokenId, address indexed to);
+    event ERC20Rescued(address indexed token, uint256 amount, address indexed to);
+    event MigrationApproved(address indexed farm, uint256 effectiveAt);
+    event StakeImported(address indexed staker, uint256 tokenId);
+    event StakeMigrated(address indexed staker, uint256 tokenId, address indexed farm);
+    event ReceiptTokenSet(address indexed receiptToken);
+
+
+    /// @notice Initializes the owner, the tokens, the reward rate and the trusted forwarder of the farm
+    function __TokenFarm_init(
+        address nftTokenAddress,
+        address rewardTokenAddress,
+        uint256 initialRewardRate,
+        address forwarder
+    ) internal onlyInitializing {
+        __Ownable2Step_init();
+        __Pausable_init();
+
+        nftToken = IERC721(nftTokenAddress);
+        rewardToken = IRewardToken(rewardTokenAddress);
+
+        _scheduleRewardEpoch(block.timestamp, initialRewardRate);
+        _setTrustedForwarder(forwarder);
+    }
+
+
+    /// @notice Allow the owner to change the reward rate from now on. The rewards farmed so far are not affected.
+    /// @param rate The reward tokens (in wei) farmed every 24 hours by each NFT staked
+    /// @dev reverts if an epoch is scheduled to start in the future
+    function setRewardRate(uint256 rate) external onlyOwner {
+        if (emissionEnd != 0 && emissionEnd <= block.timestamp) revert EmissionsEnded();
+
+        _scheduleRewardEpoch(block.timestamp, rate);
+    }
+
+
+    /// @notice Allow the owner to schedule a reward epoch with a different reward rate
+    /// @param start The start time of the epoch. Must be after the start of the last epoch scheduled.
+    /// @param rate The reward tokens (in wei) farmed every 24 hours by each NFT staked
+    function scheduleRewardEpoch(uint256 start, uint256 rate) external onlyOwner {
+        if (start < block.timestamp) revert InvalidEpochStart();
+        if (emissionEnd != 0 && emissionEnd <= block.timestamp) revert EmissionsEnded();
+
+        _scheduleRewardEpoch(start, rate);
+    }
+
+
+    /// @notice Allow the owner to set the time after which no more rewards are farmed
+    /// @param end The emission end time, or 0 if emissions never end
+    /// @dev the emission end can't be changed after it is reached
+    function setEmissionEnd(uint256 end) external onlyOwner {
+        if (emissionEnd != 0 && emissionEnd <= block.timestamp) revert EmissionsEnded();
+        if (end != 0 && end < block.timestamp) revert InvalidEmissionEnd();
+
+        emissionEnd = end;
+
+        emit EmissionEndSet(end);
+    }
+
+
+    /// @notice Allow the owner to set the ERC-2771 forwarder trusted to relay the meta-transactions
+    /// @param forwarder The trusted forwarder, or the zero address to disable the meta-transactions
+    function setTrustedForwarder(address forwarder) external onlyOwner {
+        _setTrustedForwarder(forwarder);
+    }
+
+
+    /// @notice Allow the owner to pause staking and claiming, e.g. if a bug is found.
+    ///         The stakers can still get their NFTs back with emergencyWithdraw.
+    function pause() external onlyOwner {
+        _pause();
+    }
+
+
+    /// @notice Allow the owner to resume staking and claiming
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+
+
+    /// @notice Allow the owner to recover an NFT sent to this contract without being staked,
+    ///         e.g. an NFT sent with transferFrom, which does not call onERC721Received
+    /// @param token The NFT contract
+    /// @param tokenId The NFT to recover
+    /// @param to The recipient of the NFT
+    function rescueERC721(address token, uint256 tokenId, address to) external onlyOwner {
+        if (token == address(nftToken) && tokenToOwner[tokenId] != address(0)) revert TokenIsStaked(tokenId);
+
+        emit ERC721Rescued(token, tokenId, to);
+
+        IERC721(token).safeTransferFrom(address(this), to, tokenId);
+    }
+
+
+    /// @notice Allow the owner to recover the ERC20 tokens sent to this contract.
+    ///         The reward tokens are minted to the stakers, so the contract holds no ERC20 tokens of the stakers.
+    /// @param token The ERC20 token
+    /// @param amount The amount to recover
+    /// @param to The recipient of the tokens
+    function rescueERC20(address token, uint256 amount, address to) external onlyOwner {
+        emit ERC20Rescued(token, amount, to);
+
+        IERC20(token).safeTransfer(to, amount);
+    }
+
+
+    /// @notice Allow the owner to let a new farm take over the stakes, e.g. the upgradeable farm importing the stakes of this farm.
+    ///         This contract must be paused, so that the stakes can't change while they are imported.
+    ///         The stakes can be released after MIGRATION_DELAY, the stakers who don't want to migrate can emergencyWithdraw until then.
+    /// @param farm The new farm, a contract staking the same NFT, allowed to release the stakes of this contract with releaseStakes
+    function approveMigration(address farm) external onlyOwner whenPaused {
+        if (farm.code.length == 0 || ITokenFarm(farm).nftToken() != address(nftToken)) revert InvalidMigrationFarm();
+
+        uint256 effectiveAt = block.timestamp + MIGRATION_DELAY;
+        migrationFarm = farm;
+        migrationEffectiveAt = effectiveAt;
+
+        emit MigrationApproved(farm, effectiveAt);
+    }
+
+
+    /// @notice Allow the farm approved with approveMigration to take over the stakes of a staker, after copying them.
+    ///         The position of the staker is cleared: its rewards and locks are deleted, the receipts are burned
+    ///         and the NFTs are transferred to the new farm.
+    /// @param staker The staker
+    /// @return tokenIds The NFTs transferred to the new farm
+    function releaseStakes(address staker) external whenPaused returns (uint256[] memory tokenIds) {
+        address farm = migrationFarm;
+        if (msg.sender != farm || farm == address(0)) revert InvalidCaller();
+        if (block.timestamp < migrationEffectiveAt) revert MigrationNotEffective(migrationEffectiveAt);
+
+        tokenIds = ownerToStakedTokens[staker].values();
+        uint256 length = tokenIds.length;
+
+        delete ownerToUnclaimedRewards[staker];
+        delete ownerToTimeFarming[staker];
+
+        for (uint256 i; i < length;) {
+            uint256 tokenId = tokenIds[i];
+
+            delete tokenToOwner[tokenId];
+            ownerToStakedTokens[staker].remove(tokenId);
+            receiptToken.burn(tokenId);
+            delete tokenLocks[tokenId];
+            ownerToLockedTokens[staker].remove(tokenId);
+
+            emit StakeMigrated(staker, tokenId, farm);
+
+            unchecked {
+                ++i;
+            }
+        }
+
+        unchecked {
+            totalStaked -= length;
+        }
+
+        for (uint256 i; i < length;) {
+            // transferFrom does not call onERC721Received
+            nftToken.transferFrom(address(this), farm, tokenIds[i]);
+
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+
+    /// @notice Stake many NFTs at once. The NFTs are transferred from the caller, who must have approved this contract.
+    /// @param tokenIds The NFTs to stake
+    function stakeMany(uint256[] calldata tokenIds) external whenNotPaused {
+        address sender = _msgSender();
+
+        // checkpoint the rewards farmed by the NFTs already staked
+        _checkpoint(sender);
+
+        bool approvedForAll = nftToken.isApprovedForAll(sender, address(this));
+        uint256 length = tokenIds.length;
+
+        for (uint256 i; i < length;) {
+            uint256 tokenId = tokenIds[i];
+            if (!approvedForAll && nftToken.getApproved(tokenId) != address(this)) revert TokenTransferNotApproved();
+
+            tokenToOwner[tokenId] = sender;
+            ownerToStakedTokens[sender].add(tokenId);
+            receiptToken.mint(sender, tokenId);
+
+            emit Deposited(sender, tokenId);
+
+            // transferFrom does not call onERC721Received
+            nftToken.transferFrom(sender, address(this), tokenId);
+
+            unchecked {
+                ++i;
+            }
+        }
+
+        totalStaked += length;
+    }
+
+
+    /// @notice Stake an NFT with the EIP-4494 permit signature of its owner, who is credited with the stake.
+    ///         Can be submitted by anyone, e.g. by a relayer on behalf of an owner without ETH.
+    /// @param tokenId The NFT to stake
+    /// @param deadline The deadline of the permit
+    /// @param signature The permit signature of the owner of the NFT, with this contract as the spender
+    function stakeWithPermit(uint256 tokenId, uint256 deadline, bytes calldata signature) external whenNotPaused {
+        address staker = nftToken.ownerOf(tokenId);
+
+        // the permit may have been submitted already, e.g. by a front-runner: the approval it gave is enough
+        try IERC4494(address(nftToken)).permit(address(this), tokenId, deadline, signature) {
+        } catch {
+            if (nftToken.getApproved(tokenId) != address(this)) revert TokenTransferNotApproved();
+        }
+
+        // checkpoint the rewards farmed by the NFTs already staked
+        _checkpoint(staker);
+
+        tokenToOwner[tokenId] = staker;
+        ownerToStakedTokens[staker].add(tokenId);
+        receiptToken.mint(staker, tokenId);
+        ++totalStaked;
+
+        emit Deposited(staker, tokenId);
+
+        // transferFrom does not call onERC721Received
+        nftToken.transferFrom(staker, address(this), tokenId);
+    }
+
+
+    /// @notice Stake and lock an NFT to boost its rewards. The NFT is transferred from the caller, who must have approved this contract.
+    ///         The NFT can't be withdrawn before the lock expires, except with exitEarly.
+    /// @param tokenId The NFT to stake
+    /// @param duration The lock duration, between MIN_LOCK_DURATION and MAX_LOCK_DURATION
+    function stakeWithLock(uint256 tokenId, uint256 duration) external whenNotPaused {
+        address sender = _msgSender();
+
+        if (!nftToken.isApprovedForAll(sender, address(this)) && nftToken.getApproved(tokenId) != address(this)) {
+            revert TokenTransferNotApproved();
+        }
+
+        // checkpoint the rewards farmed by the NFTs already staked
+        _checkpoint(sender);
+
+        tokenToOwner[tokenId] = sender;
+        ownerToStakedTokens[sender].add(tokenId);
+        receiptToken.mint(sender, tokenId);
+        ++totalStaked;
+
+        emit Deposited(sender, tokenId);
+
+        _lock(sender, tokenId, duration);
+
+        // transferFrom does not call onERC721Received
+        nftToken.transferFrom(sender, address(this), tokenId);
+    }
+
+
+    /// @notice withdraw 1 NFT from the contract and claim the ERC20 tokens farmed by all the NFTs of the caller
+    function withdraw(uint256 tokenId) external whenNotPaused {
+        address sender = _msgSender();
+
+        if (tokenToOwner[tokenId] != sender) revert NotTheTokenOwner();
+        _checkUnlocked(tokenId);
+
+        // settle the rewards farmed so far, including the ones of the NFT withdrawn
+        uint256 toMint = _settle(sender);
+
+        delete tokenToOwner[tokenId];
+        ownerToStakedTokens[sender].remove(tokenId);
+        receiptToken.burn(tokenId);
+        unchecked {
+            --totalStaked;
+        }
+
+        emit Withdrawn(sender, tokenId);
+
+        _mintRewards(sender, toMint);
+
+        nftToken.safeTransferFrom(address(this), sender, tokenId);
+    }
+
+
+    /// @notice withdraw many NFTs from the contract and claim the ERC20 tokens farmed by all the NFTs of the caller
+    /// @param tokenIds The NFTs to withdraw
+    function withdrawMany(uint256[] calldata tokenIds) external whenNotPaused {
+        address sender = _msgSender();
+
+        // settle the rewards farmed so far, including the ones of the NFTs withdrawn
+        uint256 toMint = _settle(sender);
+
+        uint256 length = tokenIds.length;
+        for (uint256 i; i < length;) {
+            uint256 tokenId = tokenIds[i];
+            if (tokenToOwner[tokenId] != sender) revert NotTheTokenOwner();
+            _checkUnlocked(tokenId);
+
+            delete tokenToOwner[tokenId];
+            ownerToStakedTokens[sender].remove(tokenId);
+            receiptToken.burn(tokenId);
+
+            emit Withdrawn(sender, tokenId);
+
+            unchecked {
+                ++i;
+            }
+        }
+
+        unchecked {
+            totalStaked -= length;
+        }
+
+        _mintRewards(sender, toMint);
+
+        for (uint256 i; i < length;) {
+            nftToken.safeTransferFrom(address(this), sender, tokenIds[i]);
+
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+
+    /// @notice Claim the ERC20 tokens farmed by all the NFTs staked by the caller
+    /// @param tokenId An NFT staked by the caller
+    function claimTokens(uint256 tokenId) external whenNotPaused {
+        address sender = _msgSender();
+
+        // check that the NFT deposited belongs to the caller
+        if (tokenToOwner[tokenId] != sender) revert NotTheTokenOwner();
+
+        _mintRewards(sender, _settle(sender));
+    }
+
+
+    /// @notice Claim the ERC20 tokens farmed by all the NFTs staked by the caller, including the NFTs already withdrawn
+    function claimAll() external whenNotPaused {
+        address sender = _msgSender();
+
+        _mintRewards(sender, _settle(sender));
+    }
+
+
+    /// @notice Withdraw a locked NFT before the lock expires, forfeiting the boost rewards it farmed.
+    ///         The base rewards farmed so far are not claimed and remain claimable.
+    /// @param tokenId The locked NFT to withdraw
+    function exitEarly(uint256 tokenId) external whenNotPaused {
+        address sender = _msgSender();
+
+        if (tokenToOwner[tokenId] != sender) revert NotTheTokenOwner();
+        if (tokenLocks[tokenId].end <= block.timestamp) revert TokenNotLocked(tokenId);
+
+        // checkpoint the rewards farmed so far, including the boost rewards of the NFT withdrawn
+        _checkpoint(sender);
+
+        uint256 forfeited = tokenLocks[tokenId].boostRewards;
+        delete tokenLocks[tokenId];
+        ownerToLockedTokens[sender].remove(tokenId);
+
+        delete tokenToOwner[tokenId];
+        ownerToStakedTokens[sender].remove(tokenId);
+        receiptToken.burn(tokenId);
+        unchecked {
+            --totalStaked;
+        }
+
+        emit EarlyExited(sender, tokenId, forfeited);
+        emit Withdrawn(sender, tokenId);
+
+        nftToken.safeTransferFrom(address(this), sender, tokenId);
+    }
+
+
+    /// @notice Withdraw all the NFTs staked by the caller without claiming the rewards, which are forfeited.
+    ///         Can be used when the contract is paused, and for the locked NFTs too.
+    function emergencyWithdraw() external {
+        address sender = _msgSender();
+
+        uint256[] memory tokenIds = ownerToStakedTokens[sender].values();
+        uint256 length = tokenIds.length;
+
+        // the rewards are forfeited without being computed
+        delete ownerToUnclaimedRewards[sender];
+        delete ownerToTimeFarming[sender];
+
+        for (uint256 i; i < length;) {
+            uint256 tokenId = tokenIds[i];
+
+            delete tokenToOwner[tokenId];
+            ownerToStakedTokens[sender].remove(tokenId);
+            receiptToken.burn(tokenId);
+            delete tokenLocks[tokenId];
+            ownerToLockedTokens[sender].remove(tokenId);
+
+            emit EmergencyWithdrawn(sender, tokenId);
+
+            unchecked {
+                ++i;
+            }
+        }
+
+        unchecked {
+            totalStaked -= length;
+        }
+
+        for (uint256 i; i < length;) {
+            nftToken.safeTransferFrom(address(this), sender, tokenIds[i]);
+
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+
+    /// @notice IERC721Receiver callback executed when safeTransferFrom is used to send the NFT to this contract
+    /// @dev the NFT is locked if the data is the abi encoded lock duration
+    function onERC721Received(
+        address /*operator*/,
+        address from,
+        uint256 tokenId,
+        bytes calldata data
+    ) external whenNotPaused returns (bytes4) {
+
+        // ensure the caller is the nft contract
+        if(msg.sender != address(nftToken)) revert InvalidCaller();
+
+        // checkpoint the rewards farmed by the NFTs already staked
+        _checkpoint(from);
+
+        tokenToOwner[tokenId] = from;
+        ownerToStakedTokens[from].add(tokenId);
+        receiptToken.mint(from, tokenId);
+        ++totalStaked;
+
+        emit Deposited(from, tokenId);
+
+        if (data.length > 0) _lock(from, tokenId, abi.decode(data, (uint256)));
+
+        return IERC721Receiver.onERC721Received.selector;
+    }
+
+
+    /// @notice Returns true if the forwarder is trusted to relay the meta-transactions (ERC-2771)
+    function isTrustedForwarder(address forwarder) public view returns (bool) {
+        return forwarder != address(0) && forwarder == trustedForwarder;
+    }
+
+
+    /// @notice Returns the amount of tokens claimable by the given address for all the NFTs it staked
+    function claimableTokens(address addr) public view returns (uint256 tokensToMint) {
+
+        tokensToMint = ownerToUnclaimedRewards[addr];
+
+        // if there is no record of the address farming return the unclaimed rewards
+        uint256 claimIntervalStart = ownerToTimeFarming[addr];
+        uint256 stakedCount = ownerToStakedTokens[addr].length();
+        if (claimIntervalStart == 0 || stakedCount == 0) return tokensToMint;
+
+        // the rewards farmed by each NFT since the last checkpoint, times 1 days
+        uint256 farmed = cumulativeRewardsAt(block.timestamp) - cumulativeRewardsAt(claimIntervalStart);
+
+        tokensToMint += stakedCount * farmed / 1 days;
+
+        // the boost rewards of the expired locks
+        uint256 length = ownerToLockedTokens[addr].length();
+        for (uint256 i; i < length;) {
+            Lock storage lock = tokenLocks[ownerToLockedTokens[addr].at(i)];
+            if (lock.end <= block.timestamp) {
+                tokensToMint += lock.boostRewards + _boostRewardsSince(lock, claimIntervalStart);
+            }
+
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+
+    /// @notice Returns the boost rewards farmed by a locked NFT, claimable by its owner when the lock expires
+    function boostRewardsOf(uint256 tokenId) external view returns (uint256) {
+        Lock storage lock = tokenLocks[tokenId];
+        if (lock.end == 0) return 0;
+
+        return lock.boostRewards + _boostRewardsSince(lock, ownerToTimeFarming[tokenToOwner[tokenId]]);
+    }
+
+
+    /// @notice Returns the reward multiplier of a lock, uses BOOST_DENOMINATOR denominator
+    /// @dev the multiplier grows linearly from 1x for no lock to MAX_BOOST for a MAX_LOCK_DURATION lock
+    /// @param duration The lock duration, 0 or between MIN_LOCK_DURATION and MAX_LOCK_DURATION
+    function boostFor(uint256 duration) public pure returns (uint256) {
+        if (duration == 0) return BOOST_DENOMINATOR;
+        if (duration < MIN_LOCK_DURATION || duration > MAX_LOCK_DURATION) revert InvalidLockDuration();
+
+        return BOOST_DENOMINATOR + (MAX_BOOST - BOOST_DENOMINATOR) * duration / MAX_LOCK_DURATION;
+    }
+
+
+    /// @notice Returns the NFTs locked by the given address, including the expired locks not yet checkpointed
+    function lockedTokensOf(address addr) external view returns (uint256[] memory) {
+        return ownerToLockedTokens[addr].values();
+    }
+
+
+    /// @notice Returns the NFTs staked by the given address
+    function stakedTokensOf(address addr) external view returns (uint256[] memory) {
+        return ownerToStakedTokens[addr].values();
+    }
+
+
+    /// @notice Returns the number of NFTs staked by the given address
+    function stakedCount(address addr) external view returns (uint256) {
+        return ownerToStakedTokens[addr].length();
+    }
+
+
+    /// @notice Returns the reward tokens (in wei) currently farmed every 24 hours by each NFT staked
+    function rewardRate() external view returns (uint256) {
+        if (emissionEnd != 0 && emissionEnd <= block.timestamp) return 0;
+
+        return rewardEpochs[_epochAt(block.timestamp)].rate;
+    }
+
+
+    /// @notice Returns the number of reward epochs scheduled
+    function rewardEpochsCount() external view returns (uint256) {
+        return rewardEpochs.length;
+    }
+
+
+    /// @notice Returns the rewards farmed by one NFT from the start of the first epoch to the given time, times 1 days
+    /// @param timestamp A time after the start of the first epoch
+    function cumulativeRewardsAt(uint256 timestamp) public view returns (uint256) {
+
+        // no rewards are farmed after the emission end
+        uint256 end = emissionEnd;
+        if (end != 0 && timestamp > end) timestamp = end;
+
+        RewardEpoch storage epoch = rewardEpochs[_epochAt(timestamp)];
+
+        return epoch.cumulativeRewards + epoch.rate * (timestamp - epoch.start);
+    }
+
+
+    ////// Internal functions //////
+
+    /// @notice The sender of the call, or the signer of the request when the call comes from the trusted forwarder
+    /// @dev the trusted forwarder appends the address of the signer to the calldata
+    function _msgSender() internal view override returns (address sender) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= 20) {
+            assembly {
+                sender := shr(96, calldataload(sub(calldatasize(), 20)))
+            }
+        } else {
+            sender = msg.sender;
+        }
+    }
+
+
+    /// @notice The calldata of the call, without the signer appended by the trusted forwarder
+    function _msgData() internal view override returns (bytes calldata) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= 20) {
+            return msg.data[:msg.data.length - 20];
+        }
+
+        return msg.data;
+    }
+
+
+    /// @notice Sets the receipts of the NFTs staked, once. The receipts must be minted and burned by this contract.
+    function _setReceiptToken(StakeReceipt receipt) internal {
+        if (address(receiptToken) != address(0) || receipt.farm() != address(this) || receipt.nftToken() != address(nftToken)) {
+            revert InvalidReceiptToken();
+        }
+
+        receiptToken = receipt;
+
+        emit ReceiptTokenSet(address(receipt));
+    }
+
+
+    function _setTrustedForwarder(address forwarder) internal {
+        trustedForwarder = forwarder;
+
+        emit TrustedForwarderSet(forwarder);
+    }
+
+
+    /// @notice Records the rewards farmed by the owner so far, before the number of NFTs it staked changes
+    function _checkpoint(address addr) internal {
+        ownerToUnclaimedRewards[addr] = claimableTokens(addr);
+        _checkpointLocks(addr);
+        ownerToTimeFarming[addr] = block.timestamp;
+    }
+
+
+    /// @notice Resets the rewards of the owner and returns the amount of tokens to mint to it
+    function _settle(address addr) internal returns (uint256 toMint) {
+        toMint = claimableTokens(addr);
+        _checkpointLocks(addr);
+
+        // update last claim timestamp
+        ownerToTimeFarming[addr] = block.timestamp;
+        delete ownerToUnclaimedRewards[addr];
+    }
+
+
+    /// @notice Records the boost rewards farmed by the locked NFTs of the owner since its last checkpoint,
+    ///         and removes the expired locks, whose boost rewards are added to the claimable rewards
+    function _checkpointLocks(address addr) internal {
+        EnumerableSet.UintSet storage lockedTokens = ownerToLockedTokens[addr];
+        uint256 from = ownerToTimeFarming[addr];
+
+        // iterate backwards as the expired locks are removed
+        for (uint256 i = lockedTokens.length(); i > 0;) {
+            unchecked {
+                --i;
+            }
+            uint256 tokenId = lockedTokens.at(i);
+            Lock storage lock = tokenLocks[tokenId];
+
+            if (lock.end <= block.timestamp) {
+                delete tokenLocks[tokenId];
+                lockedTokens.remove(tokenId);
+            } else {
+                lock.boostRewards += _boostRewardsSince(lock, from);
+            }
+        }
+    }
+
+
+    /// @notice Locks a staked NFT. The rewards of the owner must be checkpointed.
+    function _lock(address addr, uint256 tokenId, uint256 duration) internal {
+        if (duration == 0) revert InvalidLockDuration();
+        uint256 multiplier = boostFor(duration);
+
+        uint256 end = block.timestamp + duration;
+        tokenLocks[tokenId] = Lock(uint64(block.timestamp), uint64(end), uint128(multiplier), 0);
+        ownerToLockedTokens[addr].add(tokenId);
+
+        emit Locked(addr, tokenId, end, multiplier);
+    }
+
+
+    /// @notice Reverts if the NFT is locked
+    function _checkUnlocked(uint256 tokenId) internal view {
+        uint256 end = tokenLocks[tokenId].end;
+        if (end > block.timestamp) revert TokenLocked(tokenId, end);
+    }
+
+
+    /// @notice Returns the boost rewards farmed by a locked NFT from the given time to now, or to the end of the lock
+    function _boostRewardsSince(Lock storage lock, uint256 from) internal view returns (uint256) {
+        uint256 to = lock.end < block.timestamp ? lock.end : block.timestamp;
+        if (from >= to) return 0;
+
+        return (lock.multiplier - BOOST_DENOMINATOR) * (cumulativeRewardsAt(to) - cumulativeRewardsAt(from)) / (BOOST_DENOMINATOR * 1 days);
+    }
+
+
+    /// @notice Mints the reward tokens to the owner, up to the tokens this contract can mint now (within its allowance and the max supply).
+    ///         The rewards that can't be minted remain claimable, so that the NFTs can still be withdrawn.
+    function _mintRewards(address addr, uint256 toMint) internal {
+        uint256 mintable = rewardToken.mintableBy(address(this));
+        if (toMint > mintable) {
+            unchecked {
+                ownerToUnclaimedRewards[addr] += toMint - mintable;
+            }
+            toMint = mintable;
+        }
+
+        if (toMint == 0) return;
+
+        emit Claimed(addr, toMint);
+
+        rewardToken.mint(addr, toMint);
+    }
+
+
+    /// @notice Returns the index of the epoch the given time belongs to
+    /// @dev epochs are scanned backwards as the recent epochs are the ones usually needed
+    function _epochAt(uint256 timestamp) internal view returns (uint256 i) {
+        i = rewardEpochs.length - 1;
+        while (i > 0 && rewardEpochs[i].start > timestamp) {
+            unchecked {
+                --i;
+            }
+        }
+    }
+
+
+    /// @notice Adds a reward epoch after the last epoch scheduled
+    function _scheduleRewardEpoch(uint256 start, uint256 rate) internal {
+
+        uint256 length = rewardEpochs.length;
+        uint256 cumulativeRewards;
+
+        if (length > 0) {
+            RewardEpoch storage last = rewardEpochs[length - 1];
+            if (start <= last.start) revert InvalidEpochStart();
+
+            cumulativeRewards = last.cumulativeRewards + last.rate * (start - last.start);
+        }
+
+        rewardEpochs.push(RewardEpoch(start, rate, cumulativeRewards));
+
+        emit RewardEpochScheduled(start, rate);
+    }
+
+}
\ No newline at end of file
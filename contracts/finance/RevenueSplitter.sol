@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.18;
+
+import { PaymentSplitter } from "@openzeppelin/contracts/finance/PaymentSplitter.sol";
+
+
+/**
+ *  @title Revenue splitter for the MyNFT mint proceeds and royalties
+ *  @author Carlo Pascoli
+ *  @notice Splits the ETH received between the payees in proportion to their shares.
+ *          Each payee pulls its own share with `release`, as many times as needed.
+ *          MyNFT sends its mint proceeds to the splitter with `releaseProceeds`
+ *          and its royalties can be paid to the splitter directly.
+ *
+ */
+contract RevenueSplitter is PaymentSplitter {
+
+    /// @param payees The addresses of the payees
+    /// @param shares The number of shares of each payee
+    constructor(address[] memory payees, uint256[] memory shares) PaymentSplitter(payees, shares) { }
+
+}
@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.18;
+
+import { IERC165 } from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+
+
+/**
+ *  @title EIP-4494 permit for ERC721 NFTs
+ *  @notice Allows the owner of an NFT to approve a spender with an EIP-712 signature
+ *  @dev See https://eips.ethereum.org/EIPS/eip-4494. The interface id is 0x5604e225.
+ */
+interface IERC4494 is IERC165 {
+
+    /// @notice Approves the spender of the NFT with the signature of the owner of the NFT
+    /// @param spender The address approved to transfer the NFT
+    /// @param tokenId The NFT to approve
+    /// @param deadline The time after which the signature can't be used
+    /// @param sig The EIP-712 signature of the permit by the owner of the NFT
+    function permit(address spender, uint256 tokenId, uint256 deadline, bytes memory sig) external;
+
+    /// @notice The nonce of the NFT, incremented each time the NFT is transferred
+    function nonces(uint256 tokenId) external view returns (uint256);
+
+    /// @notice The EIP-712 domain separator used by the permit signatures
+    function DOMAIN_SEPARATOR() external view returns (bytes32);
+
+}
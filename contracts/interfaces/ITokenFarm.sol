@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.18;
+
+
+/// @notice The views of TokenFarm read by a new farm to import its reward schedule and stakes, and the release of the stakes imported
+interface ITokenFarm {
+
+    function nftToken() external view returns (address);
+
+    function paused() external view returns (bool);
+
+    function rewardEpochsCount() external view returns (uint256);
+
+    function rewardEpochs(uint256 index) external view returns (uint256 start, uint256 rate, uint256 cumulativeRewards);
+
+    function emissionEnd() external view returns (uint256);
+
+    function stakedTokensOf(address staker) external view returns (uint256[] memory);
+
+    function ownerToTimeFarming(address staker) external view returns (uint256);
+
+    function ownerToUnclaimedRewards(address staker) external view returns (uint256);
+
+    function tokenLocks(uint256 tokenId) external view returns (uint64 start, uint64 end, uint128 multiplier, uint256 boostRewards);
+
+    function releaseStakes(address staker) external returns (uint256[] memory tokenIds);
+
+}
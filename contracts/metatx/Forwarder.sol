@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.18;
+
+import { MinimalForwarder } from "@openzeppelin/contracts/metatx/MinimalForwarder.sol";
+
+
+/**
+ *  @title ERC-2771 forwarder for the TokenFarm meta-transactions
+ *  @author Carlo Pascoli
+ *  @notice Verifies the EIP-712 signature of the requests signed by the users and forwards them to the target contract,
+ *          appending the address of the signer to the calldata. The relayer submitting the request pays the gas.
+ *
+ */
+contract Forwarder is MinimalForwarder { }
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.18;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import { ERC721Enumerable } from "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
+
+contract SimpleEnumerableNFT is ERC721Enumerable {
+
+    constructor() ERC721("Simple Enumerable NFT Token", "SET") { }
+
+    function mint(address recipient, uint256 tokenId) external {
+        super._mint(recipient, tokenId);
+    }
+}
@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.18;
+
+import { TokenFarmUpgradeable } from "../upgradeable/TokenFarmUpgradeable.sol";
+
+/// @notice A new version of TokenFarmUpgradeable, to test the upgrades
+contract TokenFarmUpgradeableV2 is TokenFarmUpgradeable {
+
+    function version() external pure returns (uint256) {
+        return 2;
+    }
+}
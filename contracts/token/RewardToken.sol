@@ -2,26 +2,114 @@
 pragma solidity 0.8.18;
 
 import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { ERC20Burnable } from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
+import { ERC20Capped } from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Capped.sol";
+import { ERC20Permit } from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { AccessControl } from "@openzeppelin/contracts/access/AccessControl.sol";
 
 
 interface IRewardToken is IERC20 {
 
     function mint(address to, uint256 amount) external;
-    
+
+    function mintableBy(address minter) external view returns (uint256 mintable);
+
 }
 
 /**
- *  @title A basic ERC20 token
+ *  @title A capped ERC20 token minted by the farms
  *  @author Carlo Pascoli
+ *  @notice The total supply can't exceed the max supply set at deployment.
+ *          The admin grants the minter role to the farms, which can share the token, and can limit how many tokens each minter mints.
+ *          Holders can burn their tokens and approve spenders with an ERC-2612 permit signature.
  */
-contract RewardToken is ERC20, Ownable, IRewardToken {
-    
-    constructor() ERC20("Reward Token", "RT") { }
+contract RewardToken is ERC20, ERC20Capped, ERC20Burnable, ERC20Permit, AccessControl, IRewardToken {
+
+    /// @notice The remaining tokens a minter can mint, if limited
+    struct MintAllowance {
+        bool limited;       // false if the minter can mint up to the max supply
+        uint256 remaining;  // the tokens (in wei) the minter can still mint, if limited
+    }
+
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+
+    /// @notice the mint allowance of each minter
+    mapping (address => MintAllowance) public mintAllowances;
+
+    error MintAllowanceExceeded(uint256 remaining);
+
+    event MintAllowanceSet(address indexed minter, uint256 allowance);
+    event MintAllowanceRemoved(address indexed minter);
+
+
+    /// @param maxSupply The max supply of the token (in wei)
+    constructor(uint256 maxSupply) ERC20("Reward Token", "RT") ERC20Capped(maxSupply) ERC20Permit("Reward Token") {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+    }
+
+
+    /// @notice Mint tokens within the mint allowance of the caller and the max supply
+    function mint(address to, uint256 amount) external onlyRole(MINTER_ROLE) {
+        MintAllowance storage allowance = mintAllowances[msg.sender];
+
+        if (allowance.limited) {
+            if (amount > allowance.remaining) revert MintAllowanceExceeded(allowance.remaining);
+            unchecked {
+                allowance.remaining -= amount;
+            }
+        }
 
-    function mint(address to, uint256 amount) external onlyOwner {
         _mint(to, amount);
     }
 
+
+    /// @notice Allow the admin to limit the tokens a minter can mint from now on
+    /// @param minter The minter
+    /// @param allowance The tokens (in wei) the minter can mint
+    function setMintAllowance(address minter, uint256 allowance) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        mintAllowances[minter] = MintAllowance(true, allowance);
+
+        emit MintAllowanceSet(minter, allowance);
+    }
+
+
+    /// @notice Allow the admin to let a minter mint up to the max supply
+    function removeMintAllowance(address minter) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        delete mintAllowances[minter];
+
+        emit MintAllowanceRemoved(minter);
+    }
+
+
+    /// @notice Returns the tokens (in wei) the minter can mint now, within its allowance and the max supply
+    function mintableBy(address minter) external view returns (uint256 mintable) {
+        if (!hasRole(MINTER_ROLE, minter)) return 0;
+
+        mintable = cap() - totalSupply();
+
+        MintAllowance storage allowance = mintAllowances[minter];
+        if (allowance.limited && allowance.remaining < mintable) mintable = allowance.remaining;
+    }
+
+
+    ////// Internal functions //////
+
+    function _mint(address account, uint256 amount) internal override(ERC20, ERC20Capped) {
+        super._mint(account, amount);
+    }
+
+
+    /// @notice A minter revoked is left with no mint allowance, so it can't mint if the role is granted again
+    ///         until the admin sets or removes its allowance
+    function _revokeRole(bytes32 role, address account) internal override {
+        if (role == MINTER_ROLE) {
+            mintAllowances[account] = MintAllowance(true, 0);
+
+            emit MintAllowanceSet(account, 0);
+        }
+
+        super._revokeRole(role, account);
+    }
+
 }
@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.18;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import { ERC721Enumerable } from "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
+import { IERC721 } from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import { IERC721Metadata } from "@openzeppelin/contracts/token/ERC721/extensions/IERC721Metadata.sol";
+
+
+/**
+ *  @title A receipt of an NFT staked in TokenFarm
+ *  @author Carlo Pascoli
+ *  @notice TokenFarm mints a receipt with the tokenID of each NFT staked to its staker, and burns it when the NFT is withdrawn,
+ *          so that the stakers keep an on-chain proof of holding the NFTs they staked.
+ *          The receipts are soulbound: they can't be transferred or approved.
+ *          The token URI of a receipt is the token URI of the NFT staked.
+ */
+contract StakeReceipt is ERC721Enumerable {
+
+    /// @notice The farm minting and burning the receipts
+    address public immutable farm;
+
+    /// @notice The NFT staked in the farm
+    address public immutable nftToken;
+
+    error NotTheFarm();
+    error Soulbound();
+
+
+    /// @param nftTokenAddress The NFT staked in the farm
+    /// @param farmAddress The farm minting and burning the receipts
+    constructor(address nftTokenAddress, address farmAddress) ERC721("TokenFarm Stake Receipt", "TFSR") {
+        farm = farmAddress;
+        nftToken = nftTokenAddress;
+    }
+
+
+    /// @notice Mint the receipt of an NFT staked
+    /// @param to The staker
+    /// @param tokenId The NFT staked
+    function mint(address to, uint256 tokenId) external {
+        if (msg.sender != farm) revert NotTheFarm();
+
+        _mint(to, tokenId);
+    }
+
+
+    /// @notice Burn the receipt of an NFT withdrawn
+    /// @param tokenId The NFT withdrawn
+    function burn(uint256 tokenId) external {
+        if (msg.sender != farm) revert NotTheFarm();
+
+        _burn(tokenId);
+    }
+
+
+    /// @notice The receipts can't be approved
+    function approve(address, uint256) public pure override(ERC721, IERC721) {
+        revert Soulbound();
+    }
+
+
+    /// @notice The receipts can't be approved
+    function setApprovalForAll(address, bool) public pure override(ERC721, IERC721) {
+        revert Soulbound();
+    }
+
+
+    /// @notice Returns the token URI of the NFT staked
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireMinted(tokenId);
+
+        return IERC721Metadata(nftToken).tokenURI(tokenId);
+    }
+
+
+    ////// Internal functions //////
+
+    /// @notice The receipts can only be minted and burned
+    function _beforeTokenTransfer(address from, address to, uint256 firstTokenId, uint256 batchSize) internal override {
+        if (from != address(0) && to != address(0)) revert Soulbound();
+
+        super._beforeTokenTransfer(from, to, firstTokenId, batchSize);
+    }
+
+}
@@ -0,0 +1,147 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.18;
+
+
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { TokenFarmBase } from "../TokenFarmBase.sol";
+import { ITokenFarm } from "../interfaces/ITokenFarm.sol";
+import { StakeReceipt } from "../token/StakeReceipt.sol";
+
+
+/**
+ *  @title The upgradeable version of TokenFarm, deployed behind a proxy.
+ *  @author Carlo Pascoli
+ *  @notice TokenFarm with an initializer in place of the constructor and a storage gap. The farming logic is in TokenFarmBase.
+ *          The owner sets the StakeReceipt of the proxy after initializing it, the NFTs can't be staked until then.
+ *          The owner can import the reward schedule and the stakes of a legacy TokenFarm, so that its stakers
+ *          don't need to withdraw and stake again, and the rewards they farmed are unchanged.
+ *
+ */
+contract TokenFarmUpgradeable is TokenFarmBase {
+
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    /// @notice the legacy farm the stakes are imported from (the zero address if none)
+    ITokenFarm public legacyFarm;
+
+    /// @dev reserved storage slots for the variables added by future versions of this contract, with legacyFarm 50 slots
+    uint256[49] private __gap;
+
+
+    error InvalidLegacyFarm();
+    error LegacyFarmNotPaused();
+    error AlreadyImported(address staker);
+
+    event RewardScheduleImported(address indexed legacyFarm, uint256 epochs);
+
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+
+    /// @notice Initializes the proxy, in place of the constructor of TokenFarm. The caller is the owner.
+    function initialize(
+        address nftTokenAddress,
+        address rewardTokenAddress,
+        uint256 initialRewardRate,
+        address forwarder
+    ) external initializer {
+        __TokenFarm_init(nftTokenAddress, rewardTokenAddress, initialRewardRate, forwarder);
+    }
+
+
+    /// @notice Allow the owner to set the receipts of the NFTs staked, once
+    /// @param receipt A StakeReceipt of the NFT staked, deployed with this proxy as its farm
+    function setReceiptToken(StakeReceipt receipt) external onlyOwner {
+        _setReceiptToken(receipt);
+    }
+
+
+    /// @notice Allow the owner to replace the reward schedule with the reward epochs and the emission end of a legacy farm,
+    ///         so that the rewards farmed by the stakes imported from it are unchanged. Must be called before any NFT is staked.
+    /// @param legacy The legacy farm, staking the same NFT. Both farms must be paused.
+    function importRewardSchedule(ITokenFarm legacy) external onlyOwner whenPaused {
+        if (legacy.nftToken() != address(nftToken) || totalStaked != 0 || address(legacyFarm) != address(0)) revert InvalidLegacyFarm();
+        if (!legacy.paused()) revert LegacyFarmNotPaused();
+
+        delete rewardEpochs;
+
+        uint256 length = legacy.rewardEpochsCount();
+        for (uint256 i; i < length;) {
+            (uint256 start, uint256 rate, uint256 cumulativeRewards) = legacy.rewardEpochs(i);
+            rewardEpochs.push(RewardEpoch(start, rate, cumulativeRewards));
+
+            unchecked {
+                ++i;
+            }
+        }
+
+        emissionEnd = legacy.emissionEnd();
+        legacyFarm = legacy;
+
+        emit RewardScheduleImported(address(legacy), length);
+    }
+
+
+    /// @notice Allow the owner to import the stakes of the legacy farm: the NFTs staked, their locks,
+    ///         the last checkpoint and the unclaimed rewards of each staker.
+    ///         The legacy farm, which must have approved this contract with approveMigration, clears the stakes imported
+    ///         and transfers their NFTs to this contract.
+    ///         Both farms must be paused, so that the stakes can't change while they are imported.
+    /// @param stakers The stakers to import, who must not have staked in this contract
+    function importStakes(address[] calldata stakers) external onlyOwner whenPaused {
+        ITokenFarm legacy = legacyFarm;
+        if (address(legacy) == address(0)) revert InvalidLegacyFarm();
+        if (!legacy.paused()) revert LegacyFarmNotPaused();
+
+        uint256 length = stakers.length;
+        for (uint256 i; i < length;) {
+            _importStakes(legacy, stakers[i]);
+
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+
+    ////// Internal functions //////
+
+    /// @notice Copies the stakes and the rewards of a staker from the legacy farm, then releases them from the legacy farm
+    function _importStakes(ITokenFarm legacy, address staker) internal {
+        if (ownerToTimeFarming[staker] != 0 || ownerToStakedTokens[staker].length() != 0) revert AlreadyImported(staker);
+
+        ownerToTimeFarming[staker] = legacy.ownerToTimeFarming(staker);
+        ownerToUnclaimedRewards[staker] = legacy.ownerToUnclaimedRewards(staker);
+
+        uint256[] memory tokenIds = legacy.stakedTokensOf(staker);
+        uint256 length = tokenIds.length;
+
+        for (uint256 i; i < length;) {
+            uint256 tokenId = tokenIds[i];
+
+            tokenToOwner[tokenId] = staker;
+            ownerToStakedTokens[staker].add(tokenId);
+            receiptToken.mint(staker, tokenId);
+
+            (uint64 start, uint64 end, uint128 multiplier, uint256 boostRewards) = legacy.tokenLocks(tokenId);
+            if (end != 0) {
+                tokenLocks[tokenId] = Lock(start, end, multiplier, boostRewards);
+                ownerToLockedTokens[staker].add(tokenId);
+            }
+
+            emit StakeImported(staker, tokenId);
+
+            unchecked {
+                ++i;
+            }
+        }
+
+        totalStaked += length;
+
+        legacy.releaseStakes(staker);
+    }
+
+}
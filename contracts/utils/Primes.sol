@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.18;
+
+
+/**
+ *  @title Primes
+ *  @author Carlo Pascoli
+ *  @notice Library to check if a number is prime.
+ *
+ */
+library Primes {
+
+    /// @notice Returns true if n is a prime number.
+    /// @dev Uses trial division by the primes up to 41 and the Miller-Rabin test.
+    ///      The Miller-Rabin test is deterministic for n < 3.3e24, with a bounded number of rounds of modular exponentiation.
+    ///      Above that the result is probabilistic: true means that n is a strong probable prime to the 13 bases used.
+    function isPrime(uint256 n) internal pure returns (bool) {
+
+        if (n < 2) return false;
+
+        uint256[13] memory primes = [uint256(2), 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41];
+
+        for (uint256 i; i < 13;) {
+            uint256 p = primes[i];
+            if (n == p) return true;
+            if (n % p == 0) return false;
+
+            unchecked {
+                ++i;
+            }
+        }
+
+        // n has no prime factors up to 41, so it is prime if it is less than 43^2
+        if (n < 1849) return true;
+
+        // write n - 1 as d * 2^s with d odd
+        uint256 d = n - 1;
+        uint256 s;
+        while (d & 1 == 0) {
+            d >>= 1;
+            unchecked {
+                ++s;
+            }
+        }
+
+        // the bases 2, 7 and 61 are enough for n < 4,759,123,141
+        if (n < 4_759_123_141) {
+            return _millerRabin(n, 2, d, s) && _millerRabin(n, 7, d, s) && _millerRabin(n, 61, d, s);
+        }
+
+        // the first 13 primes as bases are enough for n < 3,317,044,064,679,887,385,961,981
+        // (the first 12 only for n < 318,665,857,834,031,151,167,461, a strong pseudoprime to the bases 2 to 37)
+        for (uint256 i; i < 13;) {
+            if (!_millerRabin(n, primes[i], d, s)) return false;
+
+            unchecked {
+                ++i;
+            }
+        }
+
+        return true;
+    }
+
+
+    ////// Private functions //////
+
+    /// @notice A round of the Miller-Rabin test of n to base a, where n - 1 = d * 2^s with d odd.
+    /// @return false if n is composite, true if n is a strong probable prime to base a
+    function _millerRabin(uint256 n, uint256 a, uint256 d, uint256 s) private pure returns (bool) {
+
+        uint256 nMinus1 = n - 1;
+        uint256 x = _modExp(a, d, n);
+        if (x == 1 || x == nMinus1) return true;
+
+        for (uint256 r = 1; r < s;) {
+            x = mulmod(x, x, n);
+            if (x == nMinus1) return true;
+
+            unchecked {
+                ++r;
+            }
+        }
+
+        return false;
+    }
+
+
+    /// @notice Returns base^exponent mod modulus using square-and-multiply
+    function _modExp(uint256 base, uint256 exponent, uint256 modulus) private pure returns (uint256 result) {
+
+        result = 1;
+        base %= modulus;
+
+        while (exponent > 0) {
+            if (exponent & 1 == 1) result = mulmod(result, base, modulus);
+            base = mulmod(base, base, modulus);
+            exponent >>= 1;
+        }
+    }
+
+}
@@ -1,8 +1,12 @@
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomiclabs/hardhat-etherscan";
+import "@openzeppelin/hardhat-upgrades";
 import "hardhat-docgen";
 import "hardhat-erc1820"
 
+import "./tasks/whitelist";
+import "./tasks/ops";
+
 import { HardhatUserConfig } from "hardhat/config";
 
 require('dotenv').config()
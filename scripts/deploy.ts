@@ -0,0 +1,139 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { DeployConfig, getDeployConfig } from "./deploy_config";
+import { ContractName, DeploymentManifest, manifestPath, readManifest, writeManifest } from "./deployments";
+
+
+export type DeployOptions = {
+    config?: DeployConfig,   // defaults to the config of the network
+    manifestFile?: string,   // defaults to deployments/<network>.json (not saved on the in-process hardhat network)
+    log?: (message: string) => void,
+}
+
+
+/**
+ * Deploys MyNFT, RewardToken, TokenFarm and PrimeNftCounter and grants the RewardToken minter role to TokenFarm.
+ * Unless the config has a trusted forwarder, also deploys the Forwarder relaying the TokenFarm meta-transactions.
+ * When the config has `upgradeableFarm`, TokenFarm is a TokenFarmUpgradeable proxy deployed with `upgrades.deployProxy`,
+ * with a StakeReceipt deployed for it. TokenFarm deploys its own StakeReceipt.
+ * When the config has payees, also deploys RevenueSplitter and sets it as the receiver of the MyNFT proceeds and royalties.
+ * The address, deploy tx hash and constructor args of each contract are recorded in the deployment manifest.
+ * Contracts already in the manifest are not deployed again, so the deployment can be resumed or re-run safely.
+ * @param hre the Hardhat runtime environment
+ * @param options the deploy options
+ * @returns the deployment manifest
+ */
+export const deploySystem = async (hre: HardhatRuntimeEnvironment, options: DeployOptions = {}) : Promise<DeploymentManifest> => {
+
+    const { ethers, network } = hre;
+    const config = options.config ?? getDeployConfig(network.name);
+    const file = options.manifestFile ?? manifestPath(network.name);
+    const log = options.log ?? console.log;
+
+    // the in-process hardhat network is gone when the script ends, so its manifest is not worth saving
+    const save = options.manifestFile !== undefined || network.name !== "hardhat";
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const manifest : DeploymentManifest = (save ? readManifest(file) : undefined) ?? { network: network.name, chainId, contracts: {} };
+
+    if (manifest.chainId !== chainId) {
+        throw new Error(`Manifest ${file} is for chain ${manifest.chainId} but the network has chain id ${chainId}`);
+    }
+
+    // deploys a contract unless it is already in the manifest, behind a transparent proxy if an upgradeable implementation is given
+    const deploy = async (name: ContractName, args: any[], upgradeable?: string) : Promise<string> => {
+
+        const deployed = manifest.contracts[name];
+        if (deployed) {
+            if (await ethers.provider.getCode(deployed.address) === "0x") {
+                throw new Error(`${name} in ${file} has no code at ${deployed.address}. Remove the stale manifest and deploy again.`);
+            }
+            log(`${name} already deployed at ${deployed.address}`);
+            return deployed.address;
+        }
+
+        const factory = await ethers.getContractFactory(upgradeable ?? name);
+        const contract = upgradeable ?
+            await hre.upgrades.deployProxy(factory, args, { kind: "transparent" }) :
+            await factory.deploy(...args);
+        await contract.deployed();
+
+        manifest.contracts[name] = { address: contract.address, txHash: contract.deployTransaction.hash, args };
+        if (upgradeable) {
+            manifest.contracts[name]!.implementation = await hre.upgrades.erc1967.getImplementationAddress(contract.address);
+        }
+        if (save) writeManifest(file, manifest);
+
+        log(`${name} deployed at ${contract.address} (tx: ${contract.deployTransaction.hash})${upgradeable ? ` as a proxy of ${upgradeable}` : ""}`);
+        return contract.address;
+    }
+
+    const myNFTAddress = await deploy("MyNFT", [
+        config.maxSupply,
+        config.feeNumerator,
+        config.discountPercentage,
+        ethers.utils.parseEther(config.mintPrice).toString(),
+    ]);
+    const rewardTokenAddress = await deploy("RewardToken", [
+        ethers.utils.parseUnits(config.rewardMaxSupply, 18).toString(),
+    ]);
+    const rewardToken = await ethers.getContractAt("RewardToken", rewardTokenAddress);
+
+    const forwarderAddress = config.trustedForwarder ?? await deploy("Forwarder", []);
+    const tokenFarmAddress = await deploy("TokenFarm", [
+        myNFTAddress,
+        rewardTokenAddress,
+        ethers.utils.parseUnits(config.rewardRate, await rewardToken.decimals()).toString(),
+        forwarderAddress,
+    ], config.upgradeableFarm ? "TokenFarmUpgradeable" : undefined);
+
+    // the proxy mints and burns the receipts of a StakeReceipt deployed for it
+    if (config.upgradeableFarm) {
+        const stakeReceiptAddress = await deploy("StakeReceipt", [myNFTAddress, tokenFarmAddress]);
+
+        const tokenFarm = await ethers.getContractAt("TokenFarmUpgradeable", tokenFarmAddress);
+        if (await tokenFarm.receiptToken() !== stakeReceiptAddress) {
+            await (await tokenFarm.setReceiptToken(stakeReceiptAddress)).wait();
+            log(`TokenFarm receipt token set to StakeReceipt`);
+        }
+    }
+
+    // counts the NFTs held and staked in TokenFarm
+    const tokenFarm = await ethers.getContractAt("TokenFarm", tokenFarmAddress);
+    await deploy("PrimeNftCounter", [myNFTAddress, await tokenFarm.receiptToken()]);
+
+    // the payees split the mint proceeds and the royalties
+    if (config.payees && config.payees.length > 0) {
+        const revenueSplitterAddress = await deploy("RevenueSplitter", [
+            config.payees.map(payee => payee.address),
+            config.payees.map(payee => payee.shares),
+        ]);
+
+        const myNFT = await ethers.getContractAt("MyNFT", myNFTAddress);
+        if (await myNFT.revenueSplitter() !== revenueSplitterAddress) {
+            await (await myNFT.setRevenueSplitter(revenueSplitterAddress, true)).wait();
+            log(`MyNFT revenue splitter set to RevenueSplitter`);
+        }
+    }
+
+    // TokenFarm mints the reward tokens
+    const minterRole = await rewardToken.MINTER_ROLE();
+    if (!await rewardToken.hasRole(minterRole, tokenFarmAddress)) {
+        await (await rewardToken.grantRole(minterRole, tokenFarmAddress)).wait();
+        log(`RewardToken minter role granted to TokenFarm`);
+    }
+
+    return manifest;
+}
+
+
+if (require.main === module) {
+    const hre : HardhatRuntimeEnvironment = require("hardhat");
+
+    deploySystem(hre)
+        .then(() => process.exit(0))
+        .catch((error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,61 @@
+
+/**
+ * The settings used to deploy the contracts on a network.
+ */
+export type DeployConfig = {
+    maxSupply: number,          // MyNFT max supply
+    feeNumerator: number,       // MyNFT royalty fee, uses 10000 denominator
+    discountPercentage: number, // MyNFT whitelist discount, uses 10000 denominator
+    mintPrice: string,          // MyNFT mint price in ETH
+    rewardRate: string,         // TokenFarm reward tokens farmed every 24h by each NFT staked
+    rewardMaxSupply: string,    // RewardToken max supply in tokens
+    payees?: Payee[],           // RevenueSplitter payees of the MyNFT mint proceeds and royalties (not deployed when missing)
+    trustedForwarder?: string,  // TokenFarm ERC-2771 trusted forwarder (a new Forwarder is deployed when missing)
+    upgradeableFarm?: boolean,  // deploy TokenFarmUpgradeable behind a transparent proxy in place of TokenFarm (default false)
+}
+
+
+/**
+ * A payee of the MyNFT mint proceeds and royalties.
+ */
+export type Payee = {
+    address: string,
+    shares: number,
+}
+
+
+const defaultConfig : DeployConfig = {
+    maxSupply: 20,
+    feeNumerator: 250, // 2.5% fee
+    discountPercentage: 2000, // 20% discount
+    mintPrice: "0.01", // 0.01 ETH
+    rewardRate: "10", // 10 tokens every 24h
+    rewardMaxSupply: "1000000", // 1M tokens
+}
+
+
+export const deployConfig : { [network: string]: DeployConfig } = {
+    hardhat: defaultConfig,
+    localhost: defaultConfig,
+    goerli: {
+        maxSupply: 1000,
+        feeNumerator: 250,
+        discountPercentage: 2000,
+        mintPrice: "0.01",
+        rewardRate: "10",
+        rewardMaxSupply: "1000000",
+    },
+}
+
+
+/**
+ * @param network the name of the network
+ * @returns the deploy settings for the network
+ */
+export const getDeployConfig = (network: string) : DeployConfig => {
+
+    const config = deployConfig[network];
+    if (!config) throw new Error(`No deploy config for network ${network}`);
+
+    return config;
+}
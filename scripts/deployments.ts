@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+
+
+export const DEPLOYMENTS_DIR = "deployments";
+
+export type ContractName = "MyNFT" | "RewardToken" | "TokenFarm" | "LegacyTokenFarm" | "Forwarder" | "PrimeNftCounter" | "RevenueSplitter" | "StakeReceipt";
+
+export type Deployment = {
+    address: string,
+    txHash: string,
+    args: any[],
+    implementation?: string,    // the implementation behind the proxy, for the upgradeable contracts
+}
+
+export type DeploymentManifest = {
+    network: string,
+    chainId: number,
+    contracts: { [name in ContractName]?: Deployment },
+}
+
+
+/**
+ * @param network the name of the network
+ * @returns the path of the deployment manifest for the network
+ */
+export const manifestPath = (network: string) => {
+    return path.join(DEPLOYMENTS_DIR, `${network}.json`);
+}
+
+
+/**
+ * Reads the deployment manifest from a file.
+ * @param file the path of the manifest
+ * @returns the manifest, or undefined if the file does not exist
+ */
+export const readManifest = (file: string) : DeploymentManifest | undefined => {
+
+    if (!fs.existsSync(file)) return undefined;
+
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+
+/**
+ * Writes the deployment manifest to a file.
+ * @param file the path of the manifest
+ * @param manifest the manifest to write
+ */
+export const writeManifest = (file: string, manifest: DeploymentManifest) => {
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+}
+
+
+/**
+ * @param manifest a deployment manifest
+ * @param name the name of the contract
+ * @returns the address of the contract in the manifest
+ */
+export const getDeployedAddress = (manifest: DeploymentManifest, name: ContractName) : string => {
+
+    const deployment = manifest.contracts[name];
+    if (!deployment) throw new Error(`${name} is not deployed on ${manifest.network}`);
+
+    return deployment.address;
+}
@@ -0,0 +1,457 @@
+import fs from "fs";
+import path from "path";
+import { BigNumber, Contract, providers, utils } from "ethers";
+import { Log } from "@ethersproject/abstract-provider";
+
+import type { MyNFT, RewardToken, TokenFarm } from "../typechain-types";
+
+
+export const INDEXER_DIR = "indexer";
+
+/// The events indexed for each contract
+export const INDEXED_EVENTS = {
+    MyNFT: [ "Transfer", "MerkleRootSet", "Withdrawn", "PublicMintEnabledChanged" ],
+    TokenFarm: [ "Deposited", "Withdrawn", "EmergencyWithdrawn", "Claimed", "StakeImported", "StakeMigrated" ],
+    RewardToken: [ "Transfer" ],
+};
+
+export type IndexedContractName = keyof typeof INDEXED_EVENTS;
+
+export type IndexedContracts = {
+    MyNFT?: MyNFT,
+    TokenFarm?: TokenFarm,
+    RewardToken?: RewardToken,
+}
+
+export type IndexedEvent = {
+    contract: IndexedContractName,
+    event: string,
+    args: { [name: string]: string | boolean }, // the numbers are decimal strings
+    blockNumber: number,
+    blockHash: string,
+    timestamp: number,
+    transactionHash: string,
+    logIndex: number,
+    pricePaid?: string,                         // the ETH (in wei) paid for each NFT minted, for the MyNFT mints
+}
+
+export type BlockRef = {
+    number: number,
+    hash: string,
+}
+
+export type IndexerStore = {
+    chainId: number,
+    addresses: { [name in IndexedContractName]?: string },
+    startBlock: number,       // the first block indexed
+    lastBlock?: BlockRef,     // the last block indexed, the checkpoint the next sync starts from
+    recentBlocks: BlockRef[], // the last blocks indexed, to find where the chain forked after a reorg
+    events: IndexedEvent[],   // sorted by block and log index
+}
+
+export type SyncOptions = {
+    confirmations?: number, // the blocks behind the head that are not indexed yet (default 0)
+    reorgDepth?: number,    // the number of recent blocks kept to recover from a reorg (default 12)
+    batchSize?: number,     // the max number of blocks of each getLogs request (default 2000)
+}
+
+export type SyncResult = {
+    fromBlock: number,
+    toBlock: number,
+    newEvents: number,
+    rolledBackTo?: number,  // the last block kept after a reorg
+}
+
+
+/**
+ * @param chainId the chain id of the network
+ * @param contracts the contracts to index
+ * @param startBlock the first block to index (e.g. the deploy block of the contracts)
+ * @returns an empty store
+ */
+export const newStore = (chainId: number, contracts: IndexedContracts, startBlock = 0) : IndexerStore => {
+    const addresses = Object.fromEntries(Object.entries(contracts).map(([ name, contract ]) => [ name, contract.address ]));
+
+    return { chainId, addresses, startBlock, recentBlocks: [], events: [] };
+}
+
+
+/**
+ * @param network the name of the network
+ * @returns the path of the indexer store for the network
+ */
+export const storePath = (network: string) => {
+    return path.join(INDEXER_DIR, `${network}.json`);
+}
+
+
+/**
+ * Reads the indexer store from a file.
+ * @param file the path of the store
+ * @returns the store, or undefined if the file does not exist
+ */
+export const readStore = (file: string) : IndexerStore | undefined => {
+
+    if (!fs.existsSync(file)) return undefined;
+
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+
+/**
+ * Writes the indexer store to a file.
+ * @param file the path of the store
+ * @param store the store to write
+ */
+export const writeStore = (file: string, store: IndexerStore) => {
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(store, null, 2) + "\n");
+}
+
+
+/**
+ * Indexes the events of the contracts from the last block indexed to the head of the chain, less the confirmations.
+ * If the last blocks indexed are no longer in the chain after a reorg, their events are removed
+ * and the blocks are indexed again from the last block still in the chain.
+ * @param store the store to update
+ * @param contracts the contracts of the store
+ * @param options the sync options
+ * @returns the blocks indexed and the number of new events
+ */
+export const syncStore = async (store: IndexerStore, contracts: IndexedContracts, options: SyncOptions = {}) : Promise<SyncResult> => {
+
+    const confirmations = options.confirmations ?? 0;
+    const reorgDepth = options.reorgDepth ?? 12;
+    const batchSize = options.batchSize ?? 2000;
+
+    const entries = Object.entries(contracts) as [ IndexedContractName, Contract ][];
+    if (entries.length === 0) throw new Error("No contracts to index");
+
+    const provider = entries[0][1].provider as providers.JsonRpcProvider;
+    const { chainId } = await provider.getNetwork();
+    if (chainId !== store.chainId) throw new Error(`The store is for chain ${store.chainId} but the network has chain id ${chainId}`);
+
+    for (const [ name, contract ] of entries) {
+        if (store.addresses[name] !== contract.address) {
+            throw new Error(`The store indexes ${name} at ${store.addresses[name]}, not at ${contract.address}`);
+        }
+    }
+
+    // roll back the blocks no longer in the chain
+    let rolledBackTo : number | undefined;
+    if (store.lastBlock) {
+        const ancestor = await findLastBlockInChain(provider, store.recentBlocks);
+        if (ancestor === undefined) {
+            throw new Error(`Reorg deeper than the last ${store.recentBlocks.length} blocks indexed. Index again from a new store.`);
+        }
+        if (ancestor.number < store.lastBlock.number) {
+            rollback(store, ancestor);
+            rolledBackTo = ancestor.number;
+        }
+    }
+
+    const fromBlock = store.lastBlock ? store.lastBlock.number + 1 : store.startBlock;
+    const toBlock = await getBlockNumber(provider) - confirmations;
+    if (toBlock < fromBlock) return { fromBlock, toBlock: fromBlock - 1, newEvents: 0, rolledBackTo };
+
+    // fetch the events of all the contracts in batches of blocks
+    const events : IndexedEvent[] = [];
+    for (let from = fromBlock; from <= toBlock; from += batchSize) {
+        const to = Math.min(from + batchSize - 1, toBlock);
+
+        for (const [ name, contract ] of entries) {
+            const logs = await provider.getLogs({ address: contract.address, fromBlock: from, toBlock: to });
+            events.push(...parseLogs(name, contract, logs));
+        }
+    }
+
+    events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    await addTimestamps(provider, events);
+    await addMintPrices(provider, events);
+
+    // record the hashes of the last blocks indexed, to detect the reorgs
+    const recentBlocks = [ ...store.recentBlocks ];
+    for (let number = Math.max(fromBlock, toBlock - reorgDepth + 1); number <= toBlock; number++) {
+        const block = await getBlock(provider, number);
+        recentBlocks.push({ number, hash: block!.hash });
+    }
+
+    store.events.push(...events);
+    store.recentBlocks = recentBlocks.slice(-reorgDepth);
+    store.lastBlock = store.recentBlocks[store.recentBlocks.length - 1];
+
+    return { fromBlock, toBlock, newEvents: events.length, rolledBackTo };
+}
+
+
+////// Queries //////
+
+export type EventFilter = {
+    contract?: IndexedContractName,
+    event?: string,
+    fromBlock?: number,
+    toBlock?: number,
+}
+
+export type Mint = {
+    tokenId: string,
+    recipient: string,
+    pricePaid: string,
+    timestamp: number,
+    transactionHash: string,
+}
+
+export type StakingAction = {
+    tokenId: string,
+    staker: string,
+    action: "stake" | "withdraw" | "emergencyWithdraw" | "import" | "migrate",
+    timestamp: number,
+    transactionHash: string,
+}
+
+
+/**
+ * @param store the indexer store
+ * @param filter the contract, the event and the block range of the events
+ * @returns the events matching the filter, in the order they were emitted
+ */
+export const queryEvents = (store: IndexerStore, filter: EventFilter = {}) : IndexedEvent[] => {
+    return store.events.filter(event =>
+        (filter.contract === undefined || event.contract === filter.contract) &&
+        (filter.event === undefined || event.event === filter.event) &&
+        (filter.fromBlock === undefined || event.blockNumber >= filter.fromBlock) &&
+        (filter.toBlock === undefined || event.blockNumber <= filter.toBlock)
+    );
+}
+
+
+/**
+ * @param store the indexer store
+ * @param recipient the recipient of the NFTs (default all)
+ * @returns the MyNFT mints with the price paid for each NFT
+ */
+export const queryMints = (store: IndexerStore, recipient?: string) : Mint[] => {
+    return queryEvents(store, { contract: "MyNFT", event: "Transfer" })
+        .filter(event => BigNumber.from(event.args.from).isZero() && (recipient === undefined || event.args.to === recipient))
+        .map(event => ({
+            tokenId: event.args.tokenId as string,
+            recipient: event.args.to as string,
+            pricePaid: event.pricePaid!,
+            timestamp: event.timestamp,
+            transactionHash: event.transactionHash,
+        }));
+}
+
+
+/**
+ * @param store the indexer store
+ * @param filter the staker and the NFT (default all)
+ * @returns the stakes and withdrawals of the NFTs in TokenFarm, and the stakes imported from or migrated to another farm
+ */
+export const queryStakingHistory = (store: IndexerStore, filter: { staker?: string, tokenId?: string } = {}) : StakingAction[] => {
+    const actions = {
+        Deposited: "stake", Withdrawn: "withdraw", EmergencyWithdrawn: "emergencyWithdraw", StakeImported: "import", StakeMigrated: "migrate",
+    } as const;
+
+    return queryEvents(store, { contract: "TokenFarm" })
+        .filter(event => event.event in actions)
+        .map(event => ({
+            tokenId: event.args.tokenId as string,
+            staker: (event.args.staker ?? event.args.recipient) as string,
+            action: actions[event.event as keyof typeof actions],
+            timestamp: event.timestamp,
+            transactionHash: event.transactionHash,
+        }))
+        .filter(action =>
+            (filter.staker === undefined || action.staker === filter.staker) &&
+            (filter.tokenId === undefined || action.tokenId === filter.tokenId)
+        );
+}
+
+
+/**
+ * @param store the indexer store
+ * @returns the staker of each NFT staked in TokenFarm
+ */
+export const queryStakedTokens = (store: IndexerStore) : Map<string, string> => {
+    const stakers = new Map<string, string>();
+    for (const { tokenId, staker, action } of queryStakingHistory(store)) {
+        if (action === "stake" || action === "import") stakers.set(tokenId, staker);
+        else stakers.delete(tokenId);
+    }
+
+    return stakers;
+}
+
+
+/**
+ * @param store the indexer store
+ * @param recipient the recipient of the rewards (default all)
+ * @returns the total reward tokens (in wei) claimed from TokenFarm
+ */
+export const queryTotalClaimed = (store: IndexerStore, recipient?: string) : BigNumber => {
+    return queryEvents(store, { contract: "TokenFarm", event: "Claimed" })
+        .filter(event => recipient === undefined || event.args.recipient === recipient)
+        .reduce((total, event) => total.add(event.args.amount as string), BigNumber.from(0));
+}
+
+
+/**
+ * @param store the indexer store
+ * @returns the supply of RewardToken, minted less burned
+ */
+export const queryRewardSupply = (store: IndexerStore) : BigNumber => {
+    return queryEvents(store, { contract: "RewardToken", event: "Transfer" }).reduce((supply, event) => {
+        if (BigNumber.from(event.args.from).isZero()) return supply.add(event.args.value as string);
+        if (BigNumber.from(event.args.to).isZero()) return supply.sub(event.args.value as string);
+        return supply;
+    }, BigNumber.from(0));
+}
+
+
+////// Internal functions //////
+
+/// Returns the number of the head of the chain.
+/// The provider is queried directly as ethers never returns a block number lower than the last one seen, while the chain can move back after a reorg
+const getBlockNumber = async (provider: providers.JsonRpcProvider) : Promise<number> => {
+    return BigNumber.from(await provider.send("eth_blockNumber", [])).toNumber();
+}
+
+
+/// Returns the hash and the timestamp of a block, or undefined if the block is not in the chain
+const getBlock = async (provider: providers.JsonRpcProvider, number: number) : Promise<{ hash: string, timestamp: number } | undefined> => {
+    const block = await provider.send("eth_getBlockByNumber", [ utils.hexValue(number), false ]);
+    if (!block) return undefined;
+
+    return { hash: block.hash, timestamp: BigNumber.from(block.timestamp).toNumber() };
+}
+
+
+/// Returns the most recent block indexed that is still in the chain
+const findLastBlockInChain = async (provider: providers.JsonRpcProvider, recentBlocks: BlockRef[]) : Promise<BlockRef | undefined> => {
+    for (let i = recentBlocks.length - 1; i >= 0; i--) {
+        const block = await getBlock(provider, recentBlocks[i].number);
+        if (block && block.hash === recentBlocks[i].hash) return recentBlocks[i];
+    }
+
+    return undefined;
+}
+
+
+/// Removes the events and the blocks after the given block
+const rollback = (store: IndexerStore, lastBlock: BlockRef) => {
+    store.events = store.events.filter(event => event.blockNumber <= lastBlock.number);
+    store.recentBlocks = store.recentBlocks.filter(block => block.number <= lastBlock.number);
+    store.lastBlock = lastBlock;
+}
+
+
+/// Parses a log of the contract, or returns undefined if the event is not in its ABI (e.g. the Upgraded event of its proxy)
+const parseLog = (contract: Contract, log: Log) : utils.LogDescription | undefined => {
+    try {
+        return contract.interface.parseLog(log);
+    } catch {
+        return undefined;
+    }
+}
+
+
+/// Parses the logs of the indexed events of a contract
+const parseLogs = (name: IndexedContractName, contract: Contract, logs: Log[]) : IndexedEvent[] => {
+    const events : IndexedEvent[] = [];
+
+    for (const log of logs) {
+        const parsed = parseLog(contract, log);
+        if (!parsed || !INDEXED_EVENTS[name].includes(parsed.name)) continue;
+
+        const args : IndexedEvent["args"] = {};
+        parsed.eventFragment.inputs.forEach((input, i) => {
+            const value = parsed.args[i];
+            args[input.name] = typeof value === "boolean" ? value : value.toString();
+        });
+
+        events.push({
+            contract: name,
+            event: parsed.name,
+            args,
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            timestamp: 0,
+            transactionHash: log.transactionHash,
+            logIndex: log.logIndex,
+        });
+    }
+
+    return events;
+}
+
+
+/// Sets the timestamp of the block of each event
+const addTimestamps = async (provider: providers.JsonRpcProvider, events: IndexedEvent[]) => {
+    const timestamps = new Map<number, number>();
+
+    for (const event of events) {
+        if (!timestamps.has(event.blockNumber)) {
+            timestamps.set(event.blockNumber, (await getBlock(provider, event.blockNumber))!.timestamp);
+        }
+        event.timestamp = timestamps.get(event.blockNumber)!;
+    }
+}
+
+
+/// Sets the price paid for each NFT minted, splitting the ETH sent with the mint tx between the NFTs it minted
+const addMintPrices = async (provider: providers.Provider, events: IndexedEvent[]) => {
+    const mints = events.filter(event => event.contract === "MyNFT" && event.event === "Transfer" && BigNumber.from(event.args.from).isZero());
+
+    const mintsByTx = new Map<string, IndexedEvent[]>();
+    for (const mint of mints) {
+        mintsByTx.set(mint.transactionHash, [ ...(mintsByTx.get(mint.transactionHash) ?? []), mint ]);
+    }
+
+    for (const [ hash, txMints ] of mintsByTx) {
+        const { value } = await provider.getTransaction(hash);
+        for (const mint of txMints) {
+            mint.pricePaid = value.div(txMints.length).toString();
+        }
+    }
+}
+
+
+if (require.main === module) {
+    const hre = require("hardhat");
+    const { readManifest, manifestPath } = require("./deployments");
+
+    const main = async () => {
+        const { ethers, network } = hre;
+
+        const manifest = readManifest(manifestPath(network.name));
+        if (!manifest) throw new Error(`No deployments on ${network.name}`);
+
+        const contracts : IndexedContracts = {};
+        for (const name of Object.keys(INDEXED_EVENTS) as IndexedContractName[]) {
+            const deployment = manifest.contracts[name];
+            if (deployment) contracts[name] = await ethers.getContractAt(name, deployment.address);
+        }
+
+        const startBlock = Math.min(...await Promise.all(Object.keys(contracts).map(async name => {
+            return (await ethers.provider.getTransactionReceipt(manifest.contracts[name].txHash)).blockNumber;
+        })));
+
+        const file = storePath(network.name);
+        const store = readStore(file) ?? newStore(manifest.chainId, contracts, startBlock);
+
+        const result = await syncStore(store, contracts, { confirmations: network.name === "hardhat" ? 0 : 6 });
+        writeStore(file, store);
+
+        if (result.rolledBackTo !== undefined) console.log(`Reorg: rolled back to block ${result.rolledBackTo}`);
+        console.log(`Indexed blocks ${result.fromBlock} to ${result.toBlock}: ${result.newEvents} new events, ${store.events.length} in total`);
+    }
+
+    main()
+        .then(() => process.exit(0))
+        .catch((error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,242 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { RewardToken, TokenFarm, TokenFarmUpgradeable } from "../typechain-types";
+import { manifestPath, readManifest, writeManifest } from "./deployments";
+
+
+export type MigrationOptions = {
+    batchSize?: number,                 // the stakers imported in each transaction (default 20)
+    log?: (message: string) => void,
+}
+
+export type MigrationReport = {
+    stakers: string[],                  // the stakers imported
+    tokenIds: string[],                 // the NFTs transferred to the new farm
+    legacyBlock: number,                // the block of the legacy stakes imported, before the first import
+    effectiveAt: number,                // the time after which the legacy farm releases its stakes
+    pending: boolean,                   // true if nothing was imported as the time of the migration has not come yet
+}
+
+
+/**
+ * Migrates the stakes of a legacy TokenFarm to a TokenFarmUpgradeable proxy, without the stakers withdrawing and staking again:
+ * 1. pauses both farms, so that the stakes can't change during the migration
+ * 2. imports the reward schedule of the legacy farm, so that the rewards farmed so far are unchanged
+ * 3. approves the new farm to take over the stakes of the legacy farm. The stakes can be imported MIGRATION_DELAY later,
+ *    the migration stops there and must be run again after `effectiveAt`, the stakers can emergencyWithdraw until then
+ * 4. imports the stakes in batches of stakers: the legacy farm clears the positions imported, burns their receipts
+ *    and transfers their NFTs to the new farm
+ * 5. checks that the stakes imported are the stakes of the legacy farm before the import, and that the legacy farm is empty
+ * 6. moves the RewardToken minter role from the legacy farm to the new farm and unpauses the new farm
+ * The migration can be run again after a failure, the stakers already imported are skipped.
+ * The signer of the farms must be the owner of both farms and the admin of the RewardToken.
+ * @param legacy the legacy TokenFarm
+ * @param farm the new farm
+ * @param rewardToken the RewardToken minted by both farms
+ * @param options the migration options
+ * @returns the stakers and the NFTs imported, or a pending report before the time of the migration
+ */
+export const migrateFarm = async (
+    legacy: TokenFarm,
+    farm: TokenFarmUpgradeable,
+    rewardToken: RewardToken,
+    options: MigrationOptions = {},
+) : Promise<MigrationReport> => {
+
+    const batchSize = options.batchSize ?? 20;
+    const log = options.log ?? console.log;
+
+    if (!await legacy.paused()) {
+        await (await legacy.pause()).wait();
+        log("Legacy TokenFarm paused");
+    }
+    if (!await farm.paused()) {
+        await (await farm.pause()).wait();
+        log("TokenFarm paused");
+    }
+
+    // the rewards of the stakes imported are computed with the reward epochs of the legacy farm
+    const legacyFarm = await farm.legacyFarm();
+    if (legacyFarm !== legacy.address) {
+        await (await farm.importRewardSchedule(legacy.address)).wait();
+        log(`Reward schedule imported from ${legacy.address}`);
+    }
+
+    if (await legacy.migrationFarm() !== farm.address) {
+        await (await legacy.approveMigration(farm.address)).wait();
+        log("Legacy TokenFarm approved the migration");
+    }
+
+    // the stakers can leave the legacy farm with emergencyWithdraw before their stakes are released
+    const effectiveAt = (await legacy.migrationEffectiveAt()).toNumber();
+    const { number: legacyBlock, timestamp } = await legacy.provider.getBlock("latest");
+    if (timestamp < effectiveAt) {
+        log(`The stakes can be imported after ${new Date(effectiveAt * 1000).toISOString()}, run the migration again then`);
+        return { stakers: [], tokenIds: [], legacyBlock, effectiveAt, pending: true };
+    }
+
+    // the stakers with NFTs staked or rewards not claimed, not imported yet
+    const deposits = await legacy.queryFilter(legacy.filters.Deposited());
+    const stakers = [];
+    for (const staker of new Set(deposits.map(event => event.args.staker))) {
+        const imported = !(await farm.ownerToTimeFarming(staker)).isZero() || !(await farm.stakedCount(staker)).isZero();
+        const staked = !(await legacy.stakedCount(staker)).isZero() || !(await legacy.ownerToUnclaimedRewards(staker)).isZero();
+
+        if (staked && !imported) stakers.push(staker);
+    }
+
+    const tokenIds : string[] = [];
+    for (let i = 0; i < stakers.length; i += batchSize) {
+        const batch = stakers.slice(i, i + batchSize);
+        await (await farm.importStakes(batch)).wait();
+
+        for (const staker of batch) {
+            tokenIds.push(...(await farm.stakedTokensOf(staker)).map(tokenId => tokenId.toString()));
+        }
+        log(`Imported the stakes of ${i + batch.length}/${stakers.length} stakers`);
+    }
+
+    await checkMigration(legacy, farm, stakers, legacyBlock);
+
+    // the legacy farm can no longer mint the rewards of the stakes imported
+    const minterRole = await rewardToken.MINTER_ROLE();
+    if (!await rewardToken.hasRole(minterRole, farm.address)) {
+        await (await rewardToken.grantRole(minterRole, farm.address)).wait();
+        log("RewardToken minter role granted to TokenFarm");
+    }
+    if (await rewardToken.hasRole(minterRole, legacy.address)) {
+        await (await rewardToken.revokeRole(minterRole, legacy.address)).wait();
+        log("RewardToken minter role revoked from the legacy TokenFarm");
+    }
+
+    await (await farm.unpause()).wait();
+    log("TokenFarm unpaused");
+
+    return { stakers, tokenIds, legacyBlock, effectiveAt, pending: false };
+}
+
+
+/**
+ * Checks that the stakers imported have the stakes they had in the legacy farm before the import: the NFTs staked,
+ * their locks, the last checkpoint and the unclaimed rewards, so that the rewards they farm are unchanged.
+ * Checks that the legacy farm no longer stakes any NFT, and that the new farm stakes the NFTs of the legacy farm.
+ * @param legacy the legacy TokenFarm
+ * @param farm the new farm
+ * @param stakers the stakers imported
+ * @param legacyBlock the block of the legacy stakes, before their import
+ */
+export const checkMigration = async (legacy: TokenFarm, farm: TokenFarmUpgradeable, stakers: string[], legacyBlock: number) => {
+
+    const legacyTag = { blockTag: legacyBlock };
+
+    for (const staker of stakers) {
+        const legacyTokens = (await legacy.stakedTokensOf(staker, legacyTag)).map(String).sort();
+        const tokens = (await farm.stakedTokensOf(staker)).map(String).sort();
+        if (legacyTokens.join() !== tokens.join()) {
+            throw new Error(`${staker} staked [${legacyTokens}] in the legacy farm but [${tokens}] in the new farm`);
+        }
+
+        for (const tokenId of tokens) {
+            const legacyLock = (await legacy.tokenLocks(tokenId, legacyTag)).map(String);
+            const lock = (await farm.tokenLocks(tokenId)).map(String);
+            if (legacyLock.join() !== lock.join()) {
+                throw new Error(`the NFT ${tokenId} has the lock [${legacyLock}] in the legacy farm but [${lock}] in the new farm`);
+            }
+        }
+
+        const legacyRewards = [ await legacy.ownerToTimeFarming(staker, legacyTag), await legacy.ownerToUnclaimedRewards(staker, legacyTag) ];
+        const rewards = [ await farm.ownerToTimeFarming(staker), await farm.ownerToUnclaimedRewards(staker) ];
+        if (legacyRewards.join() !== rewards.join()) {
+            throw new Error(`${staker} has the checkpoint and unclaimed rewards [${legacyRewards}] in the legacy farm but [${rewards}] in the new farm`);
+        }
+
+        if (!(await legacy.stakedCount(staker)).isZero() || !(await legacy.ownerToUnclaimedRewards(staker)).isZero()) {
+            throw new Error(`${staker} still has stakes in the legacy farm`);
+        }
+    }
+
+    const legacyStaked = await legacy.totalStaked();
+    if (!legacyStaked.isZero()) throw new Error(`${legacyStaked} NFTs still staked in the legacy farm`);
+
+    const imported = (await legacy.totalStaked(legacyTag)).add(await farm.totalStaked({ blockTag: legacyBlock }));
+    const staked = await farm.totalStaked();
+    if (!imported.eq(staked)) throw new Error(`${imported} NFTs staked in both farms before the import but ${staked} in the new farm`);
+}
+
+
+if (require.main === module) {
+    const hre : HardhatRuntimeEnvironment = require("hardhat");
+
+    // deploys a TokenFarmUpgradeable proxy with the settings of the TokenFarm in the manifest and migrates its stakes,
+    // run again after the migration delay to import the stakes into the proxy deployed by the first run
+    const main = async () => {
+        const { ethers, network, upgrades } = hre;
+
+        const file = manifestPath(network.name);
+        const manifest = readManifest(file);
+        if (!manifest?.contracts.TokenFarm || !manifest.contracts.RewardToken) throw new Error(`No TokenFarm deployed on ${network.name}`);
+
+        const rewardToken = await ethers.getContractAt("RewardToken", manifest.contracts.RewardToken.address);
+
+        let legacy: TokenFarm;
+        let farm: TokenFarmUpgradeable;
+        if (manifest.contracts.TokenFarm.implementation) {
+            if (!manifest.contracts.LegacyTokenFarm) throw new Error(`TokenFarm on ${network.name} is already upgradeable`);
+
+            legacy = await ethers.getContractAt("TokenFarm", manifest.contracts.LegacyTokenFarm.address);
+            farm = await ethers.getContractAt("TokenFarmUpgradeable", manifest.contracts.TokenFarm.address);
+            console.log(`Resuming the migration to the TokenFarmUpgradeable proxy at ${farm.address}`);
+        } else {
+            legacy = await ethers.getContractAt("TokenFarm", manifest.contracts.TokenFarm.address);
+
+            const { args } = manifest.contracts.TokenFarm;
+            farm = await upgrades.deployProxy(await ethers.getContractFactory("TokenFarmUpgradeable"), args, { kind: "transparent" }) as TokenFarmUpgradeable;
+            await farm.deployed();
+            console.log(`TokenFarmUpgradeable proxy deployed at ${farm.address}`);
+
+            const stakeReceipt = await (await ethers.getContractFactory("StakeReceipt")).deploy(await legacy.nftToken(), farm.address);
+            await stakeReceipt.deployed();
+            await (await farm.setReceiptToken(stakeReceipt.address)).wait();
+            console.log(`StakeReceipt deployed at ${stakeReceipt.address}`);
+
+            // the counter of the NFTs held and staked counts the receipts of the new farm
+            const primeNftCounter = await (await ethers.getContractFactory("PrimeNftCounter")).deploy(await legacy.nftToken(), stakeReceipt.address);
+            await primeNftCounter.deployed();
+            console.log(`PrimeNftCounter deployed at ${primeNftCounter.address}`);
+
+            // the manifest is written before the migration, so that a second run finds the proxy
+            manifest.contracts.LegacyTokenFarm = manifest.contracts.TokenFarm;
+            manifest.contracts.StakeReceipt = {
+                address: stakeReceipt.address,
+                txHash: stakeReceipt.deployTransaction.hash,
+                args: [ await legacy.nftToken(), farm.address ],
+            };
+            manifest.contracts.PrimeNftCounter = {
+                address: primeNftCounter.address,
+                txHash: primeNftCounter.deployTransaction.hash,
+                args: [ await legacy.nftToken(), stakeReceipt.address ],
+            };
+            manifest.contracts.TokenFarm = {
+                address: farm.address,
+                txHash: farm.deployTransaction.hash,
+                args,
+                implementation: await upgrades.erc1967.getImplementationAddress(farm.address),
+            };
+            writeManifest(file, manifest);
+        }
+
+        const report = await migrateFarm(legacy, farm, rewardToken);
+        if (report.pending) {
+            console.log(`Migration approved, run this script again after ${new Date(report.effectiveAt * 1000).toISOString()}`);
+        } else {
+            console.log(`Migrated ${report.tokenIds.length} NFTs of ${report.stakers.length} stakers`);
+        }
+    }
+
+    main()
+        .then(() => process.exit(0))
+        .catch((error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,72 @@
+import { BigNumber, BigNumberish, TypedDataDomain, utils } from "ethers";
+import { TypedDataSigner } from "@ethersproject/abstract-signer";
+
+
+/// The EIP-712 types of the MyNFT mint voucher
+export const MINT_VOUCHER_TYPES = {
+    MintVoucher: [
+        { name: "recipient", type: "address" },
+        { name: "discount", type: "uint256" },
+        { name: "expiry", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+    ],
+};
+
+export type MintVoucher = {
+    recipient: string,      // the recipient of the NFT
+    discount: BigNumberish, // the discount on the price of the sale phase, uses 10000 denominator
+    expiry: BigNumberish,   // the time after which the voucher can't be used, in seconds
+    nonce: BigNumberish,    // the unique nonce of the voucher
+}
+
+export type SignedMintVoucher = {
+    voucher: MintVoucher,
+    signature: string,
+}
+
+
+/**
+ * @param myNFTAddress the address of the MyNFT contract
+ * @param chainId the chain id of the network MyNFT is deployed on
+ * @returns the EIP-712 domain of MyNFT, signing the mint vouchers and the NFT permits
+ */
+export const myNFTDomain = (myNFTAddress: string, chainId: number) : TypedDataDomain => {
+    return {
+        name: "My NFT Token",
+        version: "1",
+        chainId,
+        verifyingContract: myNFTAddress,
+    };
+}
+
+
+/**
+ * @returns a random 256 bits nonce for a mint voucher
+ */
+export const randomVoucherNonce = () : BigNumber => {
+    return BigNumber.from(utils.randomBytes(32));
+}
+
+
+/**
+ * Signs a MyNFT mint voucher with the key of the voucher signer
+ * @param signer the voucher signer (e.g. an ethers Wallet)
+ * @param domain the EIP-712 domain of the MyNFT contract
+ * @param voucher the voucher to sign
+ * @returns the voucher and its signature, to be passed to MyNFT.mintWithVoucher
+ */
+export const signMintVoucher = async (signer: TypedDataSigner, domain: TypedDataDomain, voucher: MintVoucher) : Promise<SignedMintVoucher> => {
+    const signature = await signer._signTypedData(domain, MINT_VOUCHER_TYPES, voucher);
+
+    return { voucher, signature };
+}
+
+
+/**
+ * @param domain the EIP-712 domain of the MyNFT contract
+ * @param signedVoucher the voucher and its signature
+ * @returns the address of the signer of the voucher
+ */
+export const recoverVoucherSigner = (domain: TypedDataDomain, { voucher, signature }: SignedMintVoucher) : string => {
+    return utils.verifyTypedData(domain, MINT_VOUCHER_TYPES, voucher, signature);
+}
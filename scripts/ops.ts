@@ -0,0 +1,251 @@
+import { BigNumber, constants, Contract, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { MyNFT, PrimeNftCounter, TokenFarm } from "../typechain-types";
+import { DeploymentManifest, manifestPath, readManifest } from "./deployments";
+import { rebuildStakingState } from "./staking_state";
+
+
+/// A row of a table, or a record printed as a table of fields and values
+export type Row = { [column: string]: string | number | boolean };
+
+export const SALE_PHASES = [ "Closed", "Allowlist", "Public" ];
+
+/// The max number of NFTs of an owner checked by each PrimeNftCounter call
+const PAGE_SIZE = 100;
+
+export type NFTStatus = {
+    address: string,
+    owner: string,
+    totalSupply: number,
+    maxSupply: number,
+    mintPrice: string,          // the price of an NFT in the current sale phase, without discount, in ETH
+    phase: string,
+    publicMintEnabled: boolean,
+    merkleRoot: string,
+    balance: string,            // the ETH held by the contract
+}
+
+export type Stake = {
+    tokenId: string,
+    lockedUntil: string,        // the end of the lock as an ISO date, or "-" if the NFT is not locked
+    boostRewards: string,       // the boost rewards of the lock, in reward tokens
+}
+
+export type Claimable = {
+    staker: string,
+    staked: number,
+    claimable: string,          // in reward tokens
+    unclaimed: string,          // the rewards up to the last checkpoint, in reward tokens
+    lastCheckpoint: string,     // ISO date, or "-" if the address never staked
+}
+
+export type Position = {
+    staker: string,
+    staked: number,
+    tokenIds: string,
+    claimable: string,          // in reward tokens
+}
+
+export type Primes = {
+    owner: string,
+    balance: number,
+    primes: number,
+    tokenIds: string,
+}
+
+export type OwnerAction = {
+    contract: string,
+    action: string,
+    args: string,
+    dryRun: boolean,
+    txHash: string,             // "-" for a dry run
+}
+
+
+/**
+ * @param hre the Hardhat runtime environment
+ * @param file the deployment manifest (default deployments/<network>.json)
+ * @returns the deployment manifest of the network
+ */
+export const loadManifest = (hre: HardhatRuntimeEnvironment, file?: string) : DeploymentManifest => {
+    const path = file ?? manifestPath(hre.network.name);
+
+    const manifest = readManifest(path);
+    if (!manifest) throw new Error(`No deployment manifest at ${path}`);
+
+    return manifest;
+}
+
+
+/**
+ * @param myNFT the MyNFT contract
+ * @returns the supply, the price, the sale phase, the whitelist Merkle root and the ETH balance of MyNFT
+ */
+export const nftStatus = async (myNFT: MyNFT) : Promise<NFTStatus> => {
+
+    // the price for an address without a whitelist proof
+    const [ mintPrice ] = await myNFT.priceForMint(constants.AddressZero, { index: 0, allowance: 0, proof: [] });
+
+    return {
+        address: myNFT.address,
+        owner: await myNFT.owner(),
+        totalSupply: (await myNFT.totalSupply()).toNumber(),
+        maxSupply: (await myNFT.MAX_SUPPLY()).toNumber(),
+        mintPrice: utils.formatEther(mintPrice),
+        phase: SALE_PHASES[await myNFT.currentPhase()],
+        publicMintEnabled: await myNFT.isPublicMintEnabled(),
+        merkleRoot: await myNFT.merkleRoot(),
+        balance: utils.formatEther(await myNFT.provider.getBalance(myNFT.address)),
+    };
+}
+
+
+/**
+ * @param tokenFarm the TokenFarm contract
+ * @param staker the staker
+ * @returns the NFTs staked by the staker and their locks
+ */
+export const farmStakes = async (tokenFarm: TokenFarm, staker: string) : Promise<Stake[]> => {
+
+    const stakes : Stake[] = [];
+    for (const tokenId of await tokenFarm.stakedTokensOf(staker)) {
+        const { end } = await tokenFarm.tokenLocks(tokenId);
+
+        stakes.push({
+            tokenId: tokenId.toString(),
+            lockedUntil: end.isZero() ? "-" : toDate(end),
+            boostRewards: utils.formatUnits(await tokenFarm.boostRewardsOf(tokenId), 18),
+        });
+    }
+
+    return stakes;
+}
+
+
+/**
+ * @param tokenFarm the TokenFarm contract
+ * @param staker the staker
+ * @returns the rewards the staker can claim
+ */
+export const farmClaimable = async (tokenFarm: TokenFarm, staker: string) : Promise<Claimable> => {
+    const lastCheckpoint = await tokenFarm.ownerToTimeFarming(staker);
+
+    return {
+        staker,
+        staked: (await tokenFarm.stakedCount(staker)).toNumber(),
+        claimable: utils.formatUnits(await tokenFarm.claimableTokens(staker), 18),
+        unclaimed: utils.formatUnits(await tokenFarm.ownerToUnclaimedRewards(staker), 18),
+        lastCheckpoint: lastCheckpoint.isZero() ? "-" : toDate(lastCheckpoint),
+    };
+}
+
+
+/**
+ * @param tokenFarm the TokenFarm contract
+ * @returns the NFTs staked and the claimable rewards of all the stakers, from the largest stake
+ */
+export const farmPositions = async (tokenFarm: TokenFarm) : Promise<Position[]> => {
+
+    const { stakedTokens } = await rebuildStakingState(tokenFarm);
+
+    const positions : Position[] = [];
+    for (const [ staker, tokenIds ] of stakedTokens) {
+        positions.push({
+            staker,
+            staked: tokenIds.length,
+            tokenIds: tokenIds.join(" "),
+            claimable: utils.formatUnits(await tokenFarm.claimableTokens(staker), 18),
+        });
+    }
+
+    return positions.sort((a, b) => b.staked - a.staked);
+}
+
+
+/**
+ * @param primeNftCounter the PrimeNftCounter contract
+ * @param owner the owner of the NFTs
+ * @returns the number of NFTs of the owner and the NFTs with prime token IDs, found page by page
+ */
+export const countPrimes = async (primeNftCounter: PrimeNftCounter, owner: string) : Promise<Primes> => {
+
+    const primeFilter = { trait: 0, min: 0, max: 0, divisor: 0 };
+
+    // page over the NFTs of the owner until a page is empty
+    const tokenIds : BigNumber[] = [];
+    let balance = 0;
+    for (let start = 0;; start += PAGE_SIZE) {
+        const [ page, next ] = await primeNftCounter.findMatching(owner, primeFilter, start, PAGE_SIZE);
+        tokenIds.push(...page);
+        balance = next.toNumber();
+
+        if (balance < start + PAGE_SIZE) break;
+    }
+
+    return {
+        owner,
+        balance,
+        primes: tokenIds.length,
+        tokenIds: tokenIds.map(String).join(" "),
+    };
+}
+
+
+/**
+ * Sends a transaction of an owner action, after simulating it with callStatic, so that a call that would revert is not sent.
+ * @param contract the contract, connected to the owner
+ * @param action the name of the function to call
+ * @param args the arguments of the function
+ * @param dryRun true to only simulate the call
+ * @returns the action and the hash of the transaction sent
+ */
+export const ownerAction = async (contract: Contract, action: string, args: any[], dryRun: boolean) : Promise<OwnerAction> => {
+
+    try {
+        await contract.callStatic[action](...args);
+    } catch (error: any) {
+        throw new Error(`${action} would revert: ${error.errorName ?? error.reason ?? error.message}`);
+    }
+
+    const result = { contract: contract.address, action, args: args.map(String).join(" "), dryRun, txHash: "-" };
+    if (dryRun) return result;
+
+    const tx = await contract[action](...args);
+    await tx.wait();
+
+    return { ...result, txHash: tx.hash };
+}
+
+
+/**
+ * @param rows the rows of the table, with the same columns
+ * @returns the rows aligned in columns, under a header
+ */
+export const formatTable = (rows: Row[]) : string => {
+    if (rows.length === 0) return "(none)";
+
+    const columns = Object.keys(rows[0]);
+    const cells = [ columns, ...rows.map(row => columns.map(column => String(row[column]))) ];
+    const widths = columns.map((_, i) => Math.max(...cells.map(line => line[i].length)));
+
+    const format = (line: string[]) => line.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd();
+
+    return [ format(columns), widths.map(width => "-".repeat(width)).join("  "), ...cells.slice(1).map(format) ].join("\n");
+}
+
+
+/**
+ * @param result a record or a list of rows
+ * @param json true to format the result as JSON
+ * @returns the result as JSON, as a table of rows, or as a table of the fields and values of a record
+ */
+export const formatOutput = (result: Row | Row[], json: boolean) : string => {
+    if (json) return JSON.stringify(result, null, 2);
+
+    return formatTable(Array.isArray(result) ? result : Object.entries(result).map(([ field, value ]) => ({ field, value })));
+}
+
+
+/// Returns the ISO date of a timestamp
+const toDate = (timestamp: BigNumber) => new Date(timestamp.toNumber() * 1000).toISOString();
@@ -0,0 +1,177 @@
+import { BigNumberish, BytesLike, ContractTransaction, TypedDataDomain, utils } from "ethers";
+import { TypedDataSigner } from "@ethersproject/abstract-signer";
+
+import type { Forwarder, TokenFarm } from "../typechain-types";
+
+
+/// The EIP-712 types of the MyNFT permit (EIP-4494)
+export const NFT_PERMIT_TYPES = {
+    Permit: [
+        { name: "spender", type: "address" },
+        { name: "tokenId", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+/// The EIP-712 types of the requests relayed by the Forwarder (ERC-2771)
+export const FORWARD_REQUEST_TYPES = {
+    ForwardRequest: [
+        { name: "from", type: "address" },
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "gas", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "data", type: "bytes" },
+    ],
+};
+
+export type NFTPermit = {
+    spender: string,        // the address approved to transfer the NFT
+    tokenId: BigNumberish,  // the NFT
+    nonce: BigNumberish,    // the permit nonce of the NFT
+    deadline: BigNumberish, // the time after which the permit can't be used, in seconds
+}
+
+export type SignedNFTPermit = {
+    permit: NFTPermit,
+    signature: string,
+}
+
+export type ForwardRequest = {
+    from: string,        // the signer of the request, seen as the sender by the target contract
+    to: string,          // the target contract
+    value: BigNumberish, // the ETH sent with the call
+    gas: BigNumberish,   // the gas forwarded to the call
+    nonce: BigNumberish, // the Forwarder nonce of the signer
+    data: BytesLike,     // the calldata of the call
+}
+
+export type SignedForwardRequest = {
+    request: ForwardRequest,
+    signature: string,
+}
+
+
+/**
+ * @param forwarderAddress the address of the Forwarder contract
+ * @param chainId the chain id of the network the Forwarder is deployed on
+ * @returns the EIP-712 domain of the forward requests
+ */
+export const forwarderDomain = (forwarderAddress: string, chainId: number) : TypedDataDomain => {
+    return {
+        name: "MinimalForwarder",
+        version: "0.0.1",
+        chainId,
+        verifyingContract: forwarderAddress,
+    };
+}
+
+
+////// User side: the holder signs, without sending any transaction //////
+
+/**
+ * Signs a MyNFT permit with the key of the NFT owner
+ * @param signer the owner of the NFT
+ * @param domain the EIP-712 domain of the MyNFT contract
+ * @param permit the permit to sign, with the current nonce of the NFT (MyNFT.nonces)
+ * @returns the permit and its signature, to be passed to TokenFarm.stakeWithPermit when the spender is TokenFarm
+ */
+export const signNFTPermit = async (signer: TypedDataSigner, domain: TypedDataDomain, permit: NFTPermit) : Promise<SignedNFTPermit> => {
+    const signature = await signer._signTypedData(domain, NFT_PERMIT_TYPES, permit);
+
+    return { permit, signature };
+}
+
+
+/**
+ * Builds a request to call a contract through the Forwarder.
+ * @param forwarder the Forwarder contract
+ * @param from the signer of the request
+ * @param to the target contract, which must trust the Forwarder
+ * @param data the calldata of the call (e.g. tokenFarm.interface.encodeFunctionData("claimAll"))
+ * @param gas the gas forwarded to the call (default: estimated by simulating the call from the Forwarder, which fails if the call reverts)
+ * @returns the request to sign
+ */
+export const buildForwardRequest = async (forwarder: Forwarder, from: string, to: string, data: BytesLike, gas?: BigNumberish) : Promise<ForwardRequest> => {
+    const nonce = await forwarder.getNonce(from);
+    gas ??= await forwarder.provider.estimateGas({ from: forwarder.address, to, data: utils.hexConcat([ data, from ]) });
+
+    return { from, to, value: 0, gas, nonce, data };
+}
+
+
+/**
+ * Signs a forward request with the key of the user
+ * @param signer the user, who must be the `from` of the request
+ * @param domain the EIP-712 domain of the Forwarder
+ * @param request the request to sign
+ * @returns the request and its signature, to be sent to the relayer
+ */
+export const signForwardRequest = async (signer: TypedDataSigner, domain: TypedDataDomain, request: ForwardRequest) : Promise<SignedForwardRequest> => {
+    const signature = await signer._signTypedData(domain, FORWARD_REQUEST_TYPES, request);
+
+    return { request, signature };
+}
+
+
+////// Relayer side: the relayer pays the gas //////
+
+/**
+ * Submits the stake of an NFT with the permit signed by its owner, who is credited with the stake.
+ * @param tokenFarm the TokenFarm contract, connected to the relayer
+ * @param signedPermit the permit signed by the owner of the NFT
+ * @returns the stake transaction
+ */
+export const relayStakeWithPermit = async (tokenFarm: TokenFarm, { permit, signature }: SignedNFTPermit) : Promise<ContractTransaction> => {
+    // the addresses are compared by value, whatever their case
+    if (utils.getAddress(permit.spender) !== utils.getAddress(tokenFarm.address)) throw new Error(`The permit of token ${permit.tokenId} is not for TokenFarm`);
+
+    return tokenFarm.stakeWithPermit(permit.tokenId, permit.deadline, signature);
+}
+
+
+/**
+ * Submits a request signed by a user to the Forwarder.
+ * The Forwarder does not revert when the forwarded call fails, so the request is simulated first
+ * and the relayer does not pay for requests that would fail.
+ * @param forwarder the Forwarder contract, connected to the relayer
+ * @param signedRequest the request signed by the user
+ * @param target the interface of the target contract, to decode its custom errors
+ * @returns the transaction executing the request
+ */
+export const relay = async (forwarder: Forwarder, { request, signature }: SignedForwardRequest, target?: utils.Interface) : Promise<ContractTransaction> => {
+    if (!await forwarder.verify(request, signature)) {
+        throw new Error(`Invalid signature or nonce for the request of ${request.from}`);
+    }
+
+    const [ success, returnData ] = await forwarder.callStatic.execute(request, signature);
+    if (!success) {
+        throw new Error(`The request of ${request.from} reverted: ${decodeRevert(returnData, target)}`);
+    }
+
+    return forwarder.execute(request, signature);
+}
+
+
+/**
+ * @param returnData the return data of a failed call
+ * @param target the interface of the contract called, to decode its custom errors
+ * @returns the custom error or the reason of the revert
+ */
+export const decodeRevert = (returnData: string, target?: utils.Interface) : string => {
+    if (utils.hexDataLength(returnData) < 4) return "reverted without a reason";
+
+    if (utils.hexDataSlice(returnData, 0, 4) === utils.id("Error(string)").slice(0, 10)) {
+        return utils.defaultAbiCoder.decode([ "string" ], utils.hexDataSlice(returnData, 4))[0];
+    }
+
+    try {
+        const error = target?.parseError(returnData);
+        if (error) return `${error.name}(${error.args.join(", ")})`;
+    } catch {
+        // not an error of the target contract
+    }
+
+    return returnData;
+}
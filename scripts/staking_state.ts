@@ -0,0 +1,48 @@
+import type { TokenFarm } from "../typechain-types";
+
+
+export type StakingState = {
+    tokenToOwner: Map<string, string>,          // token ID => staker
+    stakedTokens: Map<string, string[]>,        // staker => token IDs staked, in staking order
+    totalStaked: number,
+}
+
+
+/**
+ * Rebuilds the staking state of TokenFarm from its Deposited, Withdrawn and EmergencyWithdrawn events,
+ * and the StakeImported and StakeMigrated events of the stakes moved between farms by a migration.
+ * @param tokenFarm the TokenFarm contract
+ * @param toBlock the block to rebuild the state at (default latest)
+ * @returns the NFTs staked by each staker at the given block
+ */
+export const rebuildStakingState = async (tokenFarm: TokenFarm, toBlock: number | string = "latest") : Promise<StakingState> => {
+
+    const deposits = await tokenFarm.queryFilter(tokenFarm.filters.Deposited(), 0, toBlock);
+    const withdrawals = await tokenFarm.queryFilter(tokenFarm.filters.Withdrawn(), 0, toBlock);
+    const emergencyWithdrawals = await tokenFarm.queryFilter(tokenFarm.filters.EmergencyWithdrawn(), 0, toBlock);
+    const imports = await tokenFarm.queryFilter(tokenFarm.filters.StakeImported(), 0, toBlock);
+    const migrations = await tokenFarm.queryFilter(tokenFarm.filters.StakeMigrated(), 0, toBlock);
+
+    // replay the events in the order they were emitted
+    const events = [ ...deposits, ...withdrawals, ...emergencyWithdrawals, ...imports, ...migrations ].sort((a, b) => {
+        return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+    });
+
+    const tokenToOwner = new Map<string, string>();
+    for (const event of events) {
+        const tokenId = event.args.tokenId.toString();
+
+        if (event.event === "Deposited" || event.event === "StakeImported") {
+            tokenToOwner.set(tokenId, event.args[0]);
+        } else {
+            tokenToOwner.delete(tokenId);
+        }
+    }
+
+    const stakedTokens = new Map<string, string[]>();
+    for (const [tokenId, staker] of tokenToOwner) {
+        stakedTokens.set(staker, [ ...(stakedTokens.get(staker) ?? []), tokenId ]);
+    }
+
+    return { tokenToOwner, stakedTokens, totalStaked: tokenToOwner.size };
+}
@@ -0,0 +1,140 @@
+import fs from "fs";
+import path from "path";
+import { utils } from "ethers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+
+
+/// The leaf encoding expected by MyNFT.isWhitelistedAddress: keccak256(keccak256(abi.encode(addr, index, allowance)))
+export const WHITELIST_LEAF_ENCODING = ["address", "uint256", "uint256"];
+
+/// The number of NFTs a whitelisted address can mint at whitelist price when no allowance is given
+export const DEFAULT_ALLOWANCE = 1;
+
+export type WhitelistEntry = { address: string, allowance: number };
+export type WhitelistLeaf = [ string, number, number ];
+export type WhitelistProof = { index: number, allowance: number, proof: string[] };
+
+export type Whitelist = {
+    tree: StandardMerkleTree<WhitelistLeaf>,
+    root: string,
+    proofs: { [address: string]: WhitelistProof }
+}
+
+
+/**
+ * Reads the list of whitelisted addresses from a CSV or JSON file.
+ * CSV files have one address per line in the first column and an optional allowance in the second column
+ * (an optional header line is skipped).
+ * JSON files contain an array of addresses or an array of objects with an `address` and an optional `allowance` field.
+ * @param file the path of the CSV or JSON file
+ * @returns the whitelist entries in the order they appear in the file
+ */
+export const readWhitelistFile = (file: string) : WhitelistEntry[] => {
+
+    const content = fs.readFileSync(file, "utf8");
+
+    if (path.extname(file).toLowerCase() === ".json") {
+        const items = JSON.parse(content);
+        if (!Array.isArray(items)) throw new Error(`${file}: expected a JSON array of addresses`);
+
+        return items.map((item: any) => typeof item === "string" ?
+            { address: item, allowance: DEFAULT_ALLOWANCE } :
+            { address: item?.address, allowance: item?.allowance ?? DEFAULT_ALLOWANCE }
+        );
+    }
+
+    const rows = content.split(/\r?\n/)
+        .map(line => line.split(",").map(column => column.trim()))
+        .filter(([ address ]) => address.length > 0 && !address.startsWith("#"));
+
+    // skip the header line if there is one: a first line that is not hexadecimal, a malformed address is kept to be reported
+    if (rows.length > 0 && !/^(0x)?[0-9a-fA-F]+$/.test(rows[0][0])) rows.shift();
+
+    return rows.map(([ address, allowance ]) => ({
+        address,
+        allowance: allowance ? Number(allowance) : DEFAULT_ALLOWANCE,
+    }));
+}
+
+
+/**
+ * Builds the whitelist Merkle tree for MyNFT.
+ * Each address is assigned the index of its position in the list. The index and the allowance are part of the leaf
+ * and are used by MyNFT to track the NFTs minted by the whitelisted addresses.
+ * @param entries the list of addresses to whitelist, with an optional allowance (default 1)
+ * @returns the Merkle tree, its root and the {index, allowance, proof} for each whitelisted address
+ */
+export const buildWhitelist = (entries: (string | WhitelistEntry)[]) : Whitelist => {
+
+    if (entries.length === 0) throw new Error("Whitelist is empty");
+
+    // MyNFT treats an empty proof as not whitelisted, and the only leaf of a tree has an empty proof
+    if (entries.length === 1) throw new Error("Whitelist must contain at least 2 addresses");
+
+    const seen = new Map<string, number>();
+    const values : WhitelistLeaf[] = entries.map((entry, index) => {
+        const { address, allowance } = typeof entry === "string" ? { address: entry, allowance: DEFAULT_ALLOWANCE } : entry;
+
+        if (typeof address !== "string" || !utils.isAddress(address)) {
+            throw new Error(`Invalid address at position ${index}: ${address}`);
+        }
+        if (!Number.isInteger(allowance) || allowance < 1) {
+            throw new Error(`Invalid allowance at position ${index}: ${allowance}`);
+        }
+
+        const checksummed = utils.getAddress(address);
+        const duplicateOf = seen.get(checksummed);
+        if (duplicateOf !== undefined) {
+            throw new Error(`Duplicate address at position ${index}: ${checksummed} (already at position ${duplicateOf})`);
+        }
+        seen.set(checksummed, index);
+
+        return [checksummed, index, allowance];
+    });
+
+    const tree = StandardMerkleTree.of(values, WHITELIST_LEAF_ENCODING);
+
+    const proofs : { [address: string]: WhitelistProof } = {};
+    for (const [i, [address, index, allowance]] of tree.entries()) {
+        proofs[address] = { index, allowance, proof: tree.getProof(i) };
+    }
+
+    return { tree, root: tree.root, proofs };
+}
+
+
+/**
+ * Writes the whitelist files to the output directory:
+ * - tree.json: the Merkle tree dump, which can be loaded with StandardMerkleTree.load
+ * - root.json: the Merkle root and the number of whitelisted addresses
+ * - proofs.json: the {index, allowance, proof} for each whitelisted address
+ * @param whitelist the whitelist to save
+ * @param outDir the output directory
+ */
+export const writeWhitelist = (whitelist: Whitelist, outDir: string) => {
+
+    fs.mkdirSync(outDir, { recursive: true });
+
+    const write = (name: string, data: any) => {
+        fs.writeFileSync(path.join(outDir, name), JSON.stringify(data, null, 2) + "\n");
+    }
+
+    write("tree.json", whitelist.tree.dump());
+    write("root.json", { root: whitelist.root, count: Object.keys(whitelist.proofs).length });
+    write("proofs.json", whitelist.proofs);
+}
+
+
+/**
+ * Loads the Merkle root from a whitelist output directory or from one of its files.
+ * @param file the path of a tree.json or root.json file, or of the directory containing them
+ * @returns the Merkle root
+ */
+export const loadWhitelistRoot = (file: string) : string => {
+
+    if (fs.statSync(file).isDirectory()) file = path.join(file, "root.json");
+
+    const data = JSON.parse(fs.readFileSync(file, "utf8"));
+
+    return data.format === "standard-v1" ? StandardMerkleTree.load(data).root : data.root;
+}
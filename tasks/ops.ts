@@ -0,0 +1,100 @@
+import { task, types } from "hardhat/config";
+
+import { getDeployedAddress } from "../scripts/deployments";
+import {
+    countPrimes, farmClaimable, farmPositions, farmStakes, formatOutput, loadManifest, nftStatus, ownerAction, Row
+} from "../scripts/ops";
+
+
+/**
+ * @param name the name of the task
+ * @param description the description of the task
+ * @returns a task reading the contracts of the deployment manifest, with its output as tables or JSON
+ */
+const opsTask = (name: string, description: string) => {
+    return task(name, description)
+        .addOptionalParam("manifest", "The deployment manifest (default deployments/<network>.json)", undefined, types.string)
+        .addFlag("json", "Print the output as JSON");
+}
+
+
+/**
+ * @param result the output of the task
+ * @param json true to print the output as JSON
+ * @returns the output of the task
+ */
+const print = <T extends Row | Row[]>(result: T, json: boolean) : T => {
+    console.log(formatOutput(result, json));
+    return result;
+}
+
+
+opsTask("nft:status", "Shows the supply, the mint price, the sale phase, the whitelist Merkle root and the ETH balance of MyNFT")
+    .setAction(async ({ manifest, json }, hre) => {
+
+        const myNFT = await hre.ethers.getContractAt("MyNFT", getDeployedAddress(loadManifest(hre, manifest), "MyNFT"));
+
+        return print(await nftStatus(myNFT), json);
+    });
+
+
+opsTask("nft:enable-mint", "Enables or disables the MyNFT public mint (owner only)")
+    .addOptionalParam("enabled", "false to disable the public mint", true, types.boolean)
+    .addFlag("dryRun", "Only simulate the call")
+    .setAction(async ({ manifest, json, enabled, dryRun }, hre) => {
+
+        const myNFT = await hre.ethers.getContractAt("MyNFT", getDeployedAddress(loadManifest(hre, manifest), "MyNFT"));
+
+        return print(await ownerAction(myNFT, "enablePublicMint", [ enabled ], dryRun), json);
+    });
+
+
+opsTask("nft:withdraw", "Withdraws the ETH of MyNFT (owner only)")
+    .addParam("to", "The recipient of the ETH")
+    .addOptionalParam("amount", "The ETH to withdraw (default all the balance)", "0", types.string)
+    .addFlag("dryRun", "Only simulate the call")
+    .setAction(async ({ manifest, json, to, amount, dryRun }, hre) => {
+
+        const myNFT = await hre.ethers.getContractAt("MyNFT", getDeployedAddress(loadManifest(hre, manifest), "MyNFT"));
+
+        return print(await ownerAction(myNFT, "withdraw", [ to, hre.ethers.utils.parseEther(amount) ], dryRun), json);
+    });
+
+
+opsTask("farm:stakes", "Lists the NFTs staked in TokenFarm by an address and their locks")
+    .addPositionalParam("address", "The staker")
+    .setAction(async ({ manifest, json, address }, hre) => {
+
+        const tokenFarm = await hre.ethers.getContractAt("TokenFarm", getDeployedAddress(loadManifest(hre, manifest), "TokenFarm"));
+
+        return print(await farmStakes(tokenFarm, address), json);
+    });
+
+
+opsTask("farm:claimable", "Shows the TokenFarm rewards an address can claim")
+    .addPositionalParam("address", "The staker")
+    .setAction(async ({ manifest, json, address }, hre) => {
+
+        const tokenFarm = await hre.ethers.getContractAt("TokenFarm", getDeployedAddress(loadManifest(hre, manifest), "TokenFarm"));
+
+        return print(await farmClaimable(tokenFarm, address), json);
+    });
+
+
+opsTask("farm:positions", "Lists the stakers of TokenFarm, their NFTs and their claimable rewards")
+    .setAction(async ({ manifest, json }, hre) => {
+
+        const tokenFarm = await hre.ethers.getContractAt("TokenFarm", getDeployedAddress(loadManifest(hre, manifest), "TokenFarm"));
+
+        return print(await farmPositions(tokenFarm), json);
+    });
+
+
+opsTask("counter:primes", "Counts the MyNFT NFTs of an address with prime token IDs")
+    .addPositionalParam("address", "The owner of the NFTs")
+    .setAction(async ({ manifest, json, address }, hre) => {
+
+        const primeNftCounter = await hre.ethers.getContractAt("PrimeNftCounter", getDeployedAddress(loadManifest(hre, manifest), "PrimeNftCounter"));
+
+        return print(await countPrimes(primeNftCounter, address), json);
+    });
@@ -0,0 +1,41 @@
+import { task, types } from "hardhat/config";
+
+import { buildWhitelist, loadWhitelistRoot, readWhitelistFile, writeWhitelist } from "../scripts/whitelist";
+
+
+task("whitelist:build", "Builds the MyNFT whitelist Merkle tree and the proofs for each whitelisted address")
+    .addParam("input", "CSV or JSON file with the addresses to whitelist")
+    .addOptionalParam("out", "Output directory for tree.json, root.json and proofs.json", "whitelist", types.string)
+    .setAction(async ({ input, out }) => {
+
+        const whitelist = buildWhitelist(readWhitelistFile(input));
+        writeWhitelist(whitelist, out);
+
+        console.log(`Whitelisted ${Object.keys(whitelist.proofs).length} addresses`);
+        console.log(`Merkle root: ${whitelist.root}`);
+        console.log(`Output written to ${out}`);
+    });
+
+
+task("whitelist:set-root", "Sets the whitelist Merkle root on a deployed MyNFT contract and verifies it")
+    .addParam("contract", "The address of the MyNFT contract")
+    .addOptionalParam("whitelist", "Whitelist directory, tree.json or root.json file", "whitelist", types.string)
+    .addFlag("verifyOnly", "Only check that the on-chain Merkle root matches the whitelist")
+    .setAction(async ({ contract, whitelist, verifyOnly }, hre) => {
+
+        const root = loadWhitelistRoot(whitelist);
+        const myNFT = await hre.ethers.getContractAt("MyNFT", contract);
+
+        if (!verifyOnly) {
+            const tx = await myNFT.setWhiteListMerkleRoot(root);
+            console.log(`setWhiteListMerkleRoot tx: ${tx.hash}`);
+            await tx.wait();
+        }
+
+        const onChainRoot = await myNFT.merkleRoot();
+        if (onChainRoot !== root) {
+            throw new Error(`Merkle root mismatch. On-chain: ${onChainRoot}, whitelist: ${root}`);
+        }
+
+        console.log(`Merkle root verified: ${root}`);
+    });
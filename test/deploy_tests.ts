@@ -0,0 +1,166 @@
+import hre, { ethers } from "hardhat";
+
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { deploySystem } from "../scripts/deploy";
+import { DeployConfig } from "../scripts/deploy_config";
+import { readManifest } from "../scripts/deployments";
+import { toWei } from "./helpers/test_helpers";
+
+
+describe("Deploy", function () {
+
+    const config : DeployConfig = {
+        maxSupply: 50,
+        feeNumerator: 500,
+        discountPercentage: 1000,
+        mintPrice: "0.02",
+        rewardRate: "5",
+        rewardMaxSupply: "2000000",
+    }
+
+    const newManifestFile = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), "deployments-")), "hardhat.json");
+    const log = () => {};
+
+
+    it("deploys the contracts with the network config", async function () {
+        const manifest = await deploySystem(hre, { config, manifestFile: newManifestFile(), log });
+
+        const myNFT = await ethers.getContractAt("MyNFT", manifest.contracts.MyNFT!.address);
+        expect( await myNFT.MAX_SUPPLY() ).to.be.equal(50)
+        expect( await myNFT.FEE_NUMERATOR() ).to.be.equal(500)
+        expect( await myNFT.DISCOUNT_PERCENTAGE() ).to.be.equal(1000)
+        expect( await myNFT.MINT_PRICE() ).to.be.equal( toWei(0.02) )
+
+        const tokenFarm = await ethers.getContractAt("TokenFarm", manifest.contracts.TokenFarm!.address);
+        expect( await tokenFarm.nftToken() ).to.be.equal(myNFT.address)
+        expect( await tokenFarm.rewardToken() ).to.be.equal(manifest.contracts.RewardToken!.address)
+        expect( await tokenFarm.rewardRate() ).to.be.equal( toWei(5) )
+        expect( await tokenFarm.trustedForwarder() ).to.be.equal(manifest.contracts.Forwarder!.address)
+
+        const primeNftCounter = await ethers.getContractAt("PrimeNftCounter", manifest.contracts.PrimeNftCounter!.address);
+        expect( await primeNftCounter.nftToken() ).to.be.equal(myNFT.address)
+        expect( await primeNftCounter.receiptToken() ).to.be.equal( await tokenFarm.receiptToken() )
+    });
+
+    it("grants the Reward Token minter role to TokenFarm", async function () {
+        const manifest = await deploySystem(hre, { config, manifestFile: newManifestFile(), log });
+
+        const rewardToken = await ethers.getContractAt("RewardToken", manifest.contracts.RewardToken!.address);
+        expect( await rewardToken.hasRole(await rewardToken.MINTER_ROLE(), manifest.contracts.TokenFarm!.address) ).to.be.true
+        expect( await rewardToken.cap() ).to.be.equal( toWei(2_000_000) )
+    });
+
+    it("deploys the revenue splitter when the config has payees", async function () {
+        const [ , user0, user1 ] = await ethers.getSigners();
+        const payees = [ { address: user0.address, shares: 70 }, { address: user1.address, shares: 30 } ];
+
+        const manifest = await deploySystem(hre, { config: { ...config, payees }, manifestFile: newManifestFile(), log });
+
+        const revenueSplitter = await ethers.getContractAt("RevenueSplitter", manifest.contracts.RevenueSplitter!.address);
+        expect( await revenueSplitter.shares(user0.address) ).to.be.equal(70)
+        expect( await revenueSplitter.shares(user1.address) ).to.be.equal(30)
+
+        const myNFT = await ethers.getContractAt("MyNFT", manifest.contracts.MyNFT!.address);
+        expect( await myNFT.revenueSplitter() ).to.be.equal(revenueSplitter.address)
+    });
+
+    it("uses the trusted forwarder of the config", async function () {
+        const [ , user0 ] = await ethers.getSigners();
+
+        const manifest = await deploySystem(hre, { config: { ...config, trustedForwarder: user0.address }, manifestFile: newManifestFile(), log });
+
+        const tokenFarm = await ethers.getContractAt("TokenFarm", manifest.contracts.TokenFarm!.address);
+        expect( await tokenFarm.trustedForwarder() ).to.be.equal(user0.address)
+        expect( manifest.contracts.Forwarder ).to.be.undefined
+    });
+
+    it("deploys TokenFarm behind a proxy when upgradeable", async function () {
+        const manifest = await deploySystem(hre, { config: { ...config, upgradeableFarm: true }, manifestFile: newManifestFile(), log });
+
+        const deployment = manifest.contracts.TokenFarm!;
+        expect( deployment.implementation ).to.be.equal( await hre.upgrades.erc1967.getImplementationAddress(deployment.address) )
+
+        const tokenFarm = await ethers.getContractAt("TokenFarmUpgradeable", deployment.address);
+        expect( await tokenFarm.nftToken() ).to.be.equal(manifest.contracts.MyNFT!.address)
+        expect( await tokenFarm.rewardRate() ).to.be.equal( toWei(5) )
+        expect( await tokenFarm.trustedForwarder() ).to.be.equal(manifest.contracts.Forwarder!.address)
+        expect( await tokenFarm.receiptToken() ).to.be.equal(manifest.contracts.StakeReceipt!.address)
+
+        const primeNftCounter = await ethers.getContractAt("PrimeNftCounter", manifest.contracts.PrimeNftCounter!.address);
+        expect( await primeNftCounter.receiptToken() ).to.be.equal(manifest.contracts.StakeReceipt!.address)
+
+        const [ owner ] = await ethers.getSigners();
+        expect( await tokenFarm.owner() ).to.be.equal(owner.address)
+
+        const rewardToken = await ethers.getContractAt("RewardToken", manifest.contracts.RewardToken!.address);
+        expect( await rewardToken.hasRole(await rewardToken.MINTER_ROLE(), tokenFarm.address) ).to.be.true
+    });
+
+    it("does not deploy the revenue splitter without payees", async function () {
+        const manifest = await deploySystem(hre, { config, manifestFile: newManifestFile(), log });
+
+        expect( manifest.contracts.RevenueSplitter ).to.be.undefined
+    });
+
+    it("records the deployments in the manifest", async function () {
+        const manifestFile = newManifestFile();
+        const manifest = await deploySystem(hre, { config, manifestFile, log });
+
+        expect( readManifest(manifestFile) ).to.be.deep.equal(manifest)
+
+        const myNFT = manifest.contracts.MyNFT!;
+        const receipt = await ethers.provider.getTransactionReceipt(myNFT.txHash);
+        expect( receipt.contractAddress ).to.be.equal(myNFT.address)
+        expect( myNFT.args ).to.be.deep.equal([ 50, 500, 1000, toWei(0.02).toString() ])
+    });
+
+    it("does not deploy again the contracts in the manifest", async function () {
+        const manifestFile = newManifestFile();
+        const manifest = await deploySystem(hre, { config, manifestFile, log });
+
+        const blockNumber = await ethers.provider.getBlockNumber();
+        const redeployed = await deploySystem(hre, { config, manifestFile, log });
+
+        expect( redeployed ).to.be.deep.equal(manifest)
+        expect( await ethers.provider.getBlockNumber() ).to.be.equal(blockNumber)
+    });
+
+    it("resumes a partial deployment", async function () {
+        const manifestFile = newManifestFile();
+        const manifest = await deploySystem(hre, { config, manifestFile, log });
+
+        // drop the last contract from the manifest
+        const primeNftCounter = manifest.contracts.PrimeNftCounter!;
+        delete manifest.contracts.PrimeNftCounter;
+        fs.writeFileSync(manifestFile, JSON.stringify(manifest));
+
+        const resumed = await deploySystem(hre, { config, manifestFile, log });
+
+        expect( resumed.contracts.MyNFT ).to.be.deep.equal(manifest.contracts.MyNFT)
+        expect( resumed.contracts.RewardToken ).to.be.deep.equal(manifest.contracts.RewardToken)
+        expect( resumed.contracts.TokenFarm ).to.be.deep.equal(manifest.contracts.TokenFarm)
+        expect( resumed.contracts.PrimeNftCounter!.address ).to.not.be.equal(primeNftCounter.address)
+    });
+
+    it("throws when a contract in the manifest has no code", async function () {
+        const manifestFile = newManifestFile();
+        const manifest = await deploySystem(hre, { config, manifestFile, log });
+
+        manifest.contracts.MyNFT!.address = ethers.Wallet.createRandom().address;
+        fs.writeFileSync(manifestFile, JSON.stringify(manifest));
+
+        let error : any;
+        try {
+            await deploySystem(hre, { config, manifestFile, log });
+        } catch (e) {
+            error = e;
+        }
+
+        expect( error?.message ).to.contain("has no code")
+    });
+
+});
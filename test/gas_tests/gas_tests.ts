@@ -0,0 +1,147 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+import { ContractTransaction } from "ethers";
+
+import { day, waitSeconds } from "../helpers/test_helpers";
+import { fixture, mintNFTs, NO_PROOF, proofFor } from "../helpers/fixtures";
+import {
+    compareGas, DEFAULT_GAS_THRESHOLD, GAS_BASELINE_FILE, GAS_RESULTS_FILE, GasResults, readGasBaseline, writeGasFile
+} from "../helpers/gas";
+
+
+/// The max number of NFTs minted in each transaction, within the block gas limit
+const MINT_BATCH = 100;
+
+/// The balances of the owners of NFTs in the countPrimes scenarios
+const PRIME_BALANCES = [ 10, 100, 1000 ];
+
+
+/**
+ * Measures the gas used in the scenarios and compares it with the baseline in gas_baseline.json.
+ * The gas measured is written to gas-results.json, and to the baseline with UPDATE_GAS_BASELINE=true.
+ * The comparison fails when a scenario uses more gas than its baseline plus the threshold of the baseline,
+ * or the GAS_THRESHOLD env var (e.g. 0.05 for 5%).
+ */
+describe("Gas benchmarks", function () {
+
+    const results : GasResults = {};
+
+    /// Records the gas used by a transaction in a scenario
+    const measure = async (scenario: string, tx: Promise<ContractTransaction>) => {
+        const receipt = await (await tx).wait();
+        results[scenario] = receipt.gasUsed.toNumber();
+    }
+
+    // user0 and user1 are whitelisted, user1 holds the NFT 1 and user2 the NFT 2
+    const deployMint = fixture({ whitelist: [ "user0", "user1" ], holdings: { user1: [1], user2: [2] } });
+
+    // user0 staked the NFT 1 and user1 the NFT 2
+    const deployFarm = fixture({ holdings: { user0: [1], user1: [2] }, staked: [1, 2] });
+
+    // user1, user2 and user3 hold 10, 100 and 1000 NFTs
+    const deployCounter = async () => {
+        const deployment = await fixture({ maxSupply: PRIME_BALANCES.reduce((a, b) => a + b) })();
+        const { myNFT, user1, user2, user3 } = deployment;
+
+        const owners = [ user1, user2, user3 ];
+        for (const [ i, balance ] of PRIME_BALANCES.entries()) {
+            for (let minted = 0; minted < balance; minted += MINT_BATCH) {
+                await mintNFTs(myNFT, owners[i].address, Math.min(MINT_BATCH, balance - minted));
+            }
+        }
+
+        return { ...deployment, owners };
+    }
+
+
+    describe("mint", function () {
+
+        it("mint: full price", async function () {
+            const { myNFT, user3 } = await loadFixture(deployMint);
+
+            await measure("mint: full price", myNFT.connect(user3).mint(user3.address, 1, NO_PROOF, { value: await myNFT.MINT_PRICE() }));
+        });
+
+        it("mint: whitelist discount", async function () {
+            const { myNFT, whitelist, user0 } = await loadFixture(deployMint);
+
+            const proof = proofFor(whitelist, user0.address);
+            const [ price, whitelisted ] = await myNFT.priceForMint(user0.address, proof);
+            expect( whitelisted ).to.be.true
+
+            await measure("mint: whitelist discount", myNFT.connect(user0).mint(user0.address, 1, proof, { value: price }));
+        });
+    })
+
+    describe("claimTokens", function () {
+
+        it("claimTokens: first claim", async function () {
+            const { tokenFarm, user0 } = await loadFixture(deployFarm);
+
+            await waitSeconds(day);
+
+            await measure("claimTokens: first claim", tokenFarm.connect(user0).claimTokens(1));
+        });
+
+        it("claimTokens: 10th claim", async function () {
+            const { tokenFarm, user0 } = await loadFixture(deployFarm);
+
+            // claim once a day
+            for (let i = 0; i < 9; i++) {
+                await waitSeconds(day);
+                await tokenFarm.connect(user0).claimTokens(1);
+            }
+            await waitSeconds(day);
+
+            await measure("claimTokens: 10th claim", tokenFarm.connect(user0).claimTokens(1));
+        });
+    })
+
+    describe("countPrimes", function () {
+
+        for (const [ i, balance ] of PRIME_BALANCES.entries()) {
+            it(`countPrimes: ${balance} NFTs`, async function () {
+                const { myNFT, primeNftCounter, owners } = await loadFixture(deployCounter);
+                expect( await myNFT.balanceOf(owners[i].address) ).to.be.equal( balance )
+
+                // countPrimes is a view, its gas is the gas of a call
+                results[`countPrimes: ${balance} NFTs`] = (await primeNftCounter.estimateGas.countPrimes(owners[i].address)).toNumber();
+            });
+        }
+    })
+
+    describe("baseline", function () {
+
+        it("finds the scenarios above the threshold and without a baseline", async function () {
+            const baseline = { threshold: 0.02, scenarios: { a: 1000, b: 1000, c: 1000 } };
+
+            const { regressions, missing } = compareGas(baseline, { a: 1020, b: 1021, c: 900, d: 1 });
+
+            expect( regressions ).to.be.deep.equal([ { scenario: "b", baseline: 1000, gas: 1021, increase: 0.021 } ])
+            expect( missing ).to.be.deep.equal([ "d" ])
+            expect( compareGas(baseline, { b: 1021 }, 0.05).regressions ).to.be.empty
+        });
+
+        it("does not use more gas than the baseline", async function () {
+            writeGasFile(GAS_RESULTS_FILE, results);
+
+            const baseline = readGasBaseline(GAS_BASELINE_FILE);
+            if (process.env.UPDATE_GAS_BASELINE === "true") {
+                writeGasFile(GAS_BASELINE_FILE, { threshold: baseline?.threshold ?? DEFAULT_GAS_THRESHOLD, scenarios: results });
+                return;
+            }
+
+            if (!baseline) throw new Error(`No gas baseline at ${GAS_BASELINE_FILE}, run npm run gas-baseline`);
+
+            const threshold = process.env.GAS_THRESHOLD ? Number(process.env.GAS_THRESHOLD) : baseline.threshold;
+            const { regressions, missing } = compareGas(baseline, results, threshold);
+
+            expect( missing, "scenarios without a baseline" ).to.be.empty
+            expect( regressions.map(({ scenario, baseline, gas, increase }) =>
+                `${scenario}: ${gas} gas, ${baseline} in the baseline (+${(increase * 100).toFixed(2)}%)`
+            ), `scenarios using more than ${threshold * 100}% gas above the baseline` ).to.be.empty
+        });
+    })
+
+});
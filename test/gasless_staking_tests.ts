@@ -0,0 +1,335 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Wallet } from "ethers";
+
+import { day, getLastBlockTimestamp, toWei } from "./helpers/test_helpers";
+import { fixture, NO_PROOF } from "./helpers/fixtures";
+import { MyNFT } from "../typechain-types";
+import { myNFTDomain } from "../scripts/mint_vouchers";
+import {
+    buildForwardRequest, decodeRevert, forwarderDomain, relay, relayStakeWithPermit, signForwardRequest, signNFTPermit
+} from "../scripts/relayer";
+
+
+describe("Gasless staking", function () {
+
+    // user0 holds the NFTs 1 and 2, user1 is the relayer
+    const deployTokenFarm = fixture({ whitelist: [ "user0", "user1" ], holdings: { user0: [1, 2] } });
+
+    // a holder with the NFTs 1 and 2 and no ETH
+    const deployGaslessHolder = async () => {
+        const deployment = await deployTokenFarm();
+        const { myNFT, forwarder, user0 } = deployment;
+
+        const holder = Wallet.createRandom().connect(ethers.provider);
+        await myNFT.connect(user0).transferFrom(user0.address, holder.address, 1);
+        await myNFT.connect(user0).transferFrom(user0.address, holder.address, 2);
+
+        const { chainId } = await ethers.provider.getNetwork();
+        const nftDomain = myNFTDomain(myNFT.address, chainId);
+        const requestDomain = forwarderDomain(forwarder.address, chainId);
+
+        return { ...deployment, holder, nftDomain, requestDomain };
+    }
+
+    /**
+     * @param myNFT the MyNFT contract
+     * @param spender the spender of the permit
+     * @param tokenId the NFT
+     * @returns a permit with the current nonce of the NFT, expiring in 1 day
+     */
+    const newPermit = async (myNFT: MyNFT, spender: string, tokenId: number) => {
+        return { spender, tokenId, nonce: await myNFT.nonces(tokenId), deadline: await getLastBlockTimestamp() + day };
+    }
+
+
+    describe("NFT permit", function () {
+
+        it("approves the spender with the signature of the owner", async function () {
+            const { myNFT, holder, nftDomain, user1, user2 } = await loadFixture(deployGaslessHolder);
+
+            const { permit, signature } = await signNFTPermit(holder, nftDomain, await newPermit(myNFT, user2.address, 1));
+            const nonce = await myNFT.nonces(1);
+
+            // anyone can submit the permit
+            await expect(
+                myNFT.connect(user1).permit(user2.address, 1, permit.deadline, signature)
+            ).to.emit(myNFT, "Approval").withArgs(holder.address, user2.address, 1)
+
+            expect( await myNFT.getApproved(1) ).to.be.equal( user2.address )
+            expect( await myNFT.nonces(1) ).to.be.equal( nonce.add(1) )
+        });
+
+        it("reverts when the permit is expired", async function () {
+            const { myNFT, holder, nftDomain, user2 } = await loadFixture(deployGaslessHolder);
+
+            const { permit, signature } = await signNFTPermit(holder, nftDomain, await newPermit(myNFT, user2.address, 1));
+            const deadline = Number(permit.deadline);
+
+            await time.increaseTo(deadline + 1);
+
+            await expect(
+                myNFT.permit(user2.address, 1, deadline, signature)
+            ).to.be.revertedWithCustomError(myNFT, "PermitExpired").withArgs(deadline)
+        });
+
+        it("reverts when the permit is not signed by the owner", async function () {
+            const { myNFT, nftDomain, user0, user2 } = await loadFixture(deployGaslessHolder);
+
+            const { permit, signature } = await signNFTPermit(user0, nftDomain, await newPermit(myNFT, user2.address, 1));
+
+            await expect(
+                myNFT.permit(user2.address, 1, permit.deadline, signature)
+            ).to.be.revertedWithCustomError(myNFT, "InvalidPermit")
+        });
+
+        it("reverts when the permit is replayed", async function () {
+            const { myNFT, holder, nftDomain, user2 } = await loadFixture(deployGaslessHolder);
+
+            const { permit, signature } = await signNFTPermit(holder, nftDomain, await newPermit(myNFT, user2.address, 1));
+            await myNFT.permit(user2.address, 1, permit.deadline, signature);
+
+            await expect(
+                myNFT.permit(user2.address, 1, permit.deadline, signature)
+            ).to.be.revertedWithCustomError(myNFT, "InvalidPermit")
+        });
+
+        it("invalidates the permits of the previous owner on transfer", async function () {
+            const { myNFT, user0, user2, nftDomain } = await loadFixture(deployGaslessHolder);
+
+            // user0 signs a permit for the NFT 3 and then sells it to user2
+            await myNFT.connect(user0).mint(user0.address, 1, NO_PROOF, { value: toWei(0.01) });
+            const { permit, signature } = await signNFTPermit(user0, nftDomain, await newPermit(myNFT, user0.address, 3));
+
+            await myNFT.connect(user0).transferFrom(user0.address, user2.address, 3);
+            expect( await myNFT.nonces(3) ).to.be.equal( 1 )
+
+            // user2 sends the NFT back but the old permit can't be used
+            await myNFT.connect(user2).transferFrom(user2.address, user0.address, 3);
+
+            await expect(
+                myNFT.permit(user0.address, 3, permit.deadline, signature)
+            ).to.be.revertedWithCustomError(myNFT, "InvalidPermit")
+        });
+
+        it("supports the EIP-4494 interface", async function () {
+            const { myNFT, nftDomain } = await loadFixture(deployGaslessHolder);
+
+            expect( await myNFT.supportsInterface("0x5604e225") ).to.be.true
+            expect( await myNFT.DOMAIN_SEPARATOR() ).to.be.equal( ethers.utils._TypedDataEncoder.hashDomain(nftDomain) )
+        });
+    })
+
+    describe("stake with permit", function () {
+
+        it("stakes the NFT of a holder without ETH", async function () {
+            const { myNFT, tokenFarm, holder, nftDomain, user1 } = await loadFixture(deployGaslessHolder);
+
+            const signedPermit = await signNFTPermit(holder, nftDomain, await newPermit(myNFT, tokenFarm.address, 1));
+
+            await expect(
+                relayStakeWithPermit(tokenFarm.connect(user1), signedPermit)
+            ).to.emit(tokenFarm, "Deposited").withArgs(holder.address, 1)
+
+            expect( await myNFT.ownerOf(1) ).to.be.equal( tokenFarm.address )
+            expect( await tokenFarm.tokenToOwner(1) ).to.be.equal( holder.address )
+            expect( await tokenFarm.stakedTokensOf(holder.address) ).to.be.deep.equal( [ 1 ] )
+            expect( await tokenFarm.totalStaked() ).to.be.equal( 1 )
+            expect( await ethers.provider.getBalance(holder.address) ).to.be.equal( 0 )
+        });
+
+        it("relays the permit with the TokenFarm address in lowercase", async function () {
+            const { myNFT, tokenFarm, holder, nftDomain, user1 } = await loadFixture(deployGaslessHolder);
+
+            const signedPermit = await signNFTPermit(holder, nftDomain, await newPermit(myNFT, tokenFarm.address.toLowerCase(), 1));
+
+            await expect(
+                relayStakeWithPermit(tokenFarm.connect(user1), signedPermit)
+            ).to.emit(tokenFarm, "Deposited").withArgs(holder.address, 1)
+        });
+
+        it("reverts when the permit is not for TokenFarm", async function () {
+            const { myNFT, tokenFarm, holder, nftDomain, user1, user2 } = await loadFixture(deployGaslessHolder);
+
+            const { permit, signature } = await signNFTPermit(holder, nftDomain, await newPermit(myNFT, user2.address, 1));
+
+            await expect(
+                relayStakeWithPermit(tokenFarm.connect(user1), { permit, signature })
+            ).to.be.rejectedWith("is not for TokenFarm")
+
+            await expect(
+                tokenFarm.connect(user1).stakeWithPermit(1, permit.deadline, signature)
+            ).to.be.revertedWithCustomError(tokenFarm, "TokenTransferNotApproved")
+        });
+
+        it("stakes the NFT when the permit was already submitted", async function () {
+            const { myNFT, tokenFarm, holder, nftDomain, user1 } = await loadFixture(deployGaslessHolder);
+
+            const { permit, signature } = await signNFTPermit(holder, nftDomain, await newPermit(myNFT, tokenFarm.address, 1));
+
+            // the permit is front-run on MyNFT, its nonce is used
+            await myNFT.connect(user1).permit(tokenFarm.address, 1, permit.deadline, signature);
+            expect( await myNFT.getApproved(1) ).to.be.equal( tokenFarm.address )
+
+            await expect(
+                tokenFarm.connect(user1).stakeWithPermit(1, permit.deadline, signature)
+            ).to.emit(tokenFarm, "Deposited").withArgs(holder.address, 1)
+
+            expect( await myNFT.ownerOf(1) ).to.be.equal( tokenFarm.address )
+            expect( await tokenFarm.tokenToOwner(1) ).to.be.equal( holder.address )
+        });
+    })
+
+    describe("meta-transactions", function () {
+
+        // the holder staked the NFTs 1 and 2 with permits
+        const deployGaslessStaker = async () => {
+            const deployment = await deployGaslessHolder();
+            const { myNFT, tokenFarm, holder, nftDomain, user1 } = deployment;
+
+            for (const tokenId of [1, 2]) {
+                const signedPermit = await signNFTPermit(holder, nftDomain, await newPermit(myNFT, tokenFarm.address, tokenId));
+                await relayStakeWithPermit(tokenFarm.connect(user1), signedPermit);
+            }
+
+            return deployment;
+        }
+
+        it("trusts the Forwarder", async function () {
+            const { tokenFarm, forwarder, user1 } = await loadFixture(deployTokenFarm);
+
+            expect( await tokenFarm.trustedForwarder() ).to.be.equal( forwarder.address )
+            expect( await tokenFarm.isTrustedForwarder(forwarder.address) ).to.be.true
+            expect( await tokenFarm.isTrustedForwarder(user1.address) ).to.be.false
+        });
+
+        it("only the owner can set the trusted forwarder", async function () {
+            const { tokenFarm, user1 } = await loadFixture(deployTokenFarm);
+
+            await expect(
+                tokenFarm.connect(user1).setTrustedForwarder(user1.address)
+            ).to.be.revertedWith("Ownable: caller is not the owner")
+
+            await expect(
+                tokenFarm.setTrustedForwarder(ethers.constants.AddressZero)
+            ).to.emit(tokenFarm, "TrustedForwarderSet").withArgs(ethers.constants.AddressZero)
+
+            expect( await tokenFarm.isTrustedForwarder(ethers.constants.AddressZero) ).to.be.false
+        });
+
+        it("claims the rewards of the signer", async function () {
+            const { tokenFarm, rewardToken, forwarder, holder, requestDomain, user1 } = await loadFixture(deployGaslessStaker);
+
+            await time.increase(day);
+
+            const data = tokenFarm.interface.encodeFunctionData("claimAll");
+            const request = await buildForwardRequest(forwarder, holder.address, tokenFarm.address, data);
+            const signedRequest = await signForwardRequest(holder, requestDomain, request);
+
+            await expect(
+                relay(forwarder.connect(user1), signedRequest, tokenFarm.interface)
+            ).to.emit(tokenFarm, "Claimed")
+
+            // 2 NFTs staked for about 1 day at 10 tokens per day
+            expect( await rewardToken.balanceOf(holder.address) ).to.be.closeTo( toWei(20), toWei(0.01) )
+            expect( await rewardToken.balanceOf(user1.address) ).to.be.equal( 0 )
+            expect( await forwarder.getNonce(holder.address) ).to.be.equal( 1 )
+        });
+
+        it("withdraws the NFT to the signer", async function () {
+            const { myNFT, tokenFarm, forwarder, holder, requestDomain, user1 } = await loadFixture(deployGaslessStaker);
+
+            const data = tokenFarm.interface.encodeFunctionData("withdraw", [ 2 ]);
+            const request = await buildForwardRequest(forwarder, holder.address, tokenFarm.address, data);
+
+            await expect(
+                relay(forwarder.connect(user1), await signForwardRequest(holder, requestDomain, request))
+            ).to.emit(tokenFarm, "Withdrawn").withArgs(holder.address, 2)
+
+            expect( await myNFT.ownerOf(2) ).to.be.equal( holder.address )
+            expect( await tokenFarm.stakedTokensOf(holder.address) ).to.be.deep.equal( [ 1 ] )
+            expect( await ethers.provider.getBalance(holder.address) ).to.be.equal( 0 )
+        });
+
+        it("surfaces the revert of the forwarded call", async function () {
+            const { tokenFarm, forwarder, user0, user1, requestDomain } = await loadFixture(deployGaslessStaker);
+
+            // user0 does not own the NFT 1 staked by the holder
+            // the gas can't be estimated for a call that reverts
+            const data = tokenFarm.interface.encodeFunctionData("withdraw", [ 1 ]);
+            const request = await buildForwardRequest(forwarder, user0.address, tokenFarm.address, data, 300_000);
+
+            await expect(
+                relay(forwarder.connect(user1), await signForwardRequest(user0, requestDomain, request), tokenFarm.interface)
+            ).to.be.rejectedWith("NotTheTokenOwner()")
+
+            expect( await forwarder.getNonce(user0.address) ).to.be.equal( 0 )
+        });
+
+        it("rejects the requests not signed by the sender", async function () {
+            const { tokenFarm, forwarder, holder, user0, user1, requestDomain } = await loadFixture(deployGaslessStaker);
+
+            // user0 tries to withdraw the NFT of the holder
+            const data = tokenFarm.interface.encodeFunctionData("withdraw", [ 1 ]);
+            const request = await buildForwardRequest(forwarder, holder.address, tokenFarm.address, data);
+            const { signature } = await signForwardRequest(user0, requestDomain, request);
+
+            await expect(
+                relay(forwarder.connect(user1), { request, signature })
+            ).to.be.rejectedWith("Invalid signature or nonce")
+
+            await expect(
+                forwarder.connect(user1).execute(request, signature)
+            ).to.be.revertedWith("MinimalForwarder: signature does not match request")
+        });
+
+        it("rejects the replayed requests", async function () {
+            const { tokenFarm, forwarder, holder, user1, requestDomain } = await loadFixture(deployGaslessStaker);
+
+            const data = tokenFarm.interface.encodeFunctionData("claimAll");
+            const request = await buildForwardRequest(forwarder, holder.address, tokenFarm.address, data);
+            const signedRequest = await signForwardRequest(holder, requestDomain, request);
+
+            await relay(forwarder.connect(user1), signedRequest);
+
+            await expect(
+                relay(forwarder.connect(user1), signedRequest)
+            ).to.be.rejectedWith("Invalid signature or nonce")
+        });
+
+        it("does not trust the Forwarder once it is removed", async function () {
+            const { tokenFarm, forwarder, holder, user1, requestDomain } = await loadFixture(deployGaslessStaker);
+
+            await tokenFarm.setTrustedForwarder(ethers.constants.AddressZero);
+
+            // the sender is the Forwarder, not the holder
+            const data = tokenFarm.interface.encodeFunctionData("withdraw", [ 1 ]);
+            const request = await buildForwardRequest(forwarder, holder.address, tokenFarm.address, data, 300_000);
+
+            await expect(
+                relay(forwarder.connect(user1), await signForwardRequest(holder, requestDomain, request), tokenFarm.interface)
+            ).to.be.rejectedWith("NotTheTokenOwner()")
+        });
+    })
+
+    describe("revert decoding", function () {
+
+        it("decodes the revert reasons and the custom errors", async function () {
+            const { tokenFarm } = await loadFixture(deployTokenFarm);
+
+            const reason = ethers.utils.hexConcat([
+                ethers.utils.id("Error(string)").slice(0, 10),
+                ethers.utils.defaultAbiCoder.encode([ "string" ], [ "ERC721: invalid token ID" ]),
+            ]);
+            const customError = tokenFarm.interface.encodeErrorResult("NotTheTokenOwner");
+
+            expect( decodeRevert(reason) ).to.be.equal( "ERC721: invalid token ID" )
+            expect( decodeRevert(customError, tokenFarm.interface) ).to.be.equal( "NotTheTokenOwner()" )
+            expect( decodeRevert(customError) ).to.be.equal( customError )
+            expect( decodeRevert("0x") ).to.be.equal( "reverted without a reason" )
+        });
+    })
+
+});
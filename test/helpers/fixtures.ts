@@ -0,0 +1,213 @@
+import { ethers } from "hardhat";
+import { BigNumber } from "ethers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { Forwarder, MyNFT, PrimeNftCounter, RevenueSplitter, RewardToken, SimpleNFT, StakeReceipt, TokenFarm, TokenFarmUpgradeable } from "../../typechain-types";
+import { buildWhitelist, Whitelist, WhitelistProof } from "../../scripts/whitelist";
+import { migrateFarm, MigrationOptions } from "../../scripts/migrate_farm";
+import { range, toWei } from "./test_helpers";
+
+
+export type Signers = {
+    owner: SignerWithAddress,
+    user0: SignerWithAddress,
+    user1: SignerWithAddress,
+    user2: SignerWithAddress,
+    user3: SignerWithAddress,
+}
+
+export type UserName = keyof Signers;
+
+export type FixtureOptions = {
+    maxSupply?: number,                             // MyNFT max supply (default 20)
+    feeNumerator?: number,                          // MyNFT royalty fee, uses 10000 denominator (default 2.5%)
+    discountPercentage?: number,                    // MyNFT whitelist discount, uses 10000 denominator (default 20%)
+    mintPrice?: BigNumber,                          // MyNFT mint price in wei (default 0.01 ETH)
+    rewardRate?: BigNumber,                         // TokenFarm reward tokens in wei farmed every 24h by each NFT (default 10 tokens)
+    rewardMaxSupply?: BigNumber,                    // RewardToken max supply in wei (default 1M tokens)
+    publicMint?: boolean,                           // is public mint enabled (default true)
+    whitelist?: (UserName | { user: UserName, allowance: number })[], // the whitelisted users, in index order (default none)
+    holdings?: { [user in UserName]?: number[] },   // the token IDs minted to each user (default none)
+    staked?: number[],                              // the token IDs staked in TokenFarm by their holders (default none)
+    revenueShares?: { [user in UserName]?: number },// the shares of the users in the RevenueSplitter of MyNFT (default no splitter)
+}
+
+export type Fixture = Signers & {
+    myNFT: MyNFT,
+    rewardToken: RewardToken,
+    tokenFarm: TokenFarm,
+    stakeReceipt: StakeReceipt,
+    forwarder: Forwarder,
+    primeNftCounter: PrimeNftCounter,
+    revenueSplitter?: RevenueSplitter,
+    whitelist?: Whitelist,
+    signers: Signers,
+}
+
+
+/**
+ * @returns the named signers used in the tests
+ */
+export const getSigners = async () : Promise<Signers> => {
+    const [ owner, user0, user1, user2, user3 ] = await ethers.getSigners();
+
+    return { owner, user0, user1, user2, user3 };
+}
+
+
+/**
+ * Creates a fixture that deploys MyNFT, RewardToken, TokenFarm with its trusted Forwarder and PrimeNftCounter
+ * and sets up the whitelist, the NFT holdings and the staked NFTs described by the options.
+ * The fixture should be created once, outside of the tests, so that loadFixture can snapshot it.
+ * @param options the state of the system to set up
+ * @returns a fixture function to be used with loadFixture
+ */
+export const fixture = (options: FixtureOptions = {}) => async function deployFixture() : Promise<Fixture> {
+
+    const signers = await getSigners();
+    const { owner } = signers;
+
+    const myNFT = await (await ethers.getContractFactory("MyNFT")).deploy(
+        options.maxSupply ?? 20,
+        options.feeNumerator ?? 250, // 2.5% fee
+        options.discountPercentage ?? 2000, // 20% discount
+        options.mintPrice ?? toWei( 0.01 ), // 0.01 ETH
+    );
+
+    const rewardToken = await (await ethers.getContractFactory("RewardToken")).deploy(
+        options.rewardMaxSupply ?? toWei( 1_000_000 ), // 1M tokens
+    );
+    const forwarder = await (await ethers.getContractFactory("Forwarder")).deploy();
+    const tokenFarm = await (await ethers.getContractFactory("TokenFarm")).deploy(
+        myNFT.address,
+        rewardToken.address,
+        options.rewardRate ?? toWei( 10 ), // 10 tokens every 24h
+        forwarder.address,
+    );
+    const stakeReceipt = await ethers.getContractAt("StakeReceipt", await tokenFarm.receiptToken());
+    const primeNftCounter = await (await ethers.getContractFactory("PrimeNftCounter")).deploy(myNFT.address, stakeReceipt.address);
+
+    await rewardToken.grantRole(await rewardToken.MINTER_ROLE(), tokenFarm.address);
+
+    // set the revenue splitter of the mint proceeds and royalties
+    let revenueSplitter : RevenueSplitter | undefined;
+    if (options.revenueShares) {
+        const payees = Object.entries(options.revenueShares);
+        revenueSplitter = await (await ethers.getContractFactory("RevenueSplitter")).deploy(
+            payees.map(([user]) => signers[user as UserName].address),
+            payees.map(([, shares]) => shares),
+        );
+        await myNFT.setRevenueSplitter(revenueSplitter.address, true);
+    }
+
+    // set the Merkle root for the whitelisted users
+    let whitelist : Whitelist | undefined;
+    if (options.whitelist) {
+        whitelist = buildWhitelist(options.whitelist.map(entry => typeof entry === "string" ?
+            signers[entry].address :
+            { address: signers[entry.user].address, allowance: entry.allowance }
+        ));
+        await myNFT.setWhiteListMerkleRoot(whitelist.root);
+    }
+
+    // mint the token IDs to their holders. Token IDs not held by any user are minted to the owner.
+    const holderOf = new Map<number, SignerWithAddress>();
+    for (const [user, tokenIds] of Object.entries(options.holdings ?? {})) {
+        for (const tokenId of tokenIds) {
+            if (holderOf.has(tokenId)) throw new Error(`Token ${tokenId} has more than one holder`);
+            holderOf.set(tokenId, signers[user as UserName]);
+        }
+    }
+
+    const lastTokenId = Math.max(0, ...holderOf.keys());
+    if (lastTokenId > 0) {
+        await myNFT.enablePublicMint(true);
+
+        const mintPrice = await myNFT.MINT_PRICE();
+        for (const tokenId of range(1, lastTokenId)) {
+            const holder = holderOf.get(tokenId) ?? owner;
+            await myNFT.mint(holder.address, 1, NO_PROOF, { value: mintPrice });
+        }
+    }
+
+    await myNFT.enablePublicMint(options.publicMint ?? true);
+
+    // stake the NFTs
+    for (const tokenId of options.staked ?? []) {
+        const holder = holderOf.get(tokenId);
+        if (!holder) throw new Error(`Token ${tokenId} has no holder to stake it`);
+
+        await myNFT.connect(holder)["safeTransferFrom(address,address,uint256)"](holder.address, tokenFarm.address, tokenId);
+    }
+
+    return { myNFT, rewardToken, tokenFarm, stakeReceipt, forwarder, primeNftCounter, revenueSplitter, whitelist, signers, ...signers };
+}
+
+
+/// The whitelist proof used to mint for non whitelisted addresses
+export const NO_PROOF : WhitelistProof = { index: 0, allowance: 0, proof: [] };
+
+
+/**
+ * @param whitelist the whitelist of the fixture
+ * @param address an address that could be whitelisted or not
+ * @returns the index, the allowance and the Merkle proof of the address, or an empty proof when the address is not whitelisted
+ */
+export const proofFor = (whitelist: Whitelist | undefined, address: string) : WhitelistProof => {
+    return whitelist?.proofs[address] ?? NO_PROOF;
+}
+
+
+/**
+ * Mints NFTs at full price
+ * @param myNFT the MyNFT contract
+ * @param recipient the address receiving the NFTs
+ * @param count the number of NFTs to mint
+ */
+export const mintNFTs = async (myNFT: MyNFT, recipient: string, count: number) => {
+    const mintPrice = await myNFT.MINT_PRICE();
+
+    await myNFT.mint(recipient, count, NO_PROOF, { value: mintPrice.mul(count) });
+}
+
+
+/**
+ * Migrates the stakes of a legacy TokenFarm, running the migration again once the migration delay has passed
+ * @param legacy the legacy TokenFarm
+ * @param farm the new farm
+ * @param rewardToken the RewardToken minted by both farms
+ * @param options the migration options
+ * @returns the report of the migration that imported the stakes
+ */
+export const migrateFarmAfterDelay = async (legacy: TokenFarm, farm: TokenFarmUpgradeable, rewardToken: RewardToken, options: MigrationOptions = {}) => {
+    const report = await migrateFarm(legacy, farm, rewardToken, options);
+    if (!report.pending) return report;
+
+    await time.increaseTo(report.effectiveAt);
+
+    return migrateFarm(legacy, farm, rewardToken, options);
+}
+
+
+/**
+ * @returns an instance of the SimpleNFT contract
+ */
+export const deploySimpleNFT = async () : Promise<{ simpleNFT: SimpleNFT }> => {
+    const simpleNFT = await (await ethers.getContractFactory("SimpleNFT")).deploy();
+
+    return { simpleNFT };
+}
+
+
+////// Common fixtures //////
+
+/// MyNFT with user0 and user1 whitelisted
+export const deployMyNFT = fixture({ whitelist: [ "user0", "user1" ] });
+
+/// TokenFarm with the NFTs 1 and 2 held by user0
+export const deployTokenFarm = fixture({ whitelist: [ "user0", "user1" ], holdings: { user0: [1, 2] } });
+
+/// PrimeNftCounter with a max supply of 1000 NFTs
+export const deployPrimeNftCounter = fixture({ maxSupply: 1000, whitelist: [ "user0", "user1" ] });
@@ -0,0 +1,148 @@
+import fs from "fs";
+import path from "path";
+
+import { random } from "./random";
+
+
+/// A pseudo random number generator, the same seed generates the same numbers
+export type Random = {
+    int: (min: number, max: number) => number,   // an integer from min to max (included)
+    pick: <T>(items: T[]) => T,                   // one of the items
+}
+
+/// A property that must hold for any sequence of actions
+export type Property<A> = {
+    generate: (random: Random) => A,    // generates a random action
+    run: (actions: A[]) => Promise<void>, // runs the actions from a fresh state, throws if the property does not hold
+    simplify?: (action: A) => A[],      // the simpler versions of an action, tried when shrinking
+}
+
+export type FuzzOptions = {
+    runs: number,   // the number of random sequences to run
+    steps: number,  // the number of actions of each sequence
+    seed: number,   // the seed of the first sequence, the next sequences use the next seeds
+}
+
+export type Failure<A> = {
+    seed: number,       // the seed of the sequence that failed
+    actions: A[],       // the shrunk sequence of actions
+    error: string,      // the error of the shrunk sequence
+}
+
+
+/**
+ * @param seed the seed of the generator
+ * @returns a mulberry32 pseudo random number generator
+ */
+export const randomGenerator = (seed: number) : Random => {
+    const next = random(seed);
+    const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+
+    return { int, pick: <T>(items: T[]) => items[int(0, items.length - 1)] };
+}
+
+
+/**
+ * Runs random sequences of actions and shrinks the first sequence that fails to a minimal reproduction.
+ * @param property the property to check
+ * @param options the number of sequences, their length and the first seed
+ * @returns the shrunk failing sequence, or undefined if the property holds for all the sequences
+ */
+export const checkProperty = async <A>(property: Property<A>, options: FuzzOptions) : Promise<Failure<A> | undefined> => {
+
+    for (let seed = options.seed; seed < options.seed + options.runs; seed++) {
+        const rand = randomGenerator(seed);
+        const actions = Array.from({ length: options.steps }, () => property.generate(rand));
+
+        const error = await errorOf(property, actions);
+        if (error !== undefined) {
+            return { seed, ...await shrink(property, actions, error) };
+        }
+    }
+
+    return undefined;
+}
+
+
+/**
+ * Shrinks a failing sequence of actions by removing chunks of actions, then single actions,
+ * and by replacing each action with a simpler one, as long as the sequence still fails.
+ * @param property the property that does not hold for the actions
+ * @param actions the failing sequence
+ * @param error the error of the failing sequence
+ * @returns the shortest and simplest failing sequence found and its error
+ */
+export const shrink = async <A>(property: Property<A>, actions: A[], error: string) : Promise<{ actions: A[], error: string }> => {
+
+    // remove chunks of actions, halving the chunk size down to single actions
+    for (let size = Math.floor(actions.length / 2); size >= 1; size = Math.floor(size / 2)) {
+        for (let start = 0; start + size <= actions.length;) {
+            const candidate = [ ...actions.slice(0, start), ...actions.slice(start + size) ];
+            const candidateError = await errorOf(property, candidate);
+
+            if (candidateError !== undefined) {
+                actions = candidate;
+                error = candidateError;
+            } else {
+                start += size;
+            }
+        }
+    }
+
+    // simplify each action
+    for (let i = 0; i < actions.length; i++) {
+        for (const simpler of property.simplify?.(actions[i]) ?? []) {
+            const candidate = [ ...actions.slice(0, i), simpler, ...actions.slice(i + 1) ];
+            const candidateError = await errorOf(property, candidate);
+
+            if (candidateError !== undefined) {
+                actions = candidate;
+                error = candidateError;
+                break;
+            }
+        }
+    }
+
+    return { actions, error };
+}
+
+
+/**
+ * Saves a failing sequence as a regression, replayed by the tests of the property.
+ * @param dir the directory of the regressions of the property
+ * @param failure the failing sequence
+ * @returns the path of the regression file
+ */
+export const saveRegression = <A>(dir: string, failure: Failure<A>) : string => {
+    const file = path.join(dir, `seed-${failure.seed}.json`);
+
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(failure, null, 2) + "\n");
+
+    return file;
+}
+
+
+/**
+ * @param dir the directory of the regressions of the property
+ * @returns the regressions saved, by file name
+ */
+export const readRegressions = <A>(dir: string) : [ string, Failure<A> ][] => {
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+        .filter(file => file.endsWith(".json"))
+        .sort()
+        .map(file => [ file, JSON.parse(fs.readFileSync(path.join(dir, file), "utf8")) ]);
+}
+
+
+/// Returns the error message if the property does not hold for the actions
+const errorOf = async <A>(property: Property<A>, actions: A[]) : Promise<string | undefined> => {
+    try {
+        await property.run(actions);
+        return undefined;
+    } catch (error: any) {
+        return error.message ?? String(error);
+    }
+}
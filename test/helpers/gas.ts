@@ -0,0 +1,78 @@
+import fs from "fs";
+import path from "path";
+
+
+/// The gas used by each scenario
+export type GasResults = { [scenario: string]: number };
+
+export type GasBaseline = {
+    threshold: number,      // the max increase of the gas of a scenario, as a fraction of the baseline (e.g. 0.02 for 2%)
+    scenarios: GasResults,
+}
+
+export type GasRegression = {
+    scenario: string,
+    baseline: number,
+    gas: number,
+    increase: number,       // as a fraction of the baseline
+}
+
+/// The committed baseline of the gas benchmarks
+export const GAS_BASELINE_FILE = path.join(__dirname, "..", "gas_tests", "gas_baseline.json");
+
+/// The gas measured by the last run of the gas benchmarks
+export const GAS_RESULTS_FILE = "gas-results.json";
+
+export const DEFAULT_GAS_THRESHOLD = 0.02;
+
+
+/**
+ * @param file the baseline file
+ * @returns the baseline, or undefined if the file does not exist
+ */
+export const readGasBaseline = (file: string) : GasBaseline | undefined => {
+
+    if (!fs.existsSync(file)) return undefined;
+
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+
+/**
+ * Writes the gas of the scenarios, sorted by name, to a JSON file.
+ * @param file the baseline or results file
+ * @param content the baseline or the results
+ */
+export const writeGasFile = (file: string, content: GasBaseline | GasResults) => {
+
+    const sorted = (results: GasResults) => Object.fromEntries(Object.entries(results).sort(([a], [b]) => a.localeCompare(b)));
+    const json = "scenarios" in content ? { ...content, scenarios: sorted(content.scenarios as GasResults) } : sorted(content as GasResults);
+
+    fs.writeFileSync(file, JSON.stringify(json, null, 2) + "\n");
+}
+
+
+/**
+ * @param baseline the committed baseline
+ * @param results the gas measured
+ * @param threshold the max increase of the gas of a scenario, as a fraction of the baseline
+ * @returns the scenarios using more gas than the baseline plus the threshold, and the scenarios without a baseline
+ */
+export const compareGas = (baseline: GasBaseline, results: GasResults, threshold = baseline.threshold) => {
+
+    const regressions : GasRegression[] = [];
+    const missing : string[] = [];
+
+    for (const [ scenario, gas ] of Object.entries(results)) {
+        const baselineGas = baseline.scenarios[scenario];
+        if (baselineGas === undefined) {
+            missing.push(scenario);
+            continue;
+        }
+
+        const increase = (gas - baselineGas) / baselineGas;
+        if (increase > threshold) regressions.push({ scenario, baseline: baselineGas, gas, increase });
+    }
+
+    return { regressions, missing };
+}
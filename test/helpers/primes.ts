@@ -0,0 +1,44 @@
+
+/**
+ * Sieve of Eratosthenes.
+ * @param limit the largest number to sieve
+ * @returns an array where the item at index n is 1 if n is prime, 0 otherwise
+ */
+export const sieve = (limit: number) : Uint8Array => {
+    const isPrime = new Uint8Array(limit + 1).fill(1);
+    isPrime[0] = 0;
+    if (limit >= 1) isPrime[1] = 0;
+
+    for (let i = 2; i * i <= limit; i++) {
+        if (!isPrime[i]) continue;
+        for (let j = i * i; j <= limit; j += i) isPrime[j] = 0;
+    }
+
+    return isPrime;
+}
+
+
+/**
+ * Reference primality check backed by a sieve.
+ * Numbers up to the sieve limit are looked up, larger numbers are checked by trial division with the sieved primes.
+ * @param limit the sieve limit. Numbers up to limit^2 can be checked.
+ * @returns a function that returns true if the given number is prime
+ */
+export const referencePrimes = (limit: number) => {
+    const isPrime = sieve(limit);
+    const primes : bigint[] = [];
+    isPrime.forEach((prime, n) => { if (prime) primes.push(BigInt(n)) });
+
+    return (n: bigint | number) : boolean => {
+        n = BigInt(n);
+        if (n <= BigInt(limit)) return isPrime[Number(n)] === 1;
+        if (n > BigInt(limit) * BigInt(limit)) throw new Error(`${n} is too large for a sieve up to ${limit}`);
+
+        for (const p of primes) {
+            if (p * p > n) break;
+            if (n % p === 0n) return false;
+        }
+
+        return true;
+    }
+}
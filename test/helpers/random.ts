@@ -0,0 +1,13 @@
+/**
+ * Seeded pseudo-random number generator (mulberry32), to make random tests reproducible.
+ * @param seed the seed
+ * @returns a function returning a random number in [0, 1)
+ */
+export const random = (seed: number) => {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+}
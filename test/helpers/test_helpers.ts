@@ -1,7 +1,6 @@
 import { ethers } from "hardhat";
 import {  BigNumber } from "ethers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
-import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
 
 
 export type Bid = { price: number, timestamp: number }
@@ -42,82 +41,10 @@ export const getLastBlockTimestamp = async () => {
 }
 
 /**
- * @returns an object containing an instance of the MyNFT contract
+ * @param from the first number of the range
+ * @param to the last number of the range (included)
+ * @returns the array of numbers from `from` to `to`
  */
-export const deployMyNFT = async (MAX_SUPPLY: number = 20) => {
-
-    const [ owner, user0, user1, user2 ] = await ethers.getSigners();
-
-    const FEE_NUMERATOR = 250; // 2.5% fee
-    const DISCOUNT_PERCENTAGE = 2000; // 20% discount
-    const MINT_PRICE = toWei( 0.01 ); // 0.01 ETH
-
-    const MyNFT = await ethers.getContractFactory("MyNFT")
-    const myNFT = await MyNFT.deploy(MAX_SUPPLY, FEE_NUMERATOR, DISCOUNT_PERCENTAGE, MINT_PRICE)
-
-    await myNFT.enablePublicMint(true)
-
-    // enable address whitelist
-
-    // (1) define the values in the Merkle tree as the whitelisted addresses
-    // each leaf in the Merkle tree includes the whitelisted address and associated index
-    const values = [
-        [user0.address, 0],
-        [user1.address, 1]
-    ];
-
-    // (2) build the Merkle tree
-    const tree = StandardMerkleTree.of(values, ["address", "uint256"]);
-
-    // set the Merkle root for the whitelisted addresses
-    await myNFT.setWhiteListMerkleRoot(tree.root)
-
-    return { myNFT, tree, owner, user0, user1, user2 };
+export const range = (from: number, to: number) : number[] => {
+    return Array.from({ length: Math.max(0, to - from + 1) }, (_, i) => from + i);
 }
-
-export const deploySimpleNFT = async (MAX_SUPPLY: number = 20) => {
-
-    const SimpleNFT = await ethers.getContractFactory("SimpleNFT")
-    const simpleNFT = await SimpleNFT.deploy()
-
-    return { simpleNFT };
-}
-
-export const deployTokenFarm = async () => {
-
-   const  { myNFT, owner, user0, user1, user2 } = await deployMyNFT()
-
-    const RewardToken = await ethers.getContractFactory("RewardToken")
-    const rewardToken = await RewardToken.deploy()
-
-    const TokenFarm = await ethers.getContractFactory("TokenFarm")
-    const tokenFarm = await TokenFarm.deploy(myNFT.address, rewardToken.address)
-
-    await rewardToken.transferOwnership(tokenFarm.address)
-
-    // Mint 2 NFTs to user0
-    const fullPrice = await myNFT.MINT_PRICE()
-    await myNFT.mint(user0.address, 0, [], {value: fullPrice});
-    await myNFT.mint(user0.address, 1, [], {value: fullPrice});
-
-    return { tokenFarm, myNFT, rewardToken, owner, user0, user1, user2 };
-}
-
-
-
-
-/**
- * @returns an object containing an instance of the PrimeNftCounter contract
- */
-
-export const deployPrimeNftCounter = async () => {
-
-    const  { myNFT, owner, user0, user1, user2 } = await deployMyNFT(1000)
- 
-     const PrimeNftCounter = await ethers.getContractFactory("PrimeNftCounter")
-     const primeNftCounter = await PrimeNftCounter.deploy(myNFT.address)
- 
-     
-     return { primeNftCounter, myNFT, owner, user0, user1, user2 };
- }
- 
\ No newline at end of file
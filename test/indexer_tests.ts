@@ -0,0 +1,329 @@
+import { loadFixture, mine, takeSnapshot } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { day, toWei, waitSeconds } from "./helpers/test_helpers";
+import { Fixture, fixture, migrateFarmAfterDelay, mintNFTs, proofFor } from "./helpers/fixtures";
+import {
+    IndexedContracts, newStore, queryEvents, queryMints, queryRewardSupply, queryStakedTokens, queryStakingHistory,
+    queryTotalClaimed, readStore, syncStore, writeStore
+} from "../scripts/indexer";
+import { TokenFarmUpgradeable } from "../typechain-types";
+
+
+describe("Indexer", function () {
+
+    // user0 and user1 are whitelisted, user0 staked the NFT 1 and holds the NFT 2
+    const deployStakedTokenFarm = fixture({ whitelist: [ "user0", "user1" ], holdings: { user0: [1, 2] }, staked: [1] });
+
+    /**
+     * @param deployment the fixture
+     * @returns the indexed contracts and an empty store indexing them from the genesis block
+     */
+    const newIndexer = async ({ myNFT, tokenFarm, rewardToken }: Fixture) => {
+        const contracts : IndexedContracts = { MyNFT: myNFT, TokenFarm: tokenFarm, RewardToken: rewardToken };
+        const { chainId } = await ethers.provider.getNetwork();
+
+        return { contracts, store: newStore(chainId, contracts) };
+    }
+
+
+    describe("MyNFT", function () {
+
+        it("indexes the mints with the price paid", async function () {
+            const deployment = await loadFixture(deployStakedTokenFarm);
+            const { myNFT, whitelist, user0, user1 } = deployment;
+
+            // user1 mints 3 NFTs at full price and 1 NFT at the whitelist price
+            await mintNFTs(myNFT, user1.address, 3);
+            await myNFT.mint(user1.address, 1, proofFor(whitelist, user1.address), { value: toWei(0.008) });
+
+            const { contracts, store } = await newIndexer(deployment);
+            await syncStore(store, contracts);
+
+            const mints = queryMints(store);
+            expect( mints.map(mint => mint.tokenId) ).to.be.deep.equal( [ "1", "2", "3", "4", "5", "6" ] )
+            expect( queryMints(store, user0.address).map(mint => mint.tokenId) ).to.be.deep.equal( [ "1", "2" ] )
+
+            const prices = queryMints(store, user1.address).map(mint => mint.pricePaid);
+            expect( prices ).to.be.deep.equal( [ toWei(0.01), toWei(0.01), toWei(0.01), toWei(0.008) ].map(price => price.toString()) )
+
+            const { timestamp } = await ethers.provider.getBlock("latest");
+            expect( mints[5].timestamp ).to.be.equal( timestamp )
+        });
+
+        it("indexes the config events and the withdrawals", async function () {
+            const deployment = await loadFixture(deployStakedTokenFarm);
+            const { myNFT, whitelist, owner } = deployment;
+
+            await myNFT.withdraw(owner.address, 0);
+
+            const { contracts, store } = await newIndexer(deployment);
+            await syncStore(store, contracts);
+
+            const [ merkleRootSet ] = queryEvents(store, { contract: "MyNFT", event: "MerkleRootSet" });
+            expect( merkleRootSet.args.root ).to.be.equal( whitelist!.root )
+
+            const publicMint = queryEvents(store, { event: "PublicMintEnabledChanged" }).map(event => event.args.isEnabled);
+            expect( publicMint ).to.be.deep.equal( [ true, true ] )
+
+            const [ withdrawn ] = queryEvents(store, { contract: "MyNFT", event: "Withdrawn" });
+            expect( withdrawn.args.amount ).to.be.equal( toWei(0.02).toString() )
+        });
+    })
+
+    describe("TokenFarm and RewardToken", function () {
+
+        it("indexes who staked what and when", async function () {
+            const deployment = await loadFixture(deployStakedTokenFarm);
+            const { tokenFarm, myNFT, user0 } = deployment;
+
+            await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 2);
+            await waitSeconds(day);
+            await tokenFarm.connect(user0).withdraw(1);
+
+            const { contracts, store } = await newIndexer(deployment);
+            await syncStore(store, contracts);
+
+            const history = queryStakingHistory(store, { staker: user0.address });
+            expect( history.map(({ tokenId, action }) => [ tokenId, action ]) ).to.be.deep.equal([
+                [ "1", "stake" ],
+                [ "2", "stake" ],
+                [ "1", "withdraw" ],
+            ])
+            expect( history[2].timestamp - history[1].timestamp ).to.be.closeTo( day, 5 )
+
+            expect( queryStakingHistory(store, { tokenId: "2" }) ).to.have.length( 1 )
+            expect( [ ...queryStakedTokens(store) ] ).to.be.deep.equal( [ [ "2", user0.address ] ] )
+        });
+
+        it("indexes the emergency withdrawals", async function () {
+            const deployment = await loadFixture(deployStakedTokenFarm);
+            const { tokenFarm, user0 } = deployment;
+
+            await tokenFarm.connect(user0).emergencyWithdraw();
+
+            const { contracts, store } = await newIndexer(deployment);
+            await syncStore(store, contracts);
+
+            expect( queryStakingHistory(store).map(action => action.action) ).to.be.deep.equal( [ "stake", "emergencyWithdraw" ] )
+            expect( queryStakedTokens(store).size ).to.be.equal( 0 )
+        });
+
+        it("indexes the stakes migrated to a new farm", async function () {
+            const deployment = await loadFixture(deployStakedTokenFarm);
+            const { tokenFarm, myNFT, rewardToken, forwarder, user0 } = deployment;
+
+            const farm = await upgrades.deployProxy(
+                await ethers.getContractFactory("TokenFarmUpgradeable"),
+                [ myNFT.address, rewardToken.address, toWei(10), forwarder.address ],
+                { kind: "transparent" },
+            ) as TokenFarmUpgradeable;
+            const stakeReceipt = await (await ethers.getContractFactory("StakeReceipt")).deploy(myNFT.address, farm.address);
+            await farm.setReceiptToken(stakeReceipt.address);
+            await migrateFarmAfterDelay(tokenFarm, farm, rewardToken, { log: () => {} });
+
+            const { contracts, store } = await newIndexer(deployment);
+            await syncStore(store, contracts);
+
+            const history = queryStakingHistory(store);
+            expect( history.map(({ tokenId, staker, action }) => [ tokenId, staker, action ]) ).to.be.deep.equal([
+                [ "1", user0.address, "stake" ],
+                [ "1", user0.address, "migrate" ],
+            ])
+            expect( queryStakedTokens(store).size ).to.be.equal( 0 )
+        });
+
+        it("indexes a farm behind a proxy, skipping the events of the proxy", async function () {
+            const deployment = await loadFixture(deployStakedTokenFarm);
+            const { tokenFarm, myNFT, rewardToken, forwarder, user0 } = deployment;
+
+            const farm = await upgrades.deployProxy(
+                await ethers.getContractFactory("TokenFarmUpgradeable"),
+                [ myNFT.address, rewardToken.address, toWei(10), forwarder.address ],
+                { kind: "transparent" },
+            ) as TokenFarmUpgradeable;
+            const stakeReceipt = await (await ethers.getContractFactory("StakeReceipt")).deploy(myNFT.address, farm.address);
+            await farm.setReceiptToken(stakeReceipt.address);
+            await migrateFarmAfterDelay(tokenFarm, farm, rewardToken, { log: () => {} });
+
+            // the proxy emits Upgraded and AdminChanged, which are not in the ABI of TokenFarm
+            const { contracts } = await newIndexer(deployment);
+            contracts.TokenFarm = await ethers.getContractAt("TokenFarm", farm.address);
+            const { chainId } = await ethers.provider.getNetwork();
+            const store = newStore(chainId, contracts);
+            await syncStore(store, contracts);
+
+            const history = queryStakingHistory(store);
+            expect( history.map(({ tokenId, staker, action }) => [ tokenId, staker, action ]) ).to.be.deep.equal([
+                [ "1", user0.address, "import" ],
+            ])
+            expect( [ ...queryStakedTokens(store) ] ).to.be.deep.equal( [ [ "1", user0.address ] ] )
+        });
+
+        it("indexes the rewards claimed and the reward supply", async function () {
+            const deployment = await loadFixture(deployStakedTokenFarm);
+            const { tokenFarm, rewardToken, user0, user1 } = deployment;
+
+            await waitSeconds(day);
+            await tokenFarm.connect(user0).claimAll();
+            await waitSeconds(day);
+            await tokenFarm.connect(user0).withdraw(1);
+
+            await rewardToken.connect(user0).burn(toWei(5));
+
+            const { contracts, store } = await newIndexer(deployment);
+            await syncStore(store, contracts);
+
+            expect( queryTotalClaimed(store) ).to.be.equal( await rewardToken.balanceOf(user0.address).then(balance => balance.add(toWei(5))) )
+            expect( queryTotalClaimed(store, user1.address) ).to.be.equal( 0 )
+            expect( queryRewardSupply(store) ).to.be.equal( await rewardToken.totalSupply() )
+        });
+    })
+
+    describe("sync", function () {
+
+        it("indexes the new blocks only", async function () {
+            const deployment = await loadFixture(deployStakedTokenFarm);
+            const { myNFT, user1 } = deployment;
+
+            const { contracts, store } = await newIndexer(deployment);
+            const first = await syncStore(store, contracts);
+
+            expect( first.fromBlock ).to.be.equal( 0 )
+            expect( first.toBlock ).to.be.equal( await ethers.provider.getBlockNumber() )
+
+            // nothing new to index
+            const second = await syncStore(store, contracts);
+            expect( second.newEvents ).to.be.equal( 0 )
+
+            await mintNFTs(myNFT, user1.address, 2);
+
+            const third = await syncStore(store, contracts);
+            expect( third.fromBlock ).to.be.equal( first.toBlock + 1 )
+            expect( third.newEvents ).to.be.equal( 2 )
+            expect( queryMints(store) ).to.have.length( 4 )
+        });
+
+        it("indexes the same events in batches of blocks", async function () {
+            const deployment = await loadFixture(deployStakedTokenFarm);
+
+            const { contracts, store } = await newIndexer(deployment);
+            await syncStore(store, contracts);
+
+            const batched = (await newIndexer(deployment)).store;
+            await syncStore(batched, contracts, { batchSize: 3 });
+
+            expect( batched.events ).to.be.deep.equal( store.events )
+        });
+
+        it("does not index the blocks without enough confirmations", async function () {
+            const deployment = await loadFixture(deployStakedTokenFarm);
+            const { myNFT, user1 } = deployment;
+
+            const { contracts, store } = await newIndexer(deployment);
+            await syncStore(store, contracts);
+
+            await mintNFTs(myNFT, user1.address, 1);
+
+            expect( (await syncStore(store, contracts, { confirmations: 2 })).newEvents ).to.be.equal( 0 )
+
+            await mine(2);
+
+            expect( (await syncStore(store, contracts, { confirmations: 2 })).newEvents ).to.be.equal( 1 )
+        });
+
+        it("resumes from the store saved to a file", async function () {
+            const deployment = await loadFixture(deployStakedTokenFarm);
+            const { myNFT, user1 } = deployment;
+
+            const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "hardhat.json");
+
+            const { contracts, store } = await newIndexer(deployment);
+            await syncStore(store, contracts);
+            writeStore(file, store);
+
+            await mintNFTs(myNFT, user1.address, 1);
+
+            const saved = readStore(file)!;
+            await syncStore(saved, contracts);
+
+            const fresh = (await newIndexer(deployment)).store;
+            await syncStore(fresh, contracts);
+
+            expect( saved ).to.be.deep.equal( fresh )
+            expect( readStore(path.join(path.dirname(file), "missing.json")) ).to.be.undefined
+        });
+
+        it("rejects a store of other contracts", async function () {
+            const deployment = await loadFixture(deployStakedTokenFarm);
+
+            const { contracts, store } = await newIndexer(deployment);
+            const otherNFT = await ethers.getContractAt("MyNFT", deployment.primeNftCounter.address);
+
+            await expect(
+                syncStore(store, { ...contracts, MyNFT: otherNFT })
+            ).to.be.rejectedWith("The store indexes MyNFT")
+
+            await expect(
+                syncStore({ ...store, chainId: 1 }, contracts)
+            ).to.be.rejectedWith("The store is for chain 1")
+        });
+    })
+
+    describe("reorgs", function () {
+
+        it("removes the events of the blocks no longer in the chain", async function () {
+            const deployment = await loadFixture(deployStakedTokenFarm);
+            const { myNFT, user0, user1 } = deployment;
+
+            const { contracts, store } = await newIndexer(deployment);
+            await syncStore(store, contracts);
+            const forkBlock = await ethers.provider.getBlockNumber();
+
+            // user0 mints in a block that is then replaced by a block where user1 mints
+            const snapshot = await takeSnapshot();
+            await mintNFTs(myNFT, user0.address, 1);
+            await mine(2);
+            await syncStore(store, contracts);
+            expect( queryMints(store, user0.address) ).to.have.length( 3 )
+
+            await snapshot.restore();
+            await mintNFTs(myNFT, user1.address, 1);
+
+            const result = await syncStore(store, contracts);
+
+            expect( result.rolledBackTo ).to.be.equal( forkBlock )
+            expect( result.fromBlock ).to.be.equal( forkBlock + 1 )
+            expect( queryMints(store, user0.address) ).to.have.length( 2 )
+            expect( queryMints(store, user1.address).map(mint => mint.tokenId) ).to.be.deep.equal( [ "3" ] )
+            expect( store.lastBlock!.hash ).to.be.equal( (await ethers.provider.getBlock("latest")).hash )
+        });
+
+        it("throws when the reorg is deeper than the recent blocks kept", async function () {
+            const deployment = await loadFixture(deployStakedTokenFarm);
+            const { myNFT, user0, user1 } = deployment;
+
+            const { contracts, store } = await newIndexer(deployment);
+            await syncStore(store, contracts);
+
+            const snapshot = await takeSnapshot();
+            await mintNFTs(myNFT, user0.address, 1);
+            await mine(3);
+            await syncStore(store, contracts, { reorgDepth: 2 });
+
+            await snapshot.restore();
+            await mintNFTs(myNFT, user1.address, 1);
+            await mine(3);
+
+            await expect(
+                syncStore(store, contracts, { reorgDepth: 2 })
+            ).to.be.rejectedWith("Reorg deeper than the last 2 blocks indexed")
+        });
+    })
+
+});
@@ -0,0 +1,288 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { day } from "./helpers/test_helpers";
+import { Fixture, fixture, NO_PROOF } from "./helpers/fixtures";
+import { checkProperty, Failure, Property, readRegressions, saveRegression, shrink } from "./helpers/fuzz";
+
+
+/// The random actions of the users on MyNFT and TokenFarm
+type Action =
+    | { type: "mint", user: number, quantity: number }
+    | { type: "stake", user: number, index: number }    // stakes the NFT at `index` (modulo) of the NFTs held by the user
+    | { type: "withdraw", user: number, index: number } // withdraws the NFT at `index` (modulo) of the NFTs staked by the user
+    | { type: "claim", user: number }
+    | { type: "wait", seconds: number }
+
+/// The expected state of the system after the actions
+type Model = {
+    supply: number,                 // the NFTs minted
+    holders: Map<number, number>,   // the user holding each NFT not staked
+    stakers: Map<number, number>,   // the user staking each NFT staked
+    stakeTime: number,              // the sum of the seconds each NFT was staked for
+    lastTimestamp: number,
+}
+
+
+describe("Invariants", function () {
+
+    // the sequences are reproducible with the same seed, set FUZZ_SEED, FUZZ_RUNS and FUZZ_STEPS to explore more
+    const options = {
+        seed: Number(process.env.FUZZ_SEED ?? 1),
+        runs: Number(process.env.FUZZ_RUNS ?? 5),
+        steps: Number(process.env.FUZZ_STEPS ?? 25),
+    };
+
+    const REGRESSIONS_DIR = path.join(__dirname, "regressions", "invariants");
+
+    // a small max supply, so that the random mints reach it
+    const deployFuzzedSystem = fixture({ maxSupply: 10 });
+
+    const USERS = 4;
+
+
+    /**
+     * @param random the random number generator
+     * @returns a random action of a random user
+     */
+    const generate : Property<Action>["generate"] = (random) => {
+        const user = random.int(0, USERS - 1);
+
+        switch (random.pick([ "mint", "stake", "stake", "withdraw", "claim", "wait" ])) {
+            case "mint": return { type: "mint", user, quantity: random.int(1, 3) };
+            case "stake": return { type: "stake", user, index: random.int(0, 9) };
+            case "withdraw": return { type: "withdraw", user, index: random.int(0, 9) };
+            case "claim": return { type: "claim", user };
+            default: return { type: "wait", seconds: random.int(1, 3 * day) };
+        }
+    }
+
+
+    /**
+     * @param action an action
+     * @returns the simpler versions of the action: the first user, the first NFT, one NFT minted, a shorter wait
+     */
+    const simplify : Property<Action>["simplify"] = (action) => {
+        switch (action.type) {
+            case "mint": return action.quantity > 1 ? [ { ...action, quantity: 1 } ] : [];
+            case "stake":
+            case "withdraw": return action.index > 0 ? [ { ...action, index: 0 } ] : [];
+            case "wait": return action.seconds > day ? [ { ...action, seconds: day } ] : [];
+            default: return [];
+        }
+    }
+
+
+    /**
+     * Runs the actions on a fresh deployment and checks the invariants after each action.
+     * @param actions the actions to run
+     */
+    const run = async (actions: Action[]) => {
+        const deployment = await loadFixture(deployFuzzedSystem);
+        const { myNFT, tokenFarm } = deployment;
+        const users = [ deployment.user0, deployment.user1, deployment.user2, deployment.user3 ];
+
+        const model : Model = { supply: 0, holders: new Map(), stakers: new Map(), stakeTime: 0, lastTimestamp: await time.latest() };
+        const maxSupply = (await myNFT.MAX_SUPPLY()).toNumber();
+        const mintPrice = await myNFT.MINT_PRICE();
+
+        /// Returns the NFT at `index` (modulo) of the NFTs of the user in the given map, or undefined if the user has none
+        const tokenOf = (tokens: Map<number, number>, user: number, index: number) => {
+            const tokenIds = [ ...tokens ].filter(([ , holder ]) => holder === user).map(([ tokenId ]) => tokenId).sort((a, b) => a - b);
+            return tokenIds.length > 0 ? tokenIds[index % tokenIds.length] : undefined;
+        }
+
+        for (const [ step, action ] of actions.entries()) {
+            const stakedBefore = model.stakers.size;
+
+            try {
+                switch (action.type) {
+                    case "mint": {
+                        const { user, quantity } = action;
+                        const mint = myNFT.connect(users[user]).mint(users[user].address, quantity, NO_PROOF, { value: mintPrice.mul(quantity) });
+
+                        // the mints over the max supply revert
+                        const remaining = maxSupply - model.supply;
+                        if (remaining === 0) {
+                            await expect( mint ).to.be.revertedWithCustomError(myNFT, "MaxSupplyReached");
+                            break;
+                        }
+                        if (quantity > remaining) {
+                            await expect( mint ).to.be.revertedWithCustomError(myNFT, "QuantityExceedsSupply").withArgs(quantity, remaining);
+                            break;
+                        }
+
+                        await mint;
+                        for (let i = 0; i < quantity; i++) model.holders.set(++model.supply, user);
+                        break;
+                    }
+                    case "stake": {
+                        const tokenId = tokenOf(model.holders, action.user, action.index);
+                        if (tokenId === undefined) break;
+
+                        const user = users[action.user];
+                        await myNFT.connect(user)["safeTransferFrom(address,address,uint256)"](user.address, tokenFarm.address, tokenId);
+                        model.holders.delete(tokenId);
+                        model.stakers.set(tokenId, action.user);
+                        break;
+                    }
+                    case "withdraw": {
+                        const tokenId = tokenOf(model.stakers, action.user, action.index);
+                        if (tokenId === undefined) break;
+
+                        await tokenFarm.connect(users[action.user]).withdraw(tokenId);
+                        model.stakers.delete(tokenId);
+                        model.holders.set(tokenId, action.user);
+                        break;
+                    }
+                    case "claim":
+                        await tokenFarm.connect(users[action.user]).claimAll();
+                        break;
+                    case "wait":
+                        await time.increase(action.seconds);
+                        break;
+                }
+
+                // the NFTs staked before the action farmed until the block of the action
+                const timestamp = await time.latest();
+                model.stakeTime += stakedBefore * (timestamp - model.lastTimestamp);
+                model.lastTimestamp = timestamp;
+
+                await checkInvariants(deployment, users.map(user => user.address), model, actions.length);
+            } catch (error: any) {
+                throw new Error(`step ${step} ${JSON.stringify(action)}: ${error.message}`);
+            }
+        }
+    }
+
+
+    /**
+     * Checks the invariants of MyNFT and TokenFarm against the model.
+     * @param deployment the contracts
+     * @param users the addresses of the users
+     * @param model the expected state
+     * @param steps the number of actions of the sequence, each action can round down the rewards by 1 wei per user
+     */
+    const checkInvariants = async (
+        { myNFT, tokenFarm, stakeReceipt, rewardToken }: Fixture,
+        users: string[],
+        model: Model,
+        steps: number,
+    ) => {
+
+        // the supply never exceeds the max supply
+        const supply = (await myNFT.totalSupply()).toNumber();
+        expect( supply, "totalSupply <= MAX_SUPPLY" ).to.be.lte( (await myNFT.MAX_SUPPLY()).toNumber() )
+        expect( supply, "totalSupply" ).to.be.equal( model.supply )
+
+        // each staked NFT is owned by the farm and has one owner in tokenToOwner and a receipt held by its staker, the other NFTs have none
+        for (let tokenId = 1; tokenId <= supply; tokenId++) {
+            const staker = model.stakers.get(tokenId);
+            const owner = await myNFT.ownerOf(tokenId);
+            const tokenOwner = await tokenFarm.tokenToOwner(tokenId);
+
+            if (staker !== undefined) {
+                expect( owner, `owner of staked NFT ${tokenId}` ).to.be.equal( tokenFarm.address )
+                expect( tokenOwner, `tokenToOwner(${tokenId})` ).to.be.equal( users[staker] )
+                expect( await stakeReceipt.ownerOf(tokenId), `owner of receipt ${tokenId}` ).to.be.equal( users[staker] )
+            } else {
+                expect( owner, `owner of NFT ${tokenId}` ).to.be.equal( users[model.holders.get(tokenId)!] )
+                expect( tokenOwner, `tokenToOwner(${tokenId})` ).to.be.equal( ethers.constants.AddressZero )
+            }
+        }
+
+        const stakedCounts = await Promise.all(users.map(user => tokenFarm.stakedCount(user)));
+        const stakedCount = stakedCounts.reduce((sum, count) => sum + count.toNumber(), 0);
+        expect( stakedCount, "staked NFTs of the users" ).to.be.equal( model.stakers.size )
+        expect( await tokenFarm.totalStaked(), "totalStaked" ).to.be.equal( model.stakers.size )
+        expect( await myNFT.balanceOf(tokenFarm.address), "NFTs held by the farm" ).to.be.equal( model.stakers.size )
+        expect( await stakeReceipt.totalSupply(), "receipts" ).to.be.equal( model.stakers.size )
+
+        const receipts = await Promise.all(users.map(user => stakeReceipt.balanceOf(user)));
+        expect( receipts.map(String), "receipts of the users" ).to.be.deep.equal( stakedCounts.map(String) )
+
+        // the rewards minted and claimable are the rewards of the time-weighted stake, rounded down
+        const claimable = await Promise.all(users.map(user => tokenFarm.claimableTokens(user)));
+        const rewards = claimable.reduce((sum, amount) => sum.add(amount), await rewardToken.totalSupply());
+        const expected = (await tokenFarm.rewardRate()).mul(model.stakeTime).div(day);
+
+        expect( rewards, "rewards minted and claimable" ).to.be.lte( expected )
+        expect( rewards, "rewards minted and claimable" ).to.be.gte( expected.sub((steps + 1) * users.length) )
+    }
+
+
+    const property : Property<Action> = { generate, run, simplify };
+
+
+    describe("MyNFT and TokenFarm", function () {
+
+        it("hold for random sequences of mint, stake, withdraw, claim and time jumps", async function () {
+            this.timeout(0);
+
+            const failure = await checkProperty(property, options);
+
+            if (failure) {
+                const file = saveRegression(REGRESSIONS_DIR, failure);
+                expect.fail(`Seed ${failure.seed} failed in ${failure.actions.length} steps, saved to ${file}\n${failure.error}`);
+            }
+        });
+
+        // the failing sequences shrunk and saved by the fuzzer
+        for (const [ file, regression ] of readRegressions<Action>(REGRESSIONS_DIR)) {
+            it(`regression ${file}`, async function () {
+                await run(regression.actions);
+            });
+        }
+    })
+
+    describe("harness", function () {
+
+        // fails when the sum of the numbers reaches 10
+        const sumProperty : Property<number> = {
+            generate: (random) => random.int(0, 5),
+            run: async (numbers) => {
+                const sum = numbers.reduce((a, b) => a + b, 0);
+                if (sum >= 10) throw new Error(`sum ${sum}`);
+            },
+            simplify: (n) => Array.from({ length: n }, (_, i) => i),
+        };
+
+        it("shrinks a failing sequence to a minimal one", async function () {
+            const failure = await checkProperty(sumProperty, { seed: 1, runs: 10, steps: 20 });
+
+            const sum = failure!.actions.reduce((a, b) => a + b, 0);
+            expect( sum ).to.be.equal( 10 )
+            expect( failure!.error ).to.be.equal( "sum 10" )
+
+            // no action can be removed
+            expect( failure!.actions.every(n => n > 0) ).to.be.true
+        });
+
+        it("keeps the sequence that fails", async function () {
+            const shrunk = await shrink(sumProperty, [ 3, 0, 4, 0, 5 ], "sum 12");
+
+            expect( shrunk.actions ).to.be.deep.equal( [ 1, 4, 5 ] )
+        });
+
+        it("does not fail when the property holds", async function () {
+            const failure = await checkProperty(sumProperty, { seed: 1, runs: 10, steps: 1 });
+
+            expect( failure ).to.be.undefined
+        });
+
+        it("saves and reads the regressions", async function () {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), "regressions-"));
+            const failure : Failure<number> = { seed: 7, actions: [ 5, 5 ], error: "sum 10" };
+
+            expect( path.basename(saveRegression(dir, failure)) ).to.be.equal( "seed-7.json" )
+            expect( readRegressions(dir) ).to.be.deep.equal( [ [ "seed-7.json", failure ] ] )
+            expect( readRegressions(path.join(dir, "missing")) ).to.be.deep.equal( [] )
+        });
+    })
+
+});
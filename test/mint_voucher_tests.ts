@@ -0,0 +1,252 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { day, getLastBlockTimestamp, toWei } from "./helpers/test_helpers";
+import { fixture, NO_PROOF } from "./helpers/fixtures";
+import { MintVoucher, myNFTDomain, randomVoucherNonce, recoverVoucherSigner, signMintVoucher } from "../scripts/mint_vouchers";
+
+
+describe("Mint vouchers", function () {
+
+    // the backend key signing the vouchers
+    const voucherSigner = ethers.Wallet.createRandom();
+
+    const deployVoucherNFT = async () => {
+        const deployment = await fixture({ whitelist: [ "user0", "user1" ] })();
+        await deployment.myNFT.setVoucherSigner(voucherSigner.address);
+
+        const { chainId } = await ethers.provider.getNetwork();
+        const domain = myNFTDomain(deployment.myNFT.address, chainId);
+
+        return { ...deployment, domain };
+    }
+
+    /**
+     * @param recipient the recipient of the NFT
+     * @param discount the discount, uses 10000 denominator (default 30%)
+     * @returns a voucher expiring in 1 day
+     */
+    const newVoucher = async (recipient: string, discount = 3000) : Promise<MintVoucher> => {
+        return { recipient, discount, expiry: await getLastBlockTimestamp() + day, nonce: randomVoucherNonce() };
+    }
+
+
+    describe("config", function () {
+
+        it("sets the voucher signer", async function () {
+            const { myNFT } = await loadFixture(deployVoucherNFT);
+
+            expect( await myNFT.voucherSigner() ).to.be.equal( voucherSigner.address )
+
+            await expect(
+                myNFT.setVoucherSigner(ethers.constants.AddressZero)
+            ).to.emit(myNFT, "VoucherSignerSet").withArgs(ethers.constants.AddressZero)
+        });
+
+        it("only the owner can set the voucher signer", async function () {
+            const { myNFT, user0 } = await loadFixture(deployVoucherNFT);
+
+            await expect(
+                myNFT.connect(user0).setVoucherSigner(user0.address)
+            ).to.be.revertedWith("Ownable: caller is not the owner")
+        });
+    })
+
+    describe("signing module", function () {
+
+        it("recovers the signer of a voucher", async function () {
+            const { domain, user2 } = await loadFixture(deployVoucherNFT);
+
+            const signed = await signMintVoucher(voucherSigner, domain, await newVoucher(user2.address));
+
+            expect( recoverVoucherSigner(domain, signed) ).to.be.equal( voucherSigner.address )
+        });
+
+        it("uses the EIP-712 domain of MyNFT", async function () {
+            const { myNFT, domain } = await loadFixture(deployVoucherNFT);
+
+            const eip712Domain = await myNFT.eip712Domain();
+
+            expect( eip712Domain.name ).to.be.equal( domain.name )
+            expect( eip712Domain.version ).to.be.equal( domain.version )
+            expect( eip712Domain.chainId ).to.be.equal( domain.chainId )
+            expect( eip712Domain.verifyingContract ).to.be.equal( domain.verifyingContract )
+        });
+    })
+
+    describe("mint", function () {
+
+        it("has the price discounted by the voucher discount", async function () {
+            const { myNFT, domain, user2 } = await loadFixture(deployVoucherNFT);
+
+            const { voucher, signature } = await signMintVoucher(voucherSigner, domain, await newVoucher(user2.address));
+
+            expect( await myNFT.priceForMintWithVoucher(voucher, signature) ).to.be.equal( toWei(0.007) )
+        });
+
+        it("mints one NFT to the recipient of the voucher", async function () {
+            const { myNFT, domain, user0, user2 } = await loadFixture(deployVoucherNFT);
+
+            const { voucher, signature } = await signMintVoucher(voucherSigner, domain, await newVoucher(user2.address));
+
+            // anyone can submit the voucher
+            await expect(
+                myNFT.connect(user0).mintWithVoucher(voucher, signature, { value: toWei(0.007) })
+            ).to.emit(myNFT, "VoucherUsed").withArgs(voucher.nonce, user2.address)
+
+            expect( await myNFT.balanceOf(user2.address) ).to.be.equal( 1 )
+            expect( await myNFT.isVoucherUsed(voucher.nonce) ).to.be.true
+        });
+
+        it("reverts when the discounted price is not paid", async function () {
+            const { myNFT, domain, user2 } = await loadFixture(deployVoucherNFT);
+
+            const { voucher, signature } = await signMintVoucher(voucherSigner, domain, await newVoucher(user2.address));
+
+            await expect(
+                myNFT.mintWithVoucher(voucher, signature, { value: toWei(0.006) })
+            ).to.be.revertedWithCustomError(myNFT, "WrongPrice").withArgs(toWei(0.006), toWei(0.007))
+        });
+
+        it("is valid in the allowlist phase", async function () {
+            const { myNFT, domain, user2 } = await loadFixture(deployVoucherNFT);
+
+            const now = await getLastBlockTimestamp();
+            const allowlistPhase = { start: now + day, end: now + 2 * day, maxPerWallet: 1, price: toWei(0.005) };
+            const publicPhase = { start: now + 2 * day, end: now + 3 * day, maxPerWallet: 1, price: toWei(0.02) };
+            await myNFT.setSalePhases(allowlistPhase, publicPhase);
+
+            const voucher = { ...(await newVoucher(user2.address, 2000)), expiry: now + 3 * day };
+            const signed = await signMintVoucher(voucherSigner, domain, voucher);
+
+            // the sale is closed
+            await expect(
+                myNFT.mintWithVoucher(signed.voucher, signed.signature, { value: toWei(0.004) })
+            ).to.be.revertedWithCustomError(myNFT, "SaleNotActive")
+
+            await time.increaseTo(allowlistPhase.start);
+
+            // user2 is not in the Merkle whitelist but can mint with the voucher
+            await expect(
+                myNFT.mint(user2.address, 1, NO_PROOF, { value: toWei(0.005) })
+            ).to.be.revertedWithCustomError(myNFT, "NotWhitelisted")
+
+            expect( await myNFT.priceForMintWithVoucher(signed.voucher, signed.signature) ).to.be.equal( toWei(0.004) )
+            await myNFT.mintWithVoucher(signed.voucher, signed.signature, { value: toWei(0.004) });
+
+            expect( await myNFT.balanceOf(user2.address) ).to.be.equal( 1 )
+        });
+
+        it("counts against the wallet limit in the public phase", async function () {
+            const { myNFT, domain, user2 } = await loadFixture(deployVoucherNFT);
+
+            const now = await getLastBlockTimestamp();
+            const unset = { start: 0, end: 0, maxPerWallet: 0, price: 0 };
+            const publicPhase = { start: now, end: now + day, maxPerWallet: 1, price: toWei(0.02) };
+            await myNFT.setSalePhases(unset, publicPhase);
+
+            await myNFT.mint(user2.address, 1, NO_PROOF, { value: toWei(0.02) });
+
+            const { voucher, signature } = await signMintVoucher(voucherSigner, domain, await newVoucher(user2.address));
+
+            await expect(
+                myNFT.mintWithVoucher(voucher, signature, { value: toWei(0.014) })
+            ).to.be.revertedWithCustomError(myNFT, "WalletLimitReached").withArgs(1)
+        });
+    })
+
+    describe("invalid vouchers", function () {
+
+        it("reverts when the voucher is expired", async function () {
+            const { myNFT, domain, user2 } = await loadFixture(deployVoucherNFT);
+
+            const expiry = await getLastBlockTimestamp() + day;
+            const { voucher, signature } = await signMintVoucher(voucherSigner, domain, { ...(await newVoucher(user2.address)), expiry });
+
+            await time.increaseTo(expiry);
+
+            // the voucher is still valid at the expiry time
+            await myNFT.priceForMintWithVoucher(voucher, signature);
+
+            await expect(
+                myNFT.mintWithVoucher(voucher, signature, { value: toWei(0.007) })
+            ).to.be.revertedWithCustomError(myNFT, "VoucherExpired").withArgs(voucher.expiry)
+        });
+
+        it("reverts when the voucher is replayed", async function () {
+            const { myNFT, domain, user2 } = await loadFixture(deployVoucherNFT);
+
+            const { voucher, signature } = await signMintVoucher(voucherSigner, domain, await newVoucher(user2.address));
+
+            await myNFT.mintWithVoucher(voucher, signature, { value: toWei(0.007) });
+
+            await expect(
+                myNFT.mintWithVoucher(voucher, signature, { value: toWei(0.007) })
+            ).to.be.revertedWithCustomError(myNFT, "VoucherAlreadyUsed").withArgs(voucher.nonce)
+
+            // a new voucher with the same nonce can't be used either
+            const replayed = await signMintVoucher(voucherSigner, domain, { ...voucher, discount: 0 });
+
+            await expect(
+                myNFT.mintWithVoucher(replayed.voucher, replayed.signature, { value: toWei(0.01) })
+            ).to.be.revertedWithCustomError(myNFT, "VoucherAlreadyUsed").withArgs(voucher.nonce)
+        });
+
+        it("reverts when the voucher is signed by the wrong signer", async function () {
+            const { myNFT, domain, user2 } = await loadFixture(deployVoucherNFT);
+
+            const { voucher, signature } = await signMintVoucher(ethers.Wallet.createRandom(), domain, await newVoucher(user2.address));
+
+            await expect(
+                myNFT.mintWithVoucher(voucher, signature, { value: toWei(0.007) })
+            ).to.be.revertedWithCustomError(myNFT, "InvalidVoucher")
+        });
+
+        it("reverts when the voucher is modified", async function () {
+            const { myNFT, domain, user2, user3 } = await loadFixture(deployVoucherNFT);
+
+            const { voucher, signature } = await signMintVoucher(voucherSigner, domain, await newVoucher(user2.address));
+
+            await expect(
+                myNFT.mintWithVoucher({ ...voucher, discount: 5000 }, signature, { value: toWei(0.005) })
+            ).to.be.revertedWithCustomError(myNFT, "InvalidVoucher")
+
+            await expect(
+                myNFT.mintWithVoucher({ ...voucher, recipient: user3.address }, signature, { value: toWei(0.007) })
+            ).to.be.revertedWithCustomError(myNFT, "InvalidVoucher")
+        });
+
+        it("reverts when the voucher is signed for another contract", async function () {
+            const { myNFT, domain, user2 } = await loadFixture(deployVoucherNFT);
+
+            const otherDomain = { ...domain, verifyingContract: ethers.Wallet.createRandom().address };
+            const { voucher, signature } = await signMintVoucher(voucherSigner, otherDomain, await newVoucher(user2.address));
+
+            await expect(
+                myNFT.mintWithVoucher(voucher, signature, { value: toWei(0.007) })
+            ).to.be.revertedWithCustomError(myNFT, "InvalidVoucher")
+        });
+
+        it("reverts when the vouchers are disabled", async function () {
+            const { myNFT, domain, user2 } = await loadFixture(deployVoucherNFT);
+
+            const { voucher, signature } = await signMintVoucher(voucherSigner, domain, await newVoucher(user2.address));
+            await myNFT.setVoucherSigner(ethers.constants.AddressZero);
+
+            await expect(
+                myNFT.mintWithVoucher(voucher, signature, { value: toWei(0.007) })
+            ).to.be.revertedWithCustomError(myNFT, "InvalidVoucher")
+        });
+
+        it("reverts when the signature is malformed", async function () {
+            const { myNFT, user2 } = await loadFixture(deployVoucherNFT);
+
+            await expect(
+                myNFT.mintWithVoucher(await newVoucher(user2.address), "0x1234", { value: toWei(0.007) })
+            ).to.be.revertedWithCustomError(myNFT, "InvalidVoucher")
+        });
+    })
+
+});
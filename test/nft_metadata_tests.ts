@@ -0,0 +1,151 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+
+import { range } from "./helpers/test_helpers";
+import { fixture } from "./helpers/fixtures";
+
+
+describe("NFT metadata", function () {
+
+    // user0 holds the NFTs from 1 to 8
+    const deployMintedNFT = fixture({ holdings: { user0: range(1, 8) } });
+
+    const placeholderURI = "ipfs://placeholder.json";
+    const baseURI = "ipfs://metadata/";
+
+    /**
+     * Decodes a base64 JSON data URI
+     * @param uri the data URI returned by tokenURI
+     * @returns the JSON object
+     */
+    const decodeDataURI = (uri: string) => {
+        const prefix = "data:application/json;base64,";
+        expect( uri.startsWith(prefix) ).to.be.true
+
+        return JSON.parse(Buffer.from(uri.slice(prefix.length), "base64").toString("utf8"));
+    }
+
+
+    describe("before the reveal", function () {
+
+        it("has the placeholder URI for all tokens", async function () {
+            const { myNFT } = await loadFixture(deployMintedNFT);
+
+            expect( await myNFT.tokenURI(1) ).to.be.equal( "" )
+
+            await myNFT.setPlaceholderURI(placeholderURI);
+            await myNFT.setBaseURI(baseURI);
+            await myNFT.setOnChainMetadata(true);
+
+            expect( await myNFT.tokenURI(1) ).to.be.equal( placeholderURI )
+            expect( await myNFT.tokenURI(8) ).to.be.equal( placeholderURI )
+        });
+
+        it("reverts for tokens not minted", async function () {
+            const { myNFT } = await loadFixture(deployMintedNFT);
+
+            await expect( myNFT.tokenURI(9) ).to.be.revertedWith("ERC721: invalid token ID")
+        });
+    })
+
+    describe("reveal", function () {
+
+        it("reveals the metadata", async function () {
+            const { myNFT } = await loadFixture(deployMintedNFT);
+
+            await expect( myNFT.reveal() ).to.emit(myNFT, "Revealed")
+
+            expect( await myNFT.revealed() ).to.be.true
+        });
+
+        it("cannot reveal twice", async function () {
+            const { myNFT } = await loadFixture(deployMintedNFT);
+
+            await myNFT.reveal();
+
+            await expect( myNFT.reveal() ).to.be.revertedWithCustomError(myNFT, "AlreadyRevealed")
+        });
+
+        it("only the owner can reveal and set the metadata URIs", async function () {
+            const { myNFT, user0 } = await loadFixture(deployMintedNFT);
+
+            await expect( myNFT.connect(user0).reveal() ).to.be.revertedWith("Ownable: caller is not the owner")
+            await expect( myNFT.connect(user0).setBaseURI(baseURI) ).to.be.revertedWith("Ownable: caller is not the owner")
+            await expect( myNFT.connect(user0).setPlaceholderURI(placeholderURI) ).to.be.revertedWith("Ownable: caller is not the owner")
+            await expect( myNFT.connect(user0).setOnChainMetadata(true) ).to.be.revertedWith("Ownable: caller is not the owner")
+        });
+    })
+
+    describe("base URI", function () {
+
+        it("has the base URI followed by the tokenID", async function () {
+            const { myNFT } = await loadFixture(deployMintedNFT);
+
+            await expect( myNFT.setBaseURI(baseURI) ).to.emit(myNFT, "BaseURISet").withArgs(baseURI)
+            await myNFT.reveal();
+
+            expect( await myNFT.baseURI() ).to.be.equal( baseURI )
+            expect( await myNFT.tokenURI(1) ).to.be.equal( `${baseURI}1` )
+            expect( await myNFT.tokenURI(8) ).to.be.equal( `${baseURI}8` )
+        });
+
+        it("has an empty URI when the base URI is not set", async function () {
+            const { myNFT } = await loadFixture(deployMintedNFT);
+
+            await myNFT.reveal();
+
+            expect( await myNFT.tokenURI(1) ).to.be.equal( "" )
+        });
+    })
+
+    describe("on-chain metadata", function () {
+
+        it("has a base64 JSON data URI", async function () {
+            const { myNFT } = await loadFixture(deployMintedNFT);
+
+            await myNFT.setBaseURI(baseURI);
+            await expect( myNFT.setOnChainMetadata(true) ).to.emit(myNFT, "OnChainMetadataSet").withArgs(true)
+            await myNFT.reveal();
+
+            const metadata = decodeDataURI( await myNFT.tokenURI(7) );
+
+            expect( metadata ).to.be.deep.equal({
+                name: "My NFT Token #7",
+                description: "My NFT Token #7 of 20",
+                attributes: [
+                    { trait_type: "Prime", value: "Yes" },
+                    { display_type: "number", trait_type: "Token ID", value: 7 },
+                ],
+            })
+        });
+
+        it("has the prime attribute for prime tokenIDs", async function () {
+            const { myNFT } = await loadFixture(deployMintedNFT);
+
+            await myNFT.setOnChainMetadata(true);
+            await myNFT.reveal();
+
+            const primes = [ 2, 3, 5, 7 ];
+            for (const id of range(1, 8)) {
+                const { attributes } = decodeDataURI( await myNFT.tokenURI(id) );
+                const prime = attributes.find((attribute: any) => attribute.trait_type === "Prime");
+
+                expect( prime.value ).to.be.equal( primes.includes(id) ? "Yes" : "No" )
+            }
+        });
+
+        it("goes back to the base URI when on-chain metadata is disabled", async function () {
+            const { myNFT } = await loadFixture(deployMintedNFT);
+
+            await myNFT.setBaseURI(baseURI);
+            await myNFT.setOnChainMetadata(true);
+            await myNFT.reveal();
+
+            await myNFT.setOnChainMetadata(false);
+
+            expect( await myNFT.tokenURI(3) ).to.be.equal( `${baseURI}3` )
+        });
+    })
+
+});
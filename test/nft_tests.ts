@@ -1,13 +1,15 @@
 import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 
 import { expect } from "chai";
+import { BigNumber, ContractTransaction } from "ethers";
 
-import { deployMyNFT, toUnits, toWei } from "./helpers/test_helpers";
-import { formatUnits } from "ethers/lib/utils";
+import { deployMyNFT, fixture, mintNFTs, NO_PROOF, proofFor } from "./helpers/fixtures";
 
 
 describe("NFT", function () {
 
+    const deployWhitelistWithAllowance = fixture({ whitelist: [ { user: "user0", allowance: 3 }, "user1" ] });
+
     describe("ERC721", function () {
 
         describe("config", function () {
@@ -18,9 +20,9 @@ describe("NFT", function () {
             });
 
             it("has Merkle root for the whitelist", async function () {
-                const { myNFT, tree } = await loadFixture(deployMyNFT);
+                const { myNFT, whitelist } = await loadFixture(deployMyNFT);
 
-                expect (await myNFT.merkleRoot() ).to.be.equal(tree.root)
+                expect (await myNFT.merkleRoot() ).to.be.equal(whitelist!.root)
             });
         })
 
@@ -39,16 +41,13 @@ describe("NFT", function () {
                 const fullPrice = await myNFT.MINT_PRICE()
 
                 // Mint 20 NFT at full price
-                for await (let i of Array.from({length: 20}, (_, i) => i)) {
-                    
-                    await myNFT.mint(user1.address, 0, [], {value: fullPrice});
-                }
-                
+                await mintNFTs(myNFT, user1.address, 20);
+
                 expect(await myNFT.totalSupply()).to.be.equal( 20 );
 
                 // Minting more then the max supply reverts
                 await expect( 
-                    myNFT.mint(user1.address, 0, [], {value: fullPrice})
+                    myNFT.mint(user1.address, 1, NO_PROOF, {value: fullPrice})
                 ).to.be.revertedWithCustomError(myNFT, "MaxSupplyReached")
             });
         })
@@ -56,29 +55,31 @@ describe("NFT", function () {
         describe("Merkle tree", function () {
 
             it("is a whitelisted addres when a valid proof is provided", async function () {
-                const { myNFT, tree, user1, user2} = await loadFixture(deployMyNFT);
+                const { myNFT, whitelist, user1, user2} = await loadFixture(deployMyNFT);
 
                 // Generate proof for user1
-                let proof;
-                for (const [i, v] of tree.entries()) {
-                    if (v[0] === user1.address) {
-                        proof = tree.getProof(i);
-                        break;
-                    }
-                }
+                const whitelistProof = proofFor(whitelist, user1.address);
 
                 // Verify user1 address is included in the whitelisted set
-                expect (await myNFT.isWhitelistedAddress(user1.address, proof, 1) ).to.be.true
+                expect (await myNFT.isWhitelistedAddress(user1.address, whitelistProof) ).to.be.true
                   
                 // Verify user2 address is not included in the whitelisted set
-                expect (await myNFT.isWhitelistedAddress(user2.address, proof, 2) ).to.be.false
+                expect (await myNFT.isWhitelistedAddress(user2.address, { ...whitelistProof, index: 2 }) ).to.be.false
             });
 
             it("is not a whitelisted address when a proof is not provided", async function () {
                 const { myNFT, user2} = await loadFixture(deployMyNFT);
 
                 // Verify user2 address is not included in the whitelisted set
-                expect (await myNFT.isWhitelistedAddress(user2.address, [], 1) ).to.be.false
+                expect (await myNFT.isWhitelistedAddress(user2.address, { ...NO_PROOF, index: 1 }) ).to.be.false
+            });
+
+            it("is not a whitelisted address when the allowance is not the one in the leaf", async function () {
+                const { myNFT, whitelist, user1 } = await loadFixture(deployMyNFT);
+
+                const whitelistProof = proofFor(whitelist, user1.address);
+
+                expect (await myNFT.isWhitelistedAddress(user1.address, { ...whitelistProof, allowance: 5 }) ).to.be.false
             });
 
         })
@@ -86,19 +87,13 @@ describe("NFT", function () {
         describe("Whitelist", function () {
 
             it("apply discount to whitelisted address", async function () {
-                const { myNFT, tree, user0, user1, user2} = await loadFixture(deployMyNFT);
+                const { myNFT, whitelist, user0, user1, user2} = await loadFixture(deployMyNFT);
 
                 // Generate proof for user1
-                let whitelistProof;
-                for (const [i, v] of tree.entries()) {
-                    if (v[0] === user1.address) {
-                        whitelistProof = tree.getProof(i);
-                        break;
-                    }
-                }
+                const whitelistProof = proofFor(whitelist, user1.address);
 
                 const fullPrice = await myNFT.MINT_PRICE()
-                const [ myPrice, whitelisted ] = await myNFT.priceForMint(user1.address, whitelistProof, 1);
+                const [ myPrice, whitelisted ] = await myNFT.priceForMint(user1.address, whitelistProof);
                 const discountedPrice = fullPrice.mul(8).div(10) // 20% discount
 
                 expect( myPrice ).to.be.equal( discountedPrice )
@@ -111,33 +106,27 @@ describe("NFT", function () {
             });
 
             it("does not apply discount to non whitelisted address", async function () {
-                const { myNFT, tree, user2} = await loadFixture(deployMyNFT);
+                const { myNFT, whitelist, user2} = await loadFixture(deployMyNFT);
                 const fullPrice = await myNFT.MINT_PRICE()
-                const [myPrice, whitelisted] = await myNFT.priceForMint(user2.address, [], 2);
+                const [myPrice, whitelisted] = await myNFT.priceForMint(user2.address, NO_PROOF);
 
                 expect( myPrice ).to.be.equal( fullPrice )
 
                  // Mint 1 NFT at full price
-                await myNFT.mint(user2.address, 0, [], {value: fullPrice});
+                await myNFT.mint(user2.address, 1, NO_PROOF, {value: fullPrice});
 
                 // verity that have 1 NFT
                 expect( await myNFT.balanceOf(user2.address) ) .to.be.equal( 1 )
             });
 
             it("cannot mint again to a whitelisted address", async function () {
-                const { myNFT, tree, user1, user2 } = await loadFixture(deployMyNFT);
+                const { myNFT, whitelist, user1, user2 } = await loadFixture(deployMyNFT);
 
                 // Generate proof for user1
-                let whitelistProof;
-                for (const [i, v] of tree.entries()) {
-                    if (v[0] === user1.address) {
-                        whitelistProof = tree.getProof(i);
-                        break;
-                    }
-                }
+                const whitelistProof = proofFor(whitelist, user1.address);
 
                 const fullPrice = await myNFT.MINT_PRICE()
-                const [ myPrice, whitelisted ] = await myNFT.priceForMint(user1.address, whitelistProof, 1);
+                const [ myPrice, whitelisted ] = await myNFT.priceForMint(user1.address, whitelistProof);
                 const discountedPrice = fullPrice.mul(8).div(10) // 20% discount
 
                 expect( myPrice ).to.be.equal( discountedPrice )
@@ -152,7 +141,102 @@ describe("NFT", function () {
 
             });
 
+            it("can mint up to the allowance of a whitelisted address", async function () {
+                const { myNFT, whitelist, user0 } = await loadFixture(deployWhitelistWithAllowance);
+
+                const whitelistProof = proofFor(whitelist, user0.address);
+                const [ discountedPrice ] = await myNFT.priceForMint(user0.address, whitelistProof);
+
+                // Mint the 3 NFTs of the allowance at discounted price
+                for (let i = 0; i < 3; i++) {
+                    await myNFT.mint(user0.address, 1, whitelistProof, {value: discountedPrice});
+                }
+
+                expect( await myNFT.balanceOf(user0.address) ).to.be.equal( 3 )
+                expect( await myNFT.whitelistMinted(whitelistProof.index) ).to.be.equal( 3 )
+
+                await expect( 
+                    myNFT.mint(user0.address, 1, whitelistProof, {value: discountedPrice})
+                ).to.be.revertedWithCustomError(myNFT, "AddressAlreadyMinted")
+            });
+
+
+        })
+
+        describe("Multi-quantity mint", function () {
+
+            it("mints many NFTs at the price of one NFT times the quantity", async function () {
+                const { myNFT, user2 } = await loadFixture(deployMyNFT);
+                const fullPrice = await myNFT.MINT_PRICE()
+
+                await myNFT.mint(user2.address, 5, NO_PROOF, {value: fullPrice.mul(5)});
+
+                expect( await myNFT.balanceOf(user2.address) ).to.be.equal( 5 )
+                expect( await myNFT.tokenId() ).to.be.equal( 5 )
+                expect( await myNFT.ownerOf(5) ).to.be.equal( user2.address )
+            });
+
+            it("reverts when the price for the quantity is not paid", async function () {
+                const { myNFT, user2 } = await loadFixture(deployMyNFT);
+                const fullPrice = await myNFT.MINT_PRICE()
 
+                await expect( 
+                    myNFT.mint(user2.address, 5, NO_PROOF, {value: fullPrice})
+                ).to.be.revertedWithCustomError(myNFT, "WrongPrice").withArgs(fullPrice, fullPrice.mul(5))
+            });
+
+            it("reverts when the quantity exceeds the remaining supply", async function () {
+                const { myNFT, user2 } = await loadFixture(deployMyNFT);
+                const fullPrice = await myNFT.MINT_PRICE()
+
+                await mintNFTs(myNFT, user2.address, 17);
+
+                await expect( 
+                    myNFT.mint(user2.address, 4, NO_PROOF, {value: fullPrice.mul(4)})
+                ).to.be.revertedWithCustomError(myNFT, "QuantityExceedsSupply").withArgs(4, 3)
+
+                // the remaining supply can be minted
+                await myNFT.mint(user2.address, 3, NO_PROOF, {value: fullPrice.mul(3)});
+                expect( await myNFT.totalSupply() ).to.be.equal( 20 )
+            });
+
+            it("reverts when the quantity is 0", async function () {
+                const { myNFT, user2 } = await loadFixture(deployMyNFT);
+
+                await expect( 
+                    myNFT.mint(user2.address, 0, NO_PROOF, {value: 0})
+                ).to.be.revertedWithCustomError(myNFT, "InvalidQuantity")
+            });
+
+            it("counts the quantity against the whitelist allowance", async function () {
+                const { myNFT, whitelist, user0 } = await loadFixture(deployWhitelistWithAllowance);
+
+                const whitelistProof = proofFor(whitelist, user0.address);
+                const [ discountedPrice ] = await myNFT.priceForMint(user0.address, whitelistProof);
+
+                await expect( 
+                    myNFT.mint(user0.address, 4, whitelistProof, {value: discountedPrice.mul(4)})
+                ).to.be.revertedWithCustomError(myNFT, "AddressAlreadyMinted")
+
+                await myNFT.mint(user0.address, 3, whitelistProof, {value: discountedPrice.mul(3)});
+                expect( await myNFT.balanceOf(user0.address) ).to.be.equal( 3 )
+            });
+
+            it("uses less gas to mint many NFTs than one at a time", async function () {
+                const { myNFT, user2, user3 } = await loadFixture(deployMyNFT);
+                const fullPrice = await myNFT.MINT_PRICE()
+
+                const gasUsed = async (tx: Promise<ContractTransaction>) => (await (await tx).wait()).gasUsed
+
+                let singleGas = BigNumber.from(0)
+                for (let i = 0; i < 5; i++) {
+                    singleGas = singleGas.add( await gasUsed(myNFT.mint(user2.address, 1, NO_PROOF, {value: fullPrice})) )
+                }
+
+                const batchGas = await gasUsed(myNFT.mint(user3.address, 5, NO_PROOF, {value: fullPrice.mul(5)}))
+
+                expect( batchGas ).to.be.lessThan(singleGas)
+            });
         })
 
     })
@@ -0,0 +1,228 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { day, toWei, waitSeconds } from "./helpers/test_helpers";
+import { NO_PROOF } from "./helpers/fixtures";
+import { deploySystem } from "../scripts/deploy";
+import { getDeployConfig } from "../scripts/deploy_config";
+import { formatOutput, formatTable } from "../scripts/ops";
+
+
+describe("Operator tasks", function () {
+
+    const log = () => {};
+
+    // the system deployed with the manifest in a temp file, user0 minted the NFTs 1 to 5, staked the NFT 2 and locked the NFT 3
+    const deployManifest = async () => {
+        const [ owner, user0 ] = await ethers.getSigners();
+        const manifest = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "deployments-")), "hardhat.json");
+        const deployment = await deploySystem(hre, { config: getDeployConfig("hardhat"), manifestFile: manifest, log });
+
+        const myNFT = await ethers.getContractAt("MyNFT", deployment.contracts.MyNFT!.address);
+        const tokenFarm = await ethers.getContractAt("TokenFarm", deployment.contracts.TokenFarm!.address);
+
+        await myNFT.enablePublicMint(true);
+        await myNFT.connect(user0).mint(user0.address, 5, NO_PROOF, { value: toWei(0.05) });
+        await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 2);
+        await myNFT.connect(user0).approve(tokenFarm.address, 3);
+        await tokenFarm.connect(user0).stakeWithLock(3, 73 * day);
+
+        return { manifest, myNFT, tokenFarm, owner, user0 };
+    }
+
+    /**
+     * Runs a task and captures what it prints
+     * @param name the name of the task
+     * @param args the arguments of the task
+     * @returns the value returned by the task and its output
+     */
+    const runTask = async (name: string, args: any) => {
+        const log = console.log;
+        const lines : string[] = [];
+        console.log = (line: string) => lines.push(line);
+
+        try {
+            const result = await hre.run(name, args);
+            return { result, output: lines.join("\n") };
+        } finally {
+            console.log = log;
+        }
+    }
+
+
+    describe("nft", function () {
+
+        it("shows the status of MyNFT", async function () {
+            const { manifest, myNFT } = await loadFixture(deployManifest);
+
+            const { result, output } = await runTask("nft:status", { manifest, json: true });
+
+            expect( JSON.parse(output) ).to.be.deep.equal( result )
+            expect( result ).to.deep.include({
+                address: myNFT.address,
+                totalSupply: 5,
+                maxSupply: 20,
+                mintPrice: "0.01",
+                phase: "Public",
+                publicMintEnabled: true,
+                merkleRoot: ethers.constants.HashZero,
+                balance: "0.05",
+            })
+        });
+
+        it("shows the mint price of the current sale phase", async function () {
+            const { manifest, myNFT } = await loadFixture(deployManifest);
+
+            const { timestamp } = await ethers.provider.getBlock("latest");
+            const closed = { start: 0, end: 0, maxPerWallet: 0, price: 0 };
+            await myNFT.setSalePhases(closed, { start: timestamp, end: timestamp + day, maxPerWallet: 2, price: toWei(0.03) });
+
+            const { result } = await runTask("nft:status", { manifest, json: true });
+            expect( result ).to.deep.include({ mintPrice: "0.03", phase: "Public" })
+        });
+
+        it("prints the status as a table", async function () {
+            const { manifest } = await loadFixture(deployManifest);
+
+            const { output } = await runTask("nft:status", { manifest });
+
+            expect( output ).to.match( /^field\s+value$/m )
+            expect( output ).to.match( /^totalSupply\s+5$/m )
+            expect( output ).to.match( /^publicMintEnabled\s+true$/m )
+        });
+
+        it("enables and disables the public mint", async function () {
+            const { manifest } = await loadFixture(deployManifest);
+
+            const { result } = await runTask("nft:enable-mint", { manifest, enabled: false });
+            expect( result.txHash ).to.match( /^0x/ )
+
+            expect( (await runTask("nft:status", { manifest, json: true })).result.publicMintEnabled ).to.be.false
+        });
+
+        it("simulates the owner actions without sending them in a dry run", async function () {
+            const { manifest, myNFT, owner } = await loadFixture(deployManifest);
+
+            const blockNumber = await ethers.provider.getBlockNumber();
+            const { result } = await runTask("nft:withdraw", { manifest, to: owner.address, amount: "0.02", dryRun: true });
+
+            expect( result ).to.be.deep.equal({
+                contract: myNFT.address,
+                action: "withdraw",
+                args: `${owner.address} ${toWei(0.02)}`,
+                dryRun: true,
+                txHash: "-",
+            })
+            expect( await ethers.provider.getBlockNumber() ).to.be.equal( blockNumber )
+            expect( await ethers.provider.getBalance(myNFT.address) ).to.be.equal( toWei(0.05) )
+        });
+
+        it("withdraws the ETH of MyNFT", async function () {
+            const { manifest, myNFT, user0 } = await loadFixture(deployManifest);
+
+            const balance = await user0.getBalance();
+            await runTask("nft:withdraw", { manifest, to: user0.address });
+
+            expect( await ethers.provider.getBalance(myNFT.address) ).to.be.equal( 0 )
+            expect( await user0.getBalance() ).to.be.equal( balance.add(toWei(0.05)) )
+        });
+
+        it("does not send the owner actions that would revert", async function () {
+            const { manifest } = await loadFixture(deployManifest);
+
+            const blockNumber = await ethers.provider.getBlockNumber();
+
+            await expect(
+                runTask("nft:withdraw", { manifest, to: ethers.constants.AddressZero })
+            ).to.be.rejectedWith("withdraw would revert: ZeroAddress")
+
+            expect( await ethers.provider.getBlockNumber() ).to.be.equal( blockNumber )
+        });
+    })
+
+    describe("farm", function () {
+
+        it("lists the NFTs staked by an address", async function () {
+            const { manifest, tokenFarm, user0 } = await loadFixture(deployManifest);
+
+            const { result } = await runTask("farm:stakes", { manifest, address: user0.address });
+
+            const { end } = await tokenFarm.tokenLocks(3);
+            expect( result ).to.be.deep.equal([
+                { tokenId: "2", lockedUntil: "-", boostRewards: "0.0" },
+                { tokenId: "3", lockedUntil: new Date(end.toNumber() * 1000).toISOString(), boostRewards: "0.0" },
+            ])
+        });
+
+        it("shows the rewards an address can claim", async function () {
+            const { manifest, tokenFarm, user0 } = await loadFixture(deployManifest);
+
+            await waitSeconds(day);
+
+            const { result } = await runTask("farm:claimable", { manifest, address: user0.address, json: true });
+
+            expect( result.staker ).to.be.equal( user0.address )
+            expect( result.staked ).to.be.equal( 2 )
+            expect( ethers.utils.parseUnits(result.claimable, 18) ).to.be.equal( await tokenFarm.claimableTokens(user0.address) )
+            expect( Number(result.claimable) ).to.be.closeTo( 20, 0.01 )
+        });
+
+        it("lists the positions of all the stakers", async function () {
+            const { manifest, myNFT, tokenFarm, owner, user0 } = await loadFixture(deployManifest);
+
+            await myNFT.mint(owner.address, 1, NO_PROOF, { value: toWei(0.01) });
+            await myNFT["safeTransferFrom(address,address,uint256)"](owner.address, tokenFarm.address, 6);
+
+            const { result, output } = await runTask("farm:positions", { manifest });
+
+            expect( result.map((position: any) => [ position.staker, position.tokenIds ]) ).to.be.deep.equal([
+                [ user0.address, "2 3" ],
+                [ owner.address, "6" ],
+            ])
+            expect( output.split("\n") ).to.have.length( 4 )
+        });
+    })
+
+    describe("counter", function () {
+
+        it("counts the NFTs with prime token IDs", async function () {
+            const { manifest, user0 } = await loadFixture(deployManifest);
+
+            const { result } = await runTask("counter:primes", { manifest, address: user0.address });
+
+            // user0 holds the NFTs 1, 4 and 5
+            expect( result ).to.be.deep.equal({ owner: user0.address, balance: 3, primes: 1, tokenIds: "5" })
+        });
+    })
+
+    describe("output", function () {
+
+        it("aligns the rows in columns", async function () {
+            const table = formatTable([ { name: "a", value: 1 }, { name: "long name", value: 22 } ]);
+
+            expect( table.split("\n") ).to.be.deep.equal([
+                "name       value",
+                "---------  -----",
+                "a          1",
+                "long name  22",
+            ])
+            expect( formatTable([]) ).to.be.equal( "(none)" )
+        });
+
+        it("prints JSON", async function () {
+            expect( JSON.parse(formatOutput([ { tokenId: "1" } ], true)) ).to.be.deep.equal( [ { tokenId: "1" } ] )
+        });
+
+        it("throws without a manifest", async function () {
+            await expect(
+                runTask("nft:status", { manifest: path.join(os.tmpdir(), "missing.json") })
+            ).to.be.rejectedWith("No deployment manifest at")
+        });
+    })
+
+});
@@ -1,13 +1,22 @@
+import { ethers } from "hardhat";
 import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 
 import { expect } from "chai";
+import { BigNumber } from "ethers";
 
-import { deployPrimeNftCounter, toUnits, toWei, waitSeconds } from "./helpers/test_helpers";
-import { formatUnits } from "ethers/lib/utils";
+import { range } from "./helpers/test_helpers";
+import { deployPrimeNftCounter, fixture, FixtureOptions, getSigners } from "./helpers/fixtures";
+import { referencePrimes } from "./helpers/primes";
+import { random } from "./helpers/random";
+import { PrimeNftCounter } from "../typechain-types";
 
 
 describe("NftCounter", function () {
 
+    const deployPrimeNftCounterWithHoldings = (holdings: FixtureOptions["holdings"]) => {
+        return fixture({ maxSupply: 1000, whitelist: [ "user0", "user1" ], holdings });
+    }
+
 
     it("has the NFT Token", async function () {
         const { primeNftCounter, myNFT } = await loadFixture(deployPrimeNftCounter);
@@ -22,57 +31,228 @@ describe("NftCounter", function () {
     });
 
 
-    it("count 2 prime nfts for tokensIds from 10 to 13", async function () {
-        const { primeNftCounter, myNFT, user1, user2 } = await loadFixture(deployPrimeNftCounter);
-
-        const fullPrice = await myNFT.MINT_PRICE()
-
-        // mint tokens from 1 to 9 to user1
-        for await (let i of Array.from({length: 9}, (_, i) => i)) {
-            await myNFT.mint(user1.address, 0, [], {value: fullPrice});
-        }
+    // tokens from 1 to 9 to user1 and tokens from 10 to 13 to user2
+    const deployWithTokens10To13 = deployPrimeNftCounterWithHoldings({ user1: range(1, 9), user2: range(10, 13) });
 
-        // mint tokens from 10 to 13 to user2
-        for await (let i of Array.from({length: 4}, (_, i) => i+9)) {
-            await myNFT.mint(user2.address, 0, [], {value: fullPrice});
-        }
+    it("count 2 prime nfts for tokensIds from 10 to 13", async function () {
+        const { primeNftCounter, user2 } = await loadFixture(deployWithTokens10To13);
 
         expect(await primeNftCounter.countPrimes(user2.address)).to.be.equal(2)
     });
 
-    it("count 2 prime nfts for tokensIds between 1 and 3", async function () {
-        const { primeNftCounter, myNFT, user1, user2 } = await loadFixture(deployPrimeNftCounter);
+    const deployWithTokens1To3 = deployPrimeNftCounterWithHoldings({ user1: range(1, 3) });
 
-        const fullPrice = await myNFT.MINT_PRICE()
-        // mint tokens from 1 to 20 to user1
-        for await (let i of Array.from({length: 3}, (_, i) => i)) {
-            await myNFT.mint(user1.address, 0, [], {value: fullPrice});
-        }
+    it("count 2 prime nfts for tokensIds between 1 and 3", async function () {
+        const { primeNftCounter, user1 } = await loadFixture(deployWithTokens1To3);
 
         expect(await primeNftCounter.countPrimes(user1.address)).to.be.equal(2)
     });
 
-    it("count 8 prime nfts for tokensIds from 1 to 20", async function () {
-        const { primeNftCounter, myNFT, user1, user2 } = await loadFixture(deployPrimeNftCounter);
+    const deployWithTokens1To20 = deployPrimeNftCounterWithHoldings({ user1: range(1, 20) });
 
-        const fullPrice = await myNFT.MINT_PRICE()
-        // mint tokens from 1 to 20 to user1
-        for await (let i of Array.from({length: 20}, (_, i) => i)) {
-            await myNFT.mint(user1.address, 0, [], {value: fullPrice});
-        }
+    it("count 8 prime nfts for tokensIds from 1 to 20", async function () {
+        const { primeNftCounter, user1 } = await loadFixture(deployWithTokens1To20);
 
         expect(await primeNftCounter.countPrimes(user1.address)).to.be.equal(8)
     });
        
+    const deployWithTokens1To1000 = deployPrimeNftCounterWithHoldings({ user1: range(1, 1000) });
+
     it("count 168 prime nfts for tokensIds between 1 and 1000", async function () {
-        const { primeNftCounter, myNFT, user1, user2 } = await loadFixture(deployPrimeNftCounter);
-        const fullPrice = await myNFT.MINT_PRICE()
-        // mint tokens from 1 to 20 to user1
-        for await (let i of Array.from({length: 1000}, (_, i) => i)) {
-            await myNFT.mint(user1.address, 0, [], {value: fullPrice});
-        }
+        const { primeNftCounter, user1 } = await loadFixture(deployWithTokens1To1000);
 
         expect(await primeNftCounter.countPrimes(user1.address)).to.be.equal(168)
     });
 
-});
\ No newline at end of file
+
+    describe("isPrime", function () {
+
+        // checks numbers up to 10^12
+        const isPrimeReference = referencePrimes(1_000_000)
+
+        it("matches the reference sieve for numbers up to 3000", async function () {
+            const { primeNftCounter } = await loadFixture(deployPrimeNftCounter);
+
+            for (const n of range(0, 3000)) {
+                expect( await primeNftCounter.isPrime(n), `isPrime(${n})` ).to.be.equal( isPrimeReference(n) )
+            }
+        });
+
+        it("matches the reference sieve for random numbers up to 10^12", async function () {
+            const { primeNftCounter } = await loadFixture(deployPrimeNftCounter);
+            const rand = random(8)
+
+            for (const max of [ 1e6, 5e9, 1e12 ]) {
+                for (let i = 0; i < 200; i++) {
+                    const n = Math.floor(rand() * max)
+                    expect( await primeNftCounter.isPrime(n), `isPrime(${n})` ).to.be.equal( isPrimeReference(n) )
+                }
+            }
+        });
+
+        it("detects large primes", async function () {
+            const { primeNftCounter } = await loadFixture(deployPrimeNftCounter);
+
+            const primes = [
+                4_759_123_129n,              // below the threshold of the 3 bases test
+                4_759_123_151n,              // above the threshold of the 3 bases test
+                2n ** 61n - 1n,              // Mersenne primes
+                2n ** 89n - 1n,
+                2n ** 127n - 1n,
+                2n ** 256n - 189n,           // largest 256 bit prime
+            ]
+
+            for (const p of primes) {
+                expect( await primeNftCounter.isPrime(p), `isPrime(${p})` ).to.be.true
+            }
+        });
+
+        it("detects large composites", async function () {
+            const { primeNftCounter } = await loadFixture(deployPrimeNftCounter);
+
+            const composites = [
+                561n,                        // Carmichael number
+                4_759_123_141n,              // strong pseudoprime to bases 2, 7, 61
+                3_215_031_751n,              // strong pseudoprime to bases 2, 3, 5, 7
+                2_152_302_898_747n,          // strong pseudoprime to bases 2, 3, 5, 7, 11
+                3_825_123_056_546_413_051n,  // strong pseudoprime to bases 2 to 23
+                318_665_857_834_031_151_167_461n, // strong pseudoprime to bases 2 to 37
+                (2n ** 61n - 1n) * (2n ** 89n - 1n),
+                (2n ** 127n - 1n) ** 2n,
+                2n ** 256n - 1n,
+            ]
+
+            for (const n of composites) {
+                expect( await primeNftCounter.isPrime(n), `isPrime(${n})` ).to.be.false
+            }
+        });
+    })
+
+    describe("queries", function () {
+
+        const isPrimeReference = referencePrimes(1_000_000)
+
+        // Mints random tokenIDs up to 10^12 to user0, user1 and user2, about half of them prime
+        const deployWithRandomOwners = async function () {
+            const signers = await getSigners();
+            const owners = [ signers.user0, signers.user1, signers.user2 ];
+
+            const nft = await (await ethers.getContractFactory("SimpleEnumerableNFT")).deploy();
+            const stakeReceipt = await (await ethers.getContractFactory("StakeReceipt")).deploy(nft.address, signers.owner.address);
+            const primeNftCounter = await (await ethers.getContractFactory("PrimeNftCounter")).deploy(nft.address, stakeReceipt.address);
+
+            const rand = random(42);
+            const tokensOf = new Map<string, bigint[]>(owners.map(owner => [owner.address, []]));
+            const minted = new Set<bigint>();
+
+            for (let i = 0; i < 90; i++) {
+                let tokenId = BigInt(Math.floor(rand() * 1e12));
+                if (i % 2 === 0) {
+                    // move to the next prime
+                    while (!isPrimeReference(tokenId)) tokenId++;
+                }
+                if (minted.has(tokenId)) continue;
+                minted.add(tokenId);
+
+                const owner = owners[Math.floor(rand() * owners.length)];
+                await nft.mint(owner.address, tokenId);
+                tokensOf.get(owner.address)!.push(tokenId);
+            }
+
+            return { nft, primeNftCounter, owners, tokensOf };
+        }
+
+        const Trait = { Prime: 0, InRange: 1, DivisibleBy: 2 };
+        const filter = (trait: number, min = 0, max = 0, divisor = 0) => ({ trait, min, max, divisor });
+
+        // finds all the tokenIDs matching the filter, one page at a time
+        const findAll = async (primeNftCounter: PrimeNftCounter, owner: string, query: ReturnType<typeof filter>, pageSize: number) => {
+            const tokenIds : bigint[] = [];
+            let pages = 0;
+            let start = BigNumber.from(0);
+            const balance = await primeNftCounter.nftToken().then(address => ethers.getContractAt("IERC721Enumerable", address)).then(nft => nft.balanceOf(owner));
+
+            while (start.lt(balance)) {
+                const [ found, next ] = await primeNftCounter.findMatching(owner, query, start, pageSize);
+                tokenIds.push( ...found.map(id => id.toBigInt()) );
+                start = next;
+                pages++;
+            }
+
+            return { tokenIds, pages };
+        }
+
+        it("counts the primes of random owners", async function () {
+            const { primeNftCounter, owners, tokensOf } = await loadFixture(deployWithRandomOwners);
+
+            for (const owner of owners) {
+                const expected = tokensOf.get(owner.address)!.filter(id => isPrimeReference(id)).length;
+
+                expect( expected ).to.be.greaterThan(0)
+                expect( await primeNftCounter.countPrimes(owner.address) ).to.be.equal(expected)
+
+                const [ count, next ] = await primeNftCounter.countMatching(owner.address, filter(Trait.Prime), 0, 1000);
+                expect( count ).to.be.equal(expected)
+                expect( next ).to.be.equal( tokensOf.get(owner.address)!.length )
+            }
+        });
+
+        it("finds the primes of random owners one page at a time", async function () {
+            const { primeNftCounter, owners, tokensOf } = await loadFixture(deployWithRandomOwners);
+
+            for (const owner of owners) {
+                const ownedTokens = tokensOf.get(owner.address)!;
+                const expected = ownedTokens.filter(id => isPrimeReference(id));
+
+                const { tokenIds, pages } = await findAll(primeNftCounter, owner.address, filter(Trait.Prime), 7);
+
+                expect( tokenIds ).to.have.members(expected)
+                expect( pages ).to.be.equal( Math.ceil(ownedTokens.length / 7) )
+            }
+        });
+
+        it("finds the tokenIDs in a range", async function () {
+            const { primeNftCounter, owners, tokensOf } = await loadFixture(deployWithRandomOwners);
+            const [ min, max ] = [ 2e11, 6e11 ];
+
+            for (const owner of owners) {
+                const expected = tokensOf.get(owner.address)!.filter(id => id >= BigInt(min) && id <= BigInt(max));
+                const { tokenIds } = await findAll(primeNftCounter, owner.address, filter(Trait.InRange, min, max), 10);
+
+                expect( tokenIds ).to.have.members(expected)
+            }
+        });
+
+        it("finds the tokenIDs divisible by k", async function () {
+            const { primeNftCounter, owners, tokensOf } = await loadFixture(deployWithRandomOwners);
+
+            for (const k of [ 2, 3, 10 ]) {
+                for (const owner of owners) {
+                    const expected = tokensOf.get(owner.address)!.filter(id => id % BigInt(k) === 0n);
+                    const { tokenIds } = await findAll(primeNftCounter, owner.address, filter(Trait.DivisibleBy, 0, 0, k), 100);
+
+                    expect( tokenIds ).to.have.members(expected)
+                }
+            }
+        });
+
+        it("returns an empty page after the last token", async function () {
+            const { primeNftCounter, owners, tokensOf } = await loadFixture(deployWithRandomOwners);
+            const balance = tokensOf.get(owners[0].address)!.length;
+
+            const [ tokenIds, next ] = await primeNftCounter.findMatching(owners[0].address, filter(Trait.Prime), balance + 5, 10);
+
+            expect( tokenIds ).to.be.empty
+            expect( next ).to.be.equal(balance)
+        });
+
+        it("reverts when divisible by 0", async function () {
+            const { primeNftCounter, owners } = await loadFixture(deployWithRandomOwners);
+
+            await expect( 
+                primeNftCounter.countMatching(owners[0].address, filter(Trait.DivisibleBy), 0, 10)
+            ).to.be.revertedWithCustomError(primeNftCounter, "InvalidDivisor")
+        });
+    })
+
+});
@@ -0,0 +1,183 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { toWei } from "./helpers/test_helpers";
+import { deployMyNFT, fixture, mintNFTs } from "./helpers/fixtures";
+
+
+describe("RevenueSplitter", function () {
+
+    // user1, user2 and user3 get 50%, 30% and 20% of the revenues
+    const deploySplitter = fixture({ revenueShares: { user1: 50, user2: 30, user3: 20 } });
+
+    const mintPrice = toWei(0.01);
+
+
+    describe("config", function () {
+
+        it("has the payees and their shares", async function () {
+            const { revenueSplitter, user1, user2, user3 } = await loadFixture(deploySplitter);
+
+            expect( await revenueSplitter!.totalShares() ).to.be.equal( 100 )
+            expect( await revenueSplitter!.shares(user1.address) ).to.be.equal( 50 )
+            expect( await revenueSplitter!.shares(user2.address) ).to.be.equal( 30 )
+            expect( await revenueSplitter!.shares(user3.address) ).to.be.equal( 20 )
+        });
+
+        it("is the receiver of the MyNFT proceeds and royalties", async function () {
+            const { myNFT, revenueSplitter } = await loadFixture(deploySplitter);
+
+            expect( await myNFT.revenueSplitter() ).to.be.equal( revenueSplitter!.address )
+
+            const [ receiver, royaltyAmount ] = await myNFT.royaltyInfo(1, toWei(1));
+            expect( receiver ).to.be.equal( revenueSplitter!.address )
+            expect( royaltyAmount ).to.be.equal( toWei(0.025) )
+        });
+
+        it("can keep the royalty receiver when setting the splitter", async function () {
+            const { myNFT, owner, user0 } = await loadFixture(deployMyNFT);
+
+            await expect(
+                myNFT.setRevenueSplitter(user0.address, false)
+            ).to.emit(myNFT, "RevenueSplitterSet").withArgs(user0.address, false)
+
+            const [ receiver ] = await myNFT.royaltyInfo(1, toWei(1));
+            expect( receiver ).to.be.equal( owner.address )
+        });
+
+        it("only the owner can set the splitter", async function () {
+            const { myNFT, user0 } = await loadFixture(deployMyNFT);
+
+            await expect(
+                myNFT.connect(user0).setRevenueSplitter(user0.address, true)
+            ).to.be.revertedWith("Ownable: caller is not the owner")
+
+            await expect(
+                myNFT.setRevenueSplitter(ethers.constants.AddressZero, true)
+            ).to.be.revertedWithCustomError(myNFT, "ZeroAddress")
+        });
+    })
+
+    describe("release proceeds", function () {
+
+        it("sends the mint proceeds to the splitter", async function () {
+            const { myNFT, revenueSplitter, user0 } = await loadFixture(deploySplitter);
+
+            await mintNFTs(myNFT, user0.address, 3);
+
+            // anyone can release the proceeds
+            await expect(
+                myNFT.connect(user0).releaseProceeds()
+            ).to.changeEtherBalances([ myNFT, revenueSplitter! ], [ mintPrice.mul(-3), mintPrice.mul(3) ])
+        });
+
+        it("logs the amount sent", async function () {
+            const { myNFT, revenueSplitter, user0 } = await loadFixture(deploySplitter);
+
+            await mintNFTs(myNFT, user0.address, 3);
+
+            await expect( myNFT.releaseProceeds() ).to.emit(myNFT, "Withdrawn").withArgs(revenueSplitter!.address, mintPrice.mul(3))
+        });
+
+        it("reverts when the splitter is not set", async function () {
+            const { myNFT } = await loadFixture(deployMyNFT);
+
+            await expect( myNFT.releaseProceeds() ).to.be.revertedWithCustomError(myNFT, "ZeroAddress")
+        });
+    })
+
+    describe("withdraw", function () {
+
+        it("logs the amount sent when withdrawing the full balance", async function () {
+            const { myNFT, user0 } = await loadFixture(deployMyNFT);
+
+            await mintNFTs(myNFT, user0.address, 2);
+
+            await expect( myNFT.withdraw(user0.address, 0) ).to.emit(myNFT, "Withdrawn").withArgs(user0.address, mintPrice.mul(2))
+        });
+
+        it("can't withdraw to another address once the splitter is set", async function () {
+            const { myNFT, revenueSplitter, owner, user0 } = await loadFixture(deploySplitter);
+
+            await mintNFTs(myNFT, user0.address, 2);
+
+            await expect(
+                myNFT.withdraw(owner.address, 0)
+            ).to.be.revertedWithCustomError(myNFT, "RevenueSplitterEnabled")
+
+            await expect(
+                myNFT.releaseProceeds()
+            ).to.changeEtherBalance(revenueSplitter!, mintPrice.mul(2))
+        });
+    })
+
+    describe("release shares", function () {
+
+        it("each payee pulls its share", async function () {
+            const { myNFT, revenueSplitter, user0, user1, user2, user3 } = await loadFixture(deploySplitter);
+
+            await mintNFTs(myNFT, user0.address, 10);
+            await myNFT.releaseProceeds();
+
+            const revenues = mintPrice.mul(10);
+
+            await expect(
+                revenueSplitter!["release(address)"](user1.address)
+            ).to.emit(revenueSplitter!, "PaymentReleased").withArgs(user1.address, revenues.mul(50).div(100))
+
+            await expect(
+                revenueSplitter!["release(address)"](user2.address)
+            ).to.changeEtherBalance(user2, revenues.mul(30).div(100))
+
+            expect( await revenueSplitter!["releasable(address)"](user3.address) ).to.be.equal( revenues.mul(20).div(100) )
+        });
+
+        it("accounts the shares across many partial releases", async function () {
+            const { myNFT, revenueSplitter, owner, user0, user1, user2, user3 } = await loadFixture(deploySplitter);
+
+            const payees = [ user1, user2, user3 ];
+            const shares = [ 50, 30, 20 ];
+
+            // in each round some NFTs are minted, royalties are paid and some of the payees pull their share
+            let revenues = ethers.BigNumber.from(0);
+            for (let round = 1; round <= 4; round++) {
+                await mintNFTs(myNFT, user0.address, round);
+                await myNFT.releaseProceeds();
+
+                const royalties = toWei(0.001 * round);
+                await owner.sendTransaction({ to: revenueSplitter!.address, value: royalties });
+
+                revenues = revenues.add(mintPrice.mul(round)).add(royalties);
+
+                // round 1: user1, round 2: user2, round 3: user3, round 4: user1 and user2
+                for (const [i, payee] of payees.entries()) {
+                    if (round % 3 === (i + 1) % 3 || (round === 4 && i < 2)) {
+                        await revenueSplitter!["release(address)"](payee.address);
+                    }
+                }
+            }
+
+            // the payees who did not pull their share in the last round can pull it now
+            await revenueSplitter!["release(address)"](user3.address);
+
+            for (const [i, payee] of payees.entries()) {
+                expect( await revenueSplitter!["released(address)"](payee.address) ).to.be.equal( revenues.mul(shares[i]).div(100) )
+                expect( await revenueSplitter!["releasable(address)"](payee.address) ).to.be.equal( 0 )
+            }
+
+            expect( await revenueSplitter!["totalReleased()"]() ).to.be.equal( revenues )
+            expect( await ethers.provider.getBalance(revenueSplitter!.address) ).to.be.equal( 0 )
+        });
+
+        it("reverts for accounts with no shares", async function () {
+            const { revenueSplitter, user0 } = await loadFixture(deploySplitter);
+
+            await expect(
+                revenueSplitter!["release(address)"](user0.address)
+            ).to.be.revertedWith("PaymentSplitter: account has no shares")
+        });
+    })
+
+});
@@ -0,0 +1,329 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { day, getLastBlockTimestamp, toWei, waitSeconds } from "./helpers/test_helpers";
+import { fixture } from "./helpers/fixtures";
+import { RewardToken } from "../typechain-types";
+
+
+describe("RewardToken", function () {
+
+    // the reward token has a max supply of 30 tokens, user0 holds the NFTs 1 and 2 and staked the NFT 1
+    const deployCappedRewardToken = fixture({ rewardMaxSupply: toWei(30), holdings: { user0: [1, 2] }, staked: [1] });
+
+    /**
+     * @param account an account missing the role
+     * @param role the role
+     * @returns the revert reason of AccessControl
+     */
+    const missingRole = (account: string, role: string) => {
+        return `AccessControl: account ${account.toLowerCase()} is missing role ${role}`;
+    }
+
+    /**
+     * Grants the minter role to an account
+     * @param rewardToken the RewardToken contract
+     * @param minter the new minter
+     */
+    const grantMinter = async (rewardToken: RewardToken, minter: string) => {
+        await rewardToken.grantRole(await rewardToken.MINTER_ROLE(), minter);
+    }
+
+
+    describe("config", function () {
+
+        it("has the max supply", async function () {
+            const { rewardToken } = await loadFixture(deployCappedRewardToken);
+
+            expect( await rewardToken.cap() ).to.be.equal( toWei(30) )
+            expect( await rewardToken.name() ).to.be.equal( "Reward Token" )
+            expect( await rewardToken.symbol() ).to.be.equal( "RT" )
+        });
+
+        it("the deployer is the admin", async function () {
+            const { rewardToken, owner } = await loadFixture(deployCappedRewardToken);
+
+            expect( await rewardToken.hasRole(await rewardToken.DEFAULT_ADMIN_ROLE(), owner.address) ).to.be.true
+            expect( await rewardToken.hasRole(await rewardToken.MINTER_ROLE(), owner.address) ).to.be.false
+        });
+    })
+
+    describe("mint", function () {
+
+        it("only the minters can mint", async function () {
+            const { rewardToken, owner, user0 } = await loadFixture(deployCappedRewardToken);
+
+            const minterRole = await rewardToken.MINTER_ROLE();
+
+            await expect(
+                rewardToken.mint(user0.address, toWei(1))
+            ).to.be.revertedWith( missingRole(owner.address, minterRole) )
+
+            await grantMinter(rewardToken, owner.address);
+            await rewardToken.mint(user0.address, toWei(1));
+
+            await rewardToken.revokeRole(minterRole, owner.address);
+
+            await expect(
+                rewardToken.mint(user0.address, toWei(1))
+            ).to.be.revertedWith( missingRole(owner.address, minterRole) )
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.equal( toWei(1) )
+        });
+
+        it("only the admin can grant the minter role", async function () {
+            const { rewardToken, user0 } = await loadFixture(deployCappedRewardToken);
+
+            await expect(
+                rewardToken.connect(user0).grantRole(await rewardToken.MINTER_ROLE(), user0.address)
+            ).to.be.revertedWith( missingRole(user0.address, await rewardToken.DEFAULT_ADMIN_ROLE()) )
+        });
+
+        it("can't mint over the max supply", async function () {
+            const { rewardToken, owner, user0 } = await loadFixture(deployCappedRewardToken);
+
+            await grantMinter(rewardToken, owner.address);
+            await rewardToken.mint(user0.address, toWei(30));
+
+            await expect(
+                rewardToken.mint(user0.address, 1)
+            ).to.be.revertedWith("ERC20Capped: cap exceeded")
+
+            expect( await rewardToken.mintableBy(owner.address) ).to.be.equal( 0 )
+        });
+
+        it("mints within the allowance of the minter", async function () {
+            const { rewardToken, owner, user0 } = await loadFixture(deployCappedRewardToken);
+
+            await grantMinter(rewardToken, owner.address);
+
+            await expect(
+                rewardToken.setMintAllowance(owner.address, toWei(5))
+            ).to.emit(rewardToken, "MintAllowanceSet").withArgs(owner.address, toWei(5))
+
+            await rewardToken.mint(user0.address, toWei(3));
+
+            const [ limited, remaining ] = await rewardToken.mintAllowances(owner.address);
+            expect( limited ).to.be.true
+            expect( remaining ).to.be.equal( toWei(2) )
+            expect( await rewardToken.mintableBy(owner.address) ).to.be.equal( toWei(2) )
+
+            await expect(
+                rewardToken.mint(user0.address, toWei(3))
+            ).to.be.revertedWithCustomError(rewardToken, "MintAllowanceExceeded").withArgs(toWei(2))
+        });
+
+        it("mints up to the max supply when the allowance is removed", async function () {
+            const { rewardToken, owner, user0 } = await loadFixture(deployCappedRewardToken);
+
+            await grantMinter(rewardToken, owner.address);
+            await rewardToken.setMintAllowance(owner.address, 0);
+
+            await expect(
+                rewardToken.removeMintAllowance(owner.address)
+            ).to.emit(rewardToken, "MintAllowanceRemoved").withArgs(owner.address)
+
+            expect( await rewardToken.mintableBy(owner.address) ).to.be.equal( toWei(30) )
+            await rewardToken.mint(user0.address, toWei(30));
+        });
+
+        it("leaves a revoked minter with no allowance", async function () {
+            const { rewardToken, owner, user0 } = await loadFixture(deployCappedRewardToken);
+
+            await grantMinter(rewardToken, owner.address);
+            await rewardToken.setMintAllowance(owner.address, toWei(5));
+
+            await expect(
+                rewardToken.revokeRole(await rewardToken.MINTER_ROLE(), owner.address)
+            ).to.emit(rewardToken, "MintAllowanceSet").withArgs(owner.address, 0)
+
+            const [ limited, remaining ] = await rewardToken.mintAllowances(owner.address);
+            expect( limited ).to.be.true
+            expect( remaining ).to.be.equal( 0 )
+            expect( await rewardToken.mintableBy(owner.address) ).to.be.equal( 0 )
+
+            // granted again, the minter can't mint until the admin sets its allowance
+            await grantMinter(rewardToken, owner.address);
+            expect( await rewardToken.mintableBy(owner.address) ).to.be.equal( 0 )
+
+            await expect(
+                rewardToken.mint(user0.address, 1)
+            ).to.be.revertedWithCustomError(rewardToken, "MintAllowanceExceeded").withArgs(0)
+
+            await rewardToken.setMintAllowance(owner.address, toWei(2));
+            await rewardToken.mint(user0.address, toWei(2));
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.equal( toWei(2) )
+        });
+
+        it("only the admin can set the allowances", async function () {
+            const { rewardToken, user0 } = await loadFixture(deployCappedRewardToken);
+
+            const adminRole = await rewardToken.DEFAULT_ADMIN_ROLE();
+
+            await expect(
+                rewardToken.connect(user0).setMintAllowance(user0.address, toWei(5))
+            ).to.be.revertedWith( missingRole(user0.address, adminRole) )
+
+            await expect(
+                rewardToken.connect(user0).removeMintAllowance(user0.address)
+            ).to.be.revertedWith( missingRole(user0.address, adminRole) )
+        });
+    })
+
+    describe("burn", function () {
+
+        it("holders can burn their tokens and free the supply", async function () {
+            const { rewardToken, owner, user0, user1 } = await loadFixture(deployCappedRewardToken);
+
+            await grantMinter(rewardToken, owner.address);
+            await rewardToken.mint(user0.address, toWei(30));
+
+            await rewardToken.connect(user0).burn(toWei(10));
+
+            await rewardToken.connect(user0).approve(user1.address, toWei(5));
+            await rewardToken.connect(user1).burnFrom(user0.address, toWei(5));
+
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.equal( toWei(15) )
+            expect( await rewardToken.totalSupply() ).to.be.equal( toWei(15) )
+            expect( await rewardToken.mintableBy(owner.address) ).to.be.equal( toWei(15) )
+        });
+    })
+
+    describe("permit", function () {
+
+        it("approves the spender with the signature of the holder", async function () {
+            const { rewardToken, owner, user1 } = await loadFixture(deployCappedRewardToken);
+
+            const holder = ethers.Wallet.createRandom();
+            await grantMinter(rewardToken, owner.address);
+            await rewardToken.mint(holder.address, toWei(10));
+
+            const { chainId } = await ethers.provider.getNetwork();
+            const domain = { name: "Reward Token", version: "1", chainId, verifyingContract: rewardToken.address };
+            const types = {
+                Permit: [
+                    { name: "owner", type: "address" },
+                    { name: "spender", type: "address" },
+                    { name: "value", type: "uint256" },
+                    { name: "nonce", type: "uint256" },
+                    { name: "deadline", type: "uint256" },
+                ],
+            };
+            const deadline = await getLastBlockTimestamp() + day;
+            const permit = { owner: holder.address, spender: user1.address, value: toWei(4), nonce: 0, deadline };
+
+            const { v, r, s } = ethers.utils.splitSignature(await holder._signTypedData(domain, types, permit));
+
+            // the holder has no ETH, user1 submits the permit
+            await rewardToken.connect(user1).permit(holder.address, user1.address, toWei(4), deadline, v, r, s);
+            await rewardToken.connect(user1).transferFrom(holder.address, user1.address, toWei(4));
+
+            expect( await rewardToken.balanceOf(user1.address) ).to.be.equal( toWei(4) )
+            expect( await rewardToken.nonces(holder.address) ).to.be.equal( 1 )
+
+            await expect(
+                rewardToken.connect(user1).permit(holder.address, user1.address, toWei(4), deadline, v, r, s)
+            ).to.be.revertedWith("ERC20Permit: invalid signature")
+        });
+    })
+
+    describe("shared by two farms", function () {
+
+        // a second farm staking the same NFTs and minting the same reward token, with the NFT 2 staked
+        const deployTwoFarms = async () => {
+            const deployment = await deployCappedRewardToken();
+            const { myNFT, rewardToken, forwarder, user0 } = deployment;
+
+            const otherFarm = await (await ethers.getContractFactory("TokenFarm")).deploy(
+                myNFT.address,
+                rewardToken.address,
+                toWei(10), // 10 tokens every 24h
+                forwarder.address,
+            );
+            await grantMinter(rewardToken, otherFarm.address);
+
+            await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, otherFarm.address, 2);
+
+            return { ...deployment, otherFarm };
+        }
+
+        it("both farms mint the rewards", async function () {
+            const { tokenFarm, otherFarm, rewardToken, user0 } = await loadFixture(deployTwoFarms);
+
+            await waitSeconds(day);
+
+            await tokenFarm.connect(user0).claimAll();
+            await otherFarm.connect(user0).claimAll();
+
+            // 2 NFTs staked for about 1 day at 10 tokens per day
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.closeTo( toWei(20), toWei(0.01) )
+        });
+
+        it("the farms can't mint over the max supply", async function () {
+            const { tokenFarm, otherFarm, rewardToken, myNFT, user0 } = await loadFixture(deployTwoFarms);
+
+            // each farm farmed 20 tokens, 40 in total
+            await waitSeconds(2 * day);
+
+            await tokenFarm.connect(user0).claimAll();
+
+            const mintable = await rewardToken.mintableBy(otherFarm.address);
+            expect( mintable ).to.be.closeTo( toWei(10), toWei(0.01) )
+
+            // the farm mints up to the max supply, the rest remains claimable
+            await expect(
+                otherFarm.connect(user0).withdraw(2)
+            ).to.emit(otherFarm, "Claimed").withArgs(user0.address, mintable)
+
+            expect( await rewardToken.totalSupply() ).to.be.equal( await rewardToken.cap() )
+            expect( await otherFarm.claimableTokens(user0.address) ).to.be.closeTo( toWei(10), toWei(0.01) )
+            expect( await myNFT.ownerOf(2) ).to.be.equal( user0.address )
+
+            // nothing more is minted
+            await expect(
+                otherFarm.connect(user0).claimAll()
+            ).not.to.emit(otherFarm, "Claimed")
+        });
+
+        it("each farm mints within its allowance", async function () {
+            const { tokenFarm, otherFarm, rewardToken, user0 } = await loadFixture(deployTwoFarms);
+
+            await rewardToken.setMintAllowance(tokenFarm.address, toWei(5));
+            await rewardToken.setMintAllowance(otherFarm.address, toWei(25));
+
+            await waitSeconds(day);
+
+            // the farm mints its allowance, the rest remains claimable
+            await tokenFarm.connect(user0).claimAll();
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.equal( toWei(5) )
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.be.closeTo( toWei(5), toWei(0.01) )
+
+            await otherFarm.connect(user0).claimAll();
+
+            const [ , remaining ] = await rewardToken.mintAllowances(otherFarm.address);
+            expect( remaining ).to.be.closeTo( toWei(15), toWei(0.01) )
+
+            // the allowances can't exceed the max supply together
+            expect( await rewardToken.mintableBy(tokenFarm.address) ).to.be.equal( 0 )
+            expect( (await rewardToken.mintableBy(otherFarm.address)).add(await rewardToken.totalSupply()) ).to.be.lte( toWei(30) )
+        });
+
+        it("a farm stops minting when its minter role is revoked", async function () {
+            const { tokenFarm, otherFarm, rewardToken, user0 } = await loadFixture(deployTwoFarms);
+
+            await rewardToken.revokeRole(await rewardToken.MINTER_ROLE(), tokenFarm.address);
+            await waitSeconds(day);
+
+            // the rewards remain claimable
+            await expect(
+                tokenFarm.connect(user0).claimAll()
+            ).not.to.emit(tokenFarm, "Claimed")
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.be.closeTo( toWei(10), toWei(0.01) )
+
+            await otherFarm.connect(user0).claimAll();
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.closeTo( toWei(10), toWei(0.01) )
+        });
+    })
+
+});
@@ -0,0 +1,165 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+import { BigNumber } from "ethers";
+
+import { range, toWei } from "./helpers/test_helpers";
+import { fixture } from "./helpers/fixtures";
+import { MyNFT } from "../typechain-types";
+
+
+describe("Royalties", function () {
+
+    // user0 holds the NFTs from 1 to 5
+    const deployMintedNFT = fixture({ holdings: { user0: range(1, 5) } });
+
+    const salePrices = [
+        BigNumber.from(0),
+        BigNumber.from(1),
+        BigNumber.from(99),
+        BigNumber.from(10_000),
+        BigNumber.from(123_456_789),
+        toWei(0.01),
+        toWei(1),
+        toWei(1_000_000_000_000),
+    ];
+
+    /**
+     * Checks royaltyInfo of the tokens for all the sale prices
+     * @param myNFT the MyNFT contract
+     * @param expected the expected receiver and fee of each token
+     */
+    const expectRoyalties = async (myNFT: MyNFT, expected: { [tokenId: number]: [ string, number ] }) => {
+        for (const [tokenId, [ receiver, fee ]] of Object.entries(expected)) {
+            for (const salePrice of salePrices) {
+                const [ actualReceiver, royaltyAmount ] = await myNFT.royaltyInfo(tokenId, salePrice);
+
+                expect( actualReceiver ).to.be.equal( receiver, `receiver of token ${tokenId}` )
+                expect( royaltyAmount ).to.be.equal( salePrice.mul(fee).div(10_000), `royalty of token ${tokenId} for price ${salePrice}` )
+            }
+        }
+    }
+
+
+    describe("default royalty", function () {
+
+        it("pays the default royalty to the deployer", async function () {
+            const { myNFT, owner } = await loadFixture(deployMintedNFT);
+
+            await expectRoyalties(myNFT, Object.fromEntries(range(1, 5).map(id => [ id, [ owner.address, 250 ] ])));
+        });
+
+        it("updates the default royalty", async function () {
+            const { myNFT, user1 } = await loadFixture(deployMintedNFT);
+
+            await expect(
+                myNFT.setDefaultRoyalty(user1.address, 500)
+            ).to.emit(myNFT, "DefaultRoyaltySet").withArgs(user1.address, 500)
+
+            await expectRoyalties(myNFT, Object.fromEntries(range(1, 5).map(id => [ id, [ user1.address, 500 ] ])));
+        });
+
+        it("pays the new owner after an ownership transfer", async function () {
+            const { myNFT, user1 } = await loadFixture(deployMintedNFT);
+
+            await myNFT.transferOwnership(user1.address);
+            await myNFT.connect(user1).acceptOwnership();
+            await myNFT.connect(user1).setDefaultRoyalty(user1.address, 250);
+
+            const [ receiver ] = await myNFT.royaltyInfo(1, toWei(1));
+            expect( receiver ).to.be.equal( user1.address )
+        });
+
+        it("reverts when the fee exceeds the sale price", async function () {
+            const { myNFT, user1 } = await loadFixture(deployMintedNFT);
+
+            await expect(
+                myNFT.setDefaultRoyalty(user1.address, 10_001)
+            ).to.be.revertedWith("ERC2981: royalty fee will exceed salePrice")
+        });
+    })
+
+    describe("token royalty", function () {
+
+        it("overrides the default royalty of a token", async function () {
+            const { myNFT, owner, user2, user3 } = await loadFixture(deployMintedNFT);
+
+            await expect(
+                myNFT.setTokenRoyalty(2, user2.address, 1_000)
+            ).to.emit(myNFT, "TokenRoyaltySet").withArgs(2, user2.address, 1_000)
+
+            await myNFT.setTokenRoyalty(3, user3.address, 0);
+
+            await expectRoyalties(myNFT, {
+                1: [ owner.address, 250 ],
+                2: [ user2.address, 1_000 ],
+                3: [ user3.address, 0 ],
+                4: [ owner.address, 250 ],
+            });
+        });
+
+        it("keeps the token royalty when the default royalty is updated", async function () {
+            const { myNFT, user1, user2 } = await loadFixture(deployMintedNFT);
+
+            await myNFT.setTokenRoyalty(2, user2.address, 10_000);
+            await myNFT.setDefaultRoyalty(user1.address, 750);
+
+            await expectRoyalties(myNFT, {
+                1: [ user1.address, 750 ],
+                2: [ user2.address, 10_000 ],
+                5: [ user1.address, 750 ],
+            });
+        });
+
+        it("resets the token royalty to the default royalty", async function () {
+            const { myNFT, user1, user2 } = await loadFixture(deployMintedNFT);
+
+            await myNFT.setTokenRoyalty(2, user2.address, 1_000);
+            await myNFT.setDefaultRoyalty(user1.address, 500);
+
+            await expect( myNFT.resetTokenRoyalty(2) ).to.emit(myNFT, "TokenRoyaltyReset").withArgs(2)
+
+            await expectRoyalties(myNFT, {
+                1: [ user1.address, 500 ],
+                2: [ user1.address, 500 ],
+            });
+        });
+
+        it("reverts for tokens not minted", async function () {
+            const { myNFT, user2 } = await loadFixture(deployMintedNFT);
+
+            await expect(
+                myNFT.setTokenRoyalty(6, user2.address, 1_000)
+            ).to.be.revertedWith("ERC721: invalid token ID")
+        });
+
+        it("keeps the default fee when royalties are paid to the revenue splitter", async function () {
+            const { myNFT, user1, user2 } = await loadFixture(deployMintedNFT);
+
+            await myNFT.setDefaultRoyalty(user1.address, 600);
+            await myNFT.setRevenueSplitter(user2.address, true);
+
+            await expectRoyalties(myNFT, { 1: [ user2.address, 600 ] });
+        });
+    })
+
+    describe("access control", function () {
+
+        it("only the owner can manage the royalties", async function () {
+            const { myNFT, user0 } = await loadFixture(deployMintedNFT);
+
+            await expect(
+                myNFT.connect(user0).setDefaultRoyalty(user0.address, 500)
+            ).to.be.revertedWith("Ownable: caller is not the owner")
+
+            await expect(
+                myNFT.connect(user0).setTokenRoyalty(1, user0.address, 500)
+            ).to.be.revertedWith("Ownable: caller is not the owner")
+
+            await expect(
+                myNFT.connect(user0).resetTokenRoyalty(1)
+            ).to.be.revertedWith("Ownable: caller is not the owner")
+        });
+    })
+
+});
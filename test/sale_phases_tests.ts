@@ -0,0 +1,213 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+
+import { day, getLastBlockTimestamp, toWei } from "./helpers/test_helpers";
+import { fixture, NO_PROOF, proofFor } from "./helpers/fixtures";
+
+
+describe("Sale phases", function () {
+
+    // user0 can mint 3 NFTs at whitelist price, user1 can mint 1 NFT
+    const deploySale = fixture({ whitelist: [ { user: "user0", allowance: 3 }, "user1" ] });
+
+    const Phase = { Closed: 0, Allowlist: 1, Public: 2 };
+
+    const allowlistPrice = toWei(0.005);
+    const publicPrice = toWei(0.02);
+
+    // the allowlist phase starts in 1 day and lasts 1 day, the public phase starts 1 day later and lasts 1 day
+    const deployScheduledSale = async () => {
+        const deployment = await deploySale();
+        const now = await getLastBlockTimestamp();
+
+        const allowlistPhase = { start: now + day, end: now + 2 * day, maxPerWallet: 2, price: allowlistPrice };
+        const publicPhase = { start: now + 3 * day, end: now + 4 * day, maxPerWallet: 2, price: publicPrice };
+        await deployment.myNFT.setSalePhases(allowlistPhase, publicPhase);
+
+        return { ...deployment, allowlistPhase, publicPhase };
+    }
+
+
+    describe("config", function () {
+
+        it("is a public sale when no phases are set", async function () {
+            const { myNFT, whitelist, user0, user2 } = await loadFixture(deploySale);
+
+            expect( await myNFT.currentPhase() ).to.be.equal( Phase.Public )
+
+            // whitelisted addresses get the discount and everyone else pays the full price
+            const [ discountedPrice ] = await myNFT.priceForMint(user0.address, proofFor(whitelist, user0.address));
+            const [ fullPrice ] = await myNFT.priceForMint(user2.address, NO_PROOF);
+
+            expect( discountedPrice ).to.be.equal( toWei(0.008) )
+            expect( fullPrice ).to.be.equal( toWei(0.01) )
+        });
+
+        it("sets the sale phases", async function () {
+            const { myNFT, allowlistPhase, publicPhase } = await loadFixture(deployScheduledSale);
+
+            const allowlist = await myNFT.allowlistPhase();
+            expect( allowlist.start ).to.be.equal( allowlistPhase.start )
+            expect( allowlist.end ).to.be.equal( allowlistPhase.end )
+            expect( allowlist.maxPerWallet ).to.be.equal( allowlistPhase.maxPerWallet )
+            expect( allowlist.price ).to.be.equal( allowlistPhase.price )
+
+            const publicSale = await myNFT.publicPhase();
+            expect( publicSale.start ).to.be.equal( publicPhase.start )
+            expect( publicSale.end ).to.be.equal( publicPhase.end )
+            expect( publicSale.maxPerWallet ).to.be.equal( publicPhase.maxPerWallet )
+            expect( publicSale.price ).to.be.equal( publicPhase.price )
+        });
+
+        it("emits SalePhasesSet", async function () {
+            const { myNFT } = await loadFixture(deploySale);
+            const now = await getLastBlockTimestamp();
+
+            const allowlistPhase = { start: now + day, end: now + 2 * day, maxPerWallet: 2, price: allowlistPrice };
+            const publicPhase = { start: now + 2 * day, end: now + 3 * day, maxPerWallet: 0, price: publicPrice };
+
+            await expect( myNFT.setSalePhases(allowlistPhase, publicPhase) ).to.emit(myNFT, "SalePhasesSet")
+        });
+
+        it("reverts when the phases are invalid", async function () {
+            const { myNFT } = await loadFixture(deploySale);
+            const now = await getLastBlockTimestamp();
+
+            const unset = { start: 0, end: 0, maxPerWallet: 0, price: 0 };
+            const allowlistPhase = { start: now + day, end: now + 2 * day, maxPerWallet: 2, price: allowlistPrice };
+            const publicPhase = { start: now + 2 * day, end: now + 3 * day, maxPerWallet: 2, price: publicPrice };
+
+            // the phase ends before it starts
+            await expect(
+                myNFT.setSalePhases({ ...allowlistPhase, end: allowlistPhase.start }, unset)
+            ).to.be.revertedWithCustomError(myNFT, "InvalidSalePhases")
+
+            await expect(
+                myNFT.setSalePhases(unset, { ...publicPhase, end: publicPhase.start - 1 })
+            ).to.be.revertedWithCustomError(myNFT, "InvalidSalePhases")
+
+            // the public phase starts before the end of the allowlist phase
+            await expect(
+                myNFT.setSalePhases(allowlistPhase, { ...publicPhase, start: allowlistPhase.end - 1 })
+            ).to.be.revertedWithCustomError(myNFT, "InvalidSalePhases")
+        });
+
+        it("only the owner can set the phases", async function () {
+            const { myNFT, user0, allowlistPhase, publicPhase } = await loadFixture(deployScheduledSale);
+
+            await expect(
+                myNFT.connect(user0).setSalePhases(allowlistPhase, publicPhase)
+            ).to.be.revertedWith("Ownable: caller is not the owner")
+        });
+
+        it("goes back to a public sale when the phases are unset", async function () {
+            const { myNFT, user2 } = await loadFixture(deployScheduledSale);
+
+            const unset = { start: 0, end: 0, maxPerWallet: 0, price: 0 };
+            await myNFT.setSalePhases(unset, unset);
+
+            expect( await myNFT.currentPhase() ).to.be.equal( Phase.Public )
+
+            await myNFT.mint(user2.address, 1, NO_PROOF, { value: toWei(0.01) });
+            expect( await myNFT.balanceOf(user2.address) ).to.be.equal( 1 )
+        });
+    })
+
+
+    describe("timeline", function () {
+
+        it("walks through the allowlist and the public sale", async function () {
+            const { myNFT, whitelist, user0, user1, user2, allowlistPhase, publicPhase } = await loadFixture(deployScheduledSale);
+
+            const user0Proof = proofFor(whitelist, user0.address);
+            const user1Proof = proofFor(whitelist, user1.address);
+
+            // before the allowlist phase nobody can mint
+            expect( await myNFT.currentPhase() ).to.be.equal( Phase.Closed )
+
+            await expect(
+                myNFT.mint(user0.address, 1, user0Proof, { value: allowlistPrice })
+            ).to.be.revertedWithCustomError(myNFT, "SaleNotActive")
+
+            // allowlist phase
+            await time.increaseTo(allowlistPhase.start);
+            expect( await myNFT.currentPhase() ).to.be.equal( Phase.Allowlist )
+
+            const [ price, whitelisted ] = await myNFT.priceForMint(user0.address, user0Proof);
+            expect( price ).to.be.equal( allowlistPrice )
+            expect( whitelisted ).to.be.true
+
+            // non whitelisted addresses cannot mint
+            await expect(
+                myNFT.mint(user2.address, 1, NO_PROOF, { value: allowlistPrice })
+            ).to.be.revertedWithCustomError(myNFT, "NotWhitelisted")
+
+            // user0 has an allowance of 3 NFTs but the phase limit is 2 per wallet
+            await myNFT.mint(user0.address, 1, user0Proof, { value: allowlistPrice });
+            await myNFT.mint(user0.address, 1, user0Proof, { value: allowlistPrice });
+
+            await expect(
+                myNFT.mint(user0.address, 1, user0Proof, { value: allowlistPrice })
+            ).to.be.revertedWithCustomError(myNFT, "AddressAlreadyMinted")
+
+            // user1 has an allowance of 1 NFT
+            await myNFT.mint(user1.address, 1, user1Proof, { value: allowlistPrice });
+
+            await expect(
+                myNFT.mint(user1.address, 1, user1Proof, { value: allowlistPrice })
+            ).to.be.revertedWithCustomError(myNFT, "AddressAlreadyMinted")
+
+            // between the phases nobody can mint
+            await time.increaseTo(allowlistPhase.end);
+            expect( await myNFT.currentPhase() ).to.be.equal( Phase.Closed )
+
+            await expect(
+                myNFT.mint(user2.address, 1, NO_PROOF, { value: publicPrice })
+            ).to.be.revertedWithCustomError(myNFT, "SaleNotActive")
+
+            // public phase
+            await time.increaseTo(publicPhase.start);
+            expect( await myNFT.currentPhase() ).to.be.equal( Phase.Public )
+
+            // whitelisted addresses pay the public price too
+            const [ publicPriceForUser0 ] = await myNFT.priceForMint(user0.address, user0Proof);
+            expect( publicPriceForUser0 ).to.be.equal( publicPrice )
+
+            await expect(
+                myNFT.mint(user2.address, 1, NO_PROOF, { value: allowlistPrice })
+            ).to.be.revertedWithCustomError(myNFT, "WrongPrice")
+
+            // every wallet can mint up to 2 NFTs
+            await myNFT.mint(user2.address, 1, NO_PROOF, { value: publicPrice });
+            await myNFT.mint(user2.address, 1, NO_PROOF, { value: publicPrice });
+
+            await expect(
+                myNFT.mint(user2.address, 1, NO_PROOF, { value: publicPrice })
+            ).to.be.revertedWithCustomError(myNFT, "WalletLimitReached").withArgs(2)
+
+            // the NFTs minted in the allowlist phase do not count against the public phase limit
+            await myNFT.mint(user0.address, 1, user0Proof, { value: publicPrice });
+            await myNFT.mint(user0.address, 1, NO_PROOF, { value: publicPrice });
+
+            await expect(
+                myNFT.mint(user0.address, 1, user0Proof, { value: publicPrice })
+            ).to.be.revertedWithCustomError(myNFT, "WalletLimitReached").withArgs(2)
+
+            // after the public phase nobody can mint
+            await time.increaseTo(publicPhase.end);
+            expect( await myNFT.currentPhase() ).to.be.equal( Phase.Closed )
+
+            await expect(
+                myNFT.mint(user1.address, 1, NO_PROOF, { value: publicPrice })
+            ).to.be.revertedWithCustomError(myNFT, "SaleNotActive")
+
+            expect( await myNFT.balanceOf(user0.address) ).to.be.equal( 4 )
+            expect( await myNFT.balanceOf(user1.address) ).to.be.equal( 1 )
+            expect( await myNFT.balanceOf(user2.address) ).to.be.equal( 2 )
+            expect( await myNFT.whitelistMinted(user0Proof.index) ).to.be.equal( 2 )
+            expect( await myNFT.publicMinted(user0.address) ).to.be.equal( 2 )
+        });
+    })
+
+});
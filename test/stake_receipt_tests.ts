@@ -0,0 +1,217 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { day, getLastBlockTimestamp, range, waitSeconds } from "./helpers/test_helpers";
+import { Fixture, fixture } from "./helpers/fixtures";
+import { myNFTDomain } from "../scripts/mint_vouchers";
+import { signNFTPermit } from "../scripts/relayer";
+
+
+describe("StakeReceipt", function () {
+
+    // user0 holds the NFTs 1 to 5, user1 the NFTs 6 to 8
+    const deployTokenFarm = fixture({ maxSupply: 20, holdings: { user0: range(1, 5), user1: range(6, 8) } });
+
+    // user0 staked the NFTs 1, 2 and 3, and locked the NFT 3 for 30 days
+    const deployStaked = async () => {
+        const deployment = await deployTokenFarm();
+        const { myNFT, tokenFarm, user0 } = deployment;
+
+        await myNFT.connect(user0).setApprovalForAll(tokenFarm.address, true);
+        await tokenFarm.connect(user0).stakeMany([ 1, 2 ]);
+        await tokenFarm.connect(user0).stakeWithLock(3, 30 * day);
+
+        return deployment;
+    }
+
+    /**
+     * Checks that the receipts held by the users are the NFTs they staked in the farm
+     * @param deployment the contracts
+     * @param users the addresses of the users
+     */
+    const expectMirroredStakes = async ({ tokenFarm, stakeReceipt }: Fixture, users: string[]) => {
+        for (const user of users) {
+            const staked = (await tokenFarm.stakedTokensOf(user)).map(Number).sort();
+            const balance = (await stakeReceipt.balanceOf(user)).toNumber();
+            const receipts = await Promise.all(range(0, balance - 1).map(i => stakeReceipt.tokenOfOwnerByIndex(user, i)));
+
+            expect( receipts.map(Number).sort(), `receipts of ${user}` ).to.be.deep.equal( staked )
+        }
+
+        expect( await stakeReceipt.totalSupply() ).to.be.equal( await tokenFarm.totalStaked() )
+    }
+
+
+    it("is deployed by the farm for its NFT", async function () {
+        const { myNFT, tokenFarm, stakeReceipt } = await loadFixture(deployTokenFarm);
+
+        expect( await stakeReceipt.farm() ).to.be.equal( tokenFarm.address )
+        expect( await stakeReceipt.nftToken() ).to.be.equal( myNFT.address )
+        expect( await stakeReceipt.totalSupply() ).to.be.equal( 0 )
+    });
+
+    describe("deposit", function () {
+
+        it("mints a receipt of the NFT sent with safeTransferFrom", async function () {
+            const { myNFT, tokenFarm, stakeReceipt, user0 } = await loadFixture(deployTokenFarm);
+
+            await expect(
+                myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 1)
+            ).to.emit(stakeReceipt, "Transfer").withArgs(ethers.constants.AddressZero, user0.address, 1)
+
+            expect( await stakeReceipt.ownerOf(1) ).to.be.equal( user0.address )
+        });
+
+        it("mints the receipts of the NFTs staked with stakeMany and stakeWithLock", async function () {
+            const deployment = await loadFixture(deployStaked);
+            const { stakeReceipt, user0, user1 } = deployment;
+
+            expect( await stakeReceipt.balanceOf(user0.address) ).to.be.equal( 3 )
+            await expectMirroredStakes(deployment, [ user0.address, user1.address ])
+        });
+
+        it("mints the receipt to the owner of the NFT staked with a permit", async function () {
+            const { myNFT, tokenFarm, stakeReceipt, user0, user1 } = await loadFixture(deployTokenFarm);
+
+            const { chainId } = await ethers.provider.getNetwork();
+            const permit = { spender: tokenFarm.address, tokenId: 6, nonce: await myNFT.nonces(6), deadline: await getLastBlockTimestamp() + day };
+            const { signature } = await signNFTPermit(user1, myNFTDomain(myNFT.address, chainId), permit);
+
+            // submitted by user0 for user1
+            await tokenFarm.connect(user0).stakeWithPermit(6, permit.deadline, signature);
+
+            expect( await stakeReceipt.ownerOf(6) ).to.be.equal( user1.address )
+            expect( await stakeReceipt.balanceOf(user0.address) ).to.be.equal( 0 )
+        });
+    })
+
+    describe("withdraw", function () {
+
+        it("burns the receipt of the NFT withdrawn", async function () {
+            const deployment = await loadFixture(deployStaked);
+            const { tokenFarm, stakeReceipt, user0 } = deployment;
+
+            await expect(
+                tokenFarm.connect(user0).withdraw(1)
+            ).to.emit(stakeReceipt, "Transfer").withArgs(user0.address, ethers.constants.AddressZero, 1)
+
+            await expect( stakeReceipt.ownerOf(1) ).to.be.revertedWith("ERC721: invalid token ID")
+            await expectMirroredStakes(deployment, [ user0.address ])
+        });
+
+        it("burns the receipts of the NFTs withdrawn with withdrawMany and exitEarly", async function () {
+            const deployment = await loadFixture(deployStaked);
+            const { tokenFarm, stakeReceipt, user0 } = deployment;
+
+            await tokenFarm.connect(user0).withdrawMany([ 1, 2 ]);
+            await tokenFarm.connect(user0).exitEarly(3);
+
+            expect( await stakeReceipt.totalSupply() ).to.be.equal( 0 )
+            await expectMirroredStakes(deployment, [ user0.address ])
+        });
+
+        it("burns the receipts of the NFTs withdrawn with emergencyWithdraw", async function () {
+            const deployment = await loadFixture(deployStaked);
+            const { tokenFarm, stakeReceipt, user0 } = deployment;
+
+            await tokenFarm.pause();
+            await tokenFarm.connect(user0).emergencyWithdraw();
+
+            expect( await stakeReceipt.balanceOf(user0.address) ).to.be.equal( 0 )
+        });
+
+        it("mirrors the stakes through deposits and withdrawals", async function () {
+            const deployment = await loadFixture(deployStaked);
+            const { myNFT, tokenFarm, user0, user1 } = deployment;
+            const users = [ user0.address, user1.address ];
+
+            await myNFT.connect(user1)["safeTransferFrom(address,address,uint256)"](user1.address, tokenFarm.address, 7);
+            await tokenFarm.connect(user0).withdraw(2);
+            await expectMirroredStakes(deployment, users)
+
+            // the NFT withdrawn can be staked again, by its new holder
+            await myNFT.connect(user0).transferFrom(user0.address, user1.address, 2);
+            await myNFT.connect(user1)["safeTransferFrom(address,address,uint256)"](user1.address, tokenFarm.address, 2);
+            await expectMirroredStakes(deployment, users)
+
+            await waitSeconds(30 * day);
+            await tokenFarm.connect(user0).withdrawMany([ 1, 3 ]);
+            await tokenFarm.connect(user1).withdrawMany([ 2, 7 ]);
+            await expectMirroredStakes(deployment, users)
+        });
+    })
+
+    describe("soulbound", function () {
+
+        it("can't be transferred", async function () {
+            const { stakeReceipt, user0, user1 } = await loadFixture(deployStaked);
+
+            await expect(
+                stakeReceipt.connect(user0).transferFrom(user0.address, user1.address, 1)
+            ).to.be.revertedWithCustomError(stakeReceipt, "Soulbound")
+
+            await expect(
+                stakeReceipt.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, user1.address, 1)
+            ).to.be.revertedWithCustomError(stakeReceipt, "Soulbound")
+        });
+
+        it("can't be approved", async function () {
+            const { stakeReceipt, user0, user1 } = await loadFixture(deployStaked);
+
+            await expect(
+                stakeReceipt.connect(user0).approve(user1.address, 1)
+            ).to.be.revertedWithCustomError(stakeReceipt, "Soulbound")
+
+            await expect(
+                stakeReceipt.connect(user0).setApprovalForAll(user1.address, true)
+            ).to.be.revertedWithCustomError(stakeReceipt, "Soulbound")
+        });
+
+        it("is minted and burned only by the farm", async function () {
+            const { stakeReceipt, user0 } = await loadFixture(deployStaked);
+
+            await expect(
+                stakeReceipt.connect(user0).mint(user0.address, 10)
+            ).to.be.revertedWithCustomError(stakeReceipt, "NotTheFarm")
+
+            await expect(
+                stakeReceipt.connect(user0).burn(1)
+            ).to.be.revertedWithCustomError(stakeReceipt, "NotTheFarm")
+        });
+    })
+
+    it("has the token URI of the NFT staked", async function () {
+        const { myNFT, stakeReceipt } = await loadFixture(deployStaked);
+
+        expect( await stakeReceipt.tokenURI(1) ).to.be.equal( await myNFT.tokenURI(1) )
+        await expect( stakeReceipt.tokenURI(4) ).to.be.revertedWith("ERC721: invalid token ID")
+    });
+
+    describe("PrimeNftCounter", function () {
+
+        it("counts the NFTs with prime token IDs held and staked", async function () {
+            const { primeNftCounter, stakeReceipt, user0 } = await loadFixture(deployStaked);
+            expect( await primeNftCounter.receiptToken() ).to.be.equal( stakeReceipt.address )
+
+
+            // user0 holds the NFTs 4 and 5, and staked the NFTs 1, 2 and 3
+            expect( await primeNftCounter.countPrimes(user0.address) ).to.be.equal( 1 )
+            expect( await primeNftCounter.countPrimesHeldAndStaked(user0.address) ).to.be.equal( 3 )
+        });
+
+        it("can't be deployed with the receipts of another NFT", async function () {
+            const { myNFT, rewardToken, forwarder } = await loadFixture(deployStaked);
+
+            const simpleNFT = await (await ethers.getContractFactory("SimpleNFT")).deploy();
+            const otherFarm = await (await ethers.getContractFactory("TokenFarm")).deploy(simpleNFT.address, rewardToken.address, 0, forwarder.address);
+            const factory = await ethers.getContractFactory("PrimeNftCounter");
+
+            await expect(
+                factory.deploy(myNFT.address, await otherFarm.receiptToken())
+            ).to.be.revertedWithCustomError(factory, "InvalidReceiptToken")
+        });
+    })
+
+});
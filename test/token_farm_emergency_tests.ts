@@ -0,0 +1,219 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { day, toWei, waitSeconds } from "./helpers/test_helpers";
+import { deploySimpleNFT, fixture } from "./helpers/fixtures";
+import { rebuildStakingState } from "../scripts/staking_state";
+
+
+describe("TokenFarm emergency controls", function () {
+
+    // user0 staked the NFTs 1 and 2 and holds the NFT 3, user1 staked the NFT 4
+    const deployStakedTokenFarm = fixture({ holdings: { user0: [1, 2, 3], user1: [4] }, staked: [1, 2, 4] });
+
+
+    describe("pause", function () {
+
+        it("pauses and unpauses staking and claiming", async function () {
+            const { tokenFarm } = await loadFixture(deployStakedTokenFarm);
+
+            await expect( tokenFarm.pause() ).to.emit(tokenFarm, "Paused")
+            expect( await tokenFarm.paused() ).to.be.true
+
+            await expect( tokenFarm.unpause() ).to.emit(tokenFarm, "Unpaused")
+            expect( await tokenFarm.paused() ).to.be.false
+        });
+
+        it("only the owner can pause and unpause", async function () {
+            const { tokenFarm, user0 } = await loadFixture(deployStakedTokenFarm);
+
+            await expect( tokenFarm.connect(user0).pause() ).to.be.revertedWith("Ownable: caller is not the owner")
+
+            await tokenFarm.pause();
+
+            await expect( tokenFarm.connect(user0).unpause() ).to.be.revertedWith("Ownable: caller is not the owner")
+        });
+
+        it("blocks staking when paused", async function () {
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployStakedTokenFarm);
+
+            await tokenFarm.pause();
+
+            await expect(
+                myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 3)
+            ).to.be.revertedWith("Pausable: paused")
+
+            await myNFT.connect(user0).approve(tokenFarm.address, 3);
+            await expect( tokenFarm.connect(user0).stakeMany([3]) ).to.be.revertedWith("Pausable: paused")
+        });
+
+        it("blocks claiming and withdrawing when paused", async function () {
+            const { tokenFarm, user0 } = await loadFixture(deployStakedTokenFarm);
+
+            await waitSeconds(day);
+            await tokenFarm.pause();
+
+            await expect( tokenFarm.connect(user0).claimAll() ).to.be.revertedWith("Pausable: paused")
+            await expect( tokenFarm.connect(user0).claimTokens(1) ).to.be.revertedWith("Pausable: paused")
+            await expect( tokenFarm.connect(user0).withdraw(1) ).to.be.revertedWith("Pausable: paused")
+            await expect( tokenFarm.connect(user0).withdrawMany([1, 2]) ).to.be.revertedWith("Pausable: paused")
+        });
+
+        it("keeps the rewards farmed while paused", async function () {
+            const { tokenFarm, rewardToken, user0 } = await loadFixture(deployStakedTokenFarm);
+
+            await tokenFarm.pause();
+            await waitSeconds(day);
+            await tokenFarm.unpause();
+
+            await tokenFarm.connect(user0).claimAll();
+
+            // 2 NFTs staked for about 1 day at 10 tokens per day
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.closeTo( toWei(20), toWei(0.01) )
+        });
+    })
+
+    describe("emergency withdraw", function () {
+
+        it("returns all the NFTs of the caller without rewards", async function () {
+            const { tokenFarm, myNFT, rewardToken, user0 } = await loadFixture(deployStakedTokenFarm);
+
+            await waitSeconds(day);
+
+            await expect( tokenFarm.connect(user0).emergencyWithdraw() )
+                .to.emit(tokenFarm, "EmergencyWithdrawn").withArgs(user0.address, 1)
+                .and.to.emit(tokenFarm, "EmergencyWithdrawn").withArgs(user0.address, 2)
+                .and.not.to.emit(tokenFarm, "Claimed")
+
+            expect( await myNFT.ownerOf(1) ).to.be.equal( user0.address )
+            expect( await myNFT.ownerOf(2) ).to.be.equal( user0.address )
+            expect( await tokenFarm.tokenToOwner(1) ).to.be.equal( ethers.constants.AddressZero )
+            expect( await tokenFarm.stakedCount(user0.address) ).to.be.equal( 0 )
+            expect( await tokenFarm.totalStaked() ).to.be.equal( 1 )
+
+            // the rewards are forfeited
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.be.equal( 0 )
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.equal( 0 )
+        });
+
+        it("can be used when paused", async function () {
+            const { tokenFarm, myNFT, user1 } = await loadFixture(deployStakedTokenFarm);
+
+            await tokenFarm.pause();
+            await tokenFarm.connect(user1).emergencyWithdraw();
+
+            expect( await myNFT.ownerOf(4) ).to.be.equal( user1.address )
+        });
+
+        it("does not affect the rewards of the other stakers", async function () {
+            const { tokenFarm, user0, user1 } = await loadFixture(deployStakedTokenFarm);
+
+            await waitSeconds(day);
+            const claimable = await tokenFarm.claimableTokens(user1.address);
+
+            await tokenFarm.connect(user0).emergencyWithdraw();
+
+            expect( await tokenFarm.claimableTokens(user1.address) ).to.be.closeTo( claimable, toWei(0.01) )
+        });
+
+        it("farms from the next stake only", async function () {
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployStakedTokenFarm);
+
+            await waitSeconds(day);
+            await tokenFarm.connect(user0).emergencyWithdraw();
+
+            await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 1);
+            await waitSeconds(day);
+
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.be.closeTo( toWei(10), toWei(0.01) )
+        });
+
+        it("is replayed in the staking state", async function () {
+            const { tokenFarm, user0, user1 } = await loadFixture(deployStakedTokenFarm);
+
+            await tokenFarm.connect(user0).emergencyWithdraw();
+
+            const state = await rebuildStakingState(tokenFarm);
+
+            expect( state.stakedTokens.get(user0.address) ).to.be.undefined
+            expect( state.stakedTokens.get(user1.address) ).to.be.deep.equal( ["4"] )
+            expect( state.totalStaked ).to.be.equal( 1 )
+        });
+    })
+
+    describe("rescue", function () {
+
+        it("rescues an NFT sent with transferFrom", async function () {
+            const { tokenFarm, myNFT, owner, user0 } = await loadFixture(deployStakedTokenFarm);
+
+            // transferFrom does not call onERC721Received, so the NFT is not staked
+            await myNFT.connect(user0).transferFrom(user0.address, tokenFarm.address, 3);
+
+            expect( await myNFT.ownerOf(3) ).to.be.equal( tokenFarm.address )
+            expect( await tokenFarm.tokenToOwner(3) ).to.be.equal( ethers.constants.AddressZero )
+            await expect( tokenFarm.connect(user0).withdraw(3) ).to.be.revertedWithCustomError(tokenFarm, "NotTheTokenOwner")
+
+            await expect(
+                tokenFarm.connect(owner).rescueERC721(myNFT.address, 3, user0.address)
+            ).to.emit(tokenFarm, "ERC721Rescued").withArgs(myNFT.address, 3, user0.address)
+
+            expect( await myNFT.ownerOf(3) ).to.be.equal( user0.address )
+            expect( await tokenFarm.totalStaked() ).to.be.equal( 3 )
+        });
+
+        it("rescues an NFT of another collection sent with transferFrom", async function () {
+            const { tokenFarm, user0, user1 } = await loadFixture(deployStakedTokenFarm);
+            const { simpleNFT } = await deploySimpleNFT();
+
+            await simpleNFT.connect(user0).mint(user0.address);
+            await simpleNFT.connect(user0).transferFrom(user0.address, tokenFarm.address, 1);
+
+            await tokenFarm.rescueERC721(simpleNFT.address, 1, user1.address);
+
+            expect( await simpleNFT.ownerOf(1) ).to.be.equal( user1.address )
+        });
+
+        it("does not rescue the staked NFTs", async function () {
+            const { tokenFarm, myNFT, owner } = await loadFixture(deployStakedTokenFarm);
+
+            await expect(
+                tokenFarm.rescueERC721(myNFT.address, 1, owner.address)
+            ).to.be.revertedWithCustomError(tokenFarm, "TokenIsStaked").withArgs(1)
+        });
+
+        it("rescues ERC20 tokens", async function () {
+            const { tokenFarm, owner, user0 } = await loadFixture(deployStakedTokenFarm);
+
+            const token = await (await ethers.getContractFactory("RewardToken")).deploy(toWei(100));
+            await token.grantRole(await token.MINTER_ROLE(), owner.address);
+            await token.mint(user0.address, toWei(100));
+            await token.connect(user0).transfer(tokenFarm.address, toWei(100));
+
+            await expect(
+                tokenFarm.rescueERC20(token.address, toWei(100), user0.address)
+            ).to.emit(tokenFarm, "ERC20Rescued").withArgs(token.address, toWei(100), user0.address)
+                .and.to.changeTokenBalances(token, [ tokenFarm, user0 ], [ toWei(-100), toWei(100) ])
+
+            await expect(
+                tokenFarm.connect(owner).rescueERC20(token.address, 1, owner.address)
+            ).to.be.revertedWith("ERC20: transfer amount exceeds balance")
+        });
+
+        it("only the owner can rescue tokens", async function () {
+            const { tokenFarm, myNFT, rewardToken, user0 } = await loadFixture(deployStakedTokenFarm);
+
+            await myNFT.connect(user0).transferFrom(user0.address, tokenFarm.address, 3);
+
+            await expect(
+                tokenFarm.connect(user0).rescueERC721(myNFT.address, 3, user0.address)
+            ).to.be.revertedWith("Ownable: caller is not the owner")
+
+            await expect(
+                tokenFarm.connect(user0).rescueERC20(rewardToken.address, 0, user0.address)
+            ).to.be.revertedWith("Ownable: caller is not the owner")
+        });
+    })
+
+});
@@ -0,0 +1,306 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { day, getLastBlockTimestamp, toWei, waitSeconds } from "./helpers/test_helpers";
+import { fixture } from "./helpers/fixtures";
+import { rebuildStakingState } from "../scripts/staking_state";
+
+
+describe("TokenFarm locks", function () {
+
+    // user0 holds the NFTs 1, 2 and 3
+    const deployTokenFarm = fixture({ holdings: { user0: [1, 2, 3] } });
+
+    // user0 locked the NFT 1 for 73 days (1.4x boost) and holds the NFTs 2 and 3
+    const deployLockedTokenFarm = async () => {
+        const deployment = await deployTokenFarm();
+        const { tokenFarm, myNFT, user0 } = deployment;
+
+        await myNFT.connect(user0).setApprovalForAll(tokenFarm.address, true);
+        await tokenFarm.connect(user0).stakeWithLock(1, 73 * day);
+
+        return deployment;
+    }
+
+    // the rewards of 1 NFT for the given days at 10 tokens per day
+    const rewardsFor = (days: number) => toWei(10 * days);
+
+    // the rounding error of the rewards farmed in the seconds of the test transactions
+    const tolerance = toWei(0.01);
+
+
+    describe("boost curve", function () {
+
+        it("grows linearly with the lock duration", async function () {
+            const { tokenFarm } = await loadFixture(deployTokenFarm);
+
+            expect( await tokenFarm.boostFor(0) ).to.be.equal( 10_000 )
+            expect( await tokenFarm.boostFor(7 * day) ).to.be.equal( 10_000 + Math.floor(20_000 * 7 / 365) )
+            expect( await tokenFarm.boostFor(73 * day) ).to.be.equal( 14_000 )
+            expect( await tokenFarm.boostFor(146 * day) ).to.be.equal( 18_000 )
+            expect( await tokenFarm.boostFor(365 * day) ).to.be.equal( 30_000 )
+        });
+
+        it("reverts for lock durations out of range", async function () {
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployTokenFarm);
+
+            await expect( tokenFarm.boostFor(7 * day - 1) ).to.be.revertedWithCustomError(tokenFarm, "InvalidLockDuration")
+            await expect( tokenFarm.boostFor(365 * day + 1) ).to.be.revertedWithCustomError(tokenFarm, "InvalidLockDuration")
+
+            await myNFT.connect(user0).approve(tokenFarm.address, 1);
+            await expect(
+                tokenFarm.connect(user0).stakeWithLock(1, 0)
+            ).to.be.revertedWithCustomError(tokenFarm, "InvalidLockDuration")
+        });
+
+        for (const [ days, multiplier ] of [ [ 7, 1.0383 ], [ 73, 1.4 ], [ 365, 3 ] ]) {
+            it(`farms ${multiplier}x the rewards with a ${days} days lock`, async function () {
+                const { tokenFarm, myNFT, user0 } = await loadFixture(deployTokenFarm);
+
+                await myNFT.connect(user0).approve(tokenFarm.address, 1);
+                await tokenFarm.connect(user0).stakeWithLock(1, days * day);
+
+                await waitSeconds(days * day);
+
+                // the base rewards and the boost rewards, which are claimable when the lock expires
+                expect( await tokenFarm.claimableTokens(user0.address) ).to.be.closeTo( toWei(10 * days * multiplier), tolerance )
+            });
+        }
+    })
+
+    describe("stake with lock", function () {
+
+        it("locks the NFT", async function () {
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployTokenFarm);
+
+            await myNFT.connect(user0).approve(tokenFarm.address, 1);
+            const end = await getLastBlockTimestamp() + 1 + 73 * day;
+
+            await expect( tokenFarm.connect(user0).stakeWithLock(1, 73 * day) )
+                .to.emit(tokenFarm, "Deposited").withArgs(user0.address, 1)
+                .and.to.emit(tokenFarm, "Locked").withArgs(user0.address, 1, end, 14_000)
+
+            const lock = await tokenFarm.tokenLocks(1);
+            expect( lock.start ).to.be.equal( end - 73 * day )
+            expect( lock.end ).to.be.equal( end )
+            expect( lock.multiplier ).to.be.equal( 14_000 )
+
+            expect( await myNFT.ownerOf(1) ).to.be.equal( tokenFarm.address )
+            expect( await tokenFarm.stakedTokensOf(user0.address) ).to.be.deep.equal( [ 1 ] )
+            expect( await tokenFarm.lockedTokensOf(user0.address) ).to.be.deep.equal( [ 1 ] )
+            expect( await tokenFarm.totalStaked() ).to.be.equal( 1 )
+        });
+
+        it("locks the NFT sent with safeTransferFrom and the lock duration", async function () {
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployTokenFarm);
+
+            const data = ethers.utils.defaultAbiCoder.encode([ "uint256" ], [ 365 * day ]);
+
+            await expect(
+                myNFT.connect(user0)["safeTransferFrom(address,address,uint256,bytes)"](user0.address, tokenFarm.address, 2, data)
+            ).to.emit(tokenFarm, "Locked")
+
+            expect( (await tokenFarm.tokenLocks(2)).multiplier ).to.be.equal( 30_000 )
+        });
+
+        it("reverts when the NFT transfer is not approved", async function () {
+            const { tokenFarm, user0 } = await loadFixture(deployTokenFarm);
+
+            await expect(
+                tokenFarm.connect(user0).stakeWithLock(1, 73 * day)
+            ).to.be.revertedWithCustomError(tokenFarm, "TokenTransferNotApproved")
+        });
+    })
+
+    describe("boost rewards", function () {
+
+        it("are claimable when the lock expires", async function () {
+            const { tokenFarm, rewardToken, user0 } = await loadFixture(deployLockedTokenFarm);
+
+            await waitSeconds(10 * day);
+
+            // the base rewards are claimable, the boost rewards are not yet
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.be.closeTo( rewardsFor(10), tolerance )
+            expect( await tokenFarm.boostRewardsOf(1) ).to.be.closeTo( rewardsFor(4), tolerance )
+
+            await tokenFarm.connect(user0).claimAll();
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.closeTo( rewardsFor(10), tolerance )
+            expect( await tokenFarm.boostRewardsOf(1) ).to.be.closeTo( rewardsFor(4), tolerance )
+
+            await waitSeconds(63 * day);
+
+            // 73 days of base rewards and 0.4x boost
+            await tokenFarm.connect(user0).claimAll();
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.closeTo( rewardsFor(73 * 1.4), tolerance )
+            expect( await tokenFarm.lockedTokensOf(user0.address) ).to.be.deep.equal( [] )
+        });
+
+        it("stop at the end of the lock", async function () {
+            const { tokenFarm, user0 } = await loadFixture(deployLockedTokenFarm);
+
+            await waitSeconds(100 * day);
+
+            expect( await tokenFarm.boostRewardsOf(1) ).to.be.closeTo( rewardsFor(73 * 0.4), tolerance )
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.be.closeTo( rewardsFor(100 + 73 * 0.4), tolerance )
+        });
+
+        it("are kept across the checkpoints of the owner", async function () {
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployLockedTokenFarm);
+
+            await waitSeconds(10 * day);
+
+            // staking the NFT 2 checkpoints the rewards of user0
+            await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 2);
+
+            await waitSeconds(70 * day);
+
+            // NFT 1: 80 days of base rewards and 73 days of 0.4x boost, NFT 2: 70 days of base rewards
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.be.closeTo( rewardsFor(80 + 73 * 0.4 + 70), tolerance )
+        });
+
+        it("follow the reward rate of the epochs", async function () {
+            const { tokenFarm, user0 } = await loadFixture(deployLockedTokenFarm);
+
+            await waitSeconds(10 * day);
+            await tokenFarm.setRewardRate(toWei(20));
+            await waitSeconds(63 * day);
+
+            // 10 days at 10 tokens and 63 days at 20 tokens, with 1.4x boost
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.be.closeTo( toWei((100 + 63 * 20) * 1.4), tolerance )
+        });
+
+        it("do not boost the unlocked NFTs", async function () {
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployTokenFarm);
+
+            await myNFT.connect(user0).setApprovalForAll(tokenFarm.address, true);
+            await tokenFarm.connect(user0).stakeWithLock(1, 365 * day);
+            await tokenFarm.connect(user0).stakeMany([2]);
+
+            await waitSeconds(100 * day);
+
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.be.closeTo( rewardsFor(200), tolerance )
+            expect( await tokenFarm.boostRewardsOf(1) ).to.be.closeTo( rewardsFor(200), tolerance )
+            expect( await tokenFarm.boostRewardsOf(2) ).to.be.equal( 0 )
+        });
+    })
+
+    describe("withdraw", function () {
+
+        it("is blocked until the lock expires", async function () {
+            const { tokenFarm, user0 } = await loadFixture(deployLockedTokenFarm);
+
+            const { end } = await tokenFarm.tokenLocks(1);
+
+            await expect(
+                tokenFarm.connect(user0).withdraw(1)
+            ).to.be.revertedWithCustomError(tokenFarm, "TokenLocked").withArgs(1, end)
+
+            await expect(
+                tokenFarm.connect(user0).withdrawMany([1])
+            ).to.be.revertedWithCustomError(tokenFarm, "TokenLocked").withArgs(1, end)
+        });
+
+        it("claims the base and boost rewards when the lock expires", async function () {
+            const { tokenFarm, myNFT, rewardToken, user0 } = await loadFixture(deployLockedTokenFarm);
+
+            await waitSeconds(73 * day);
+
+            await expect( tokenFarm.connect(user0).withdraw(1) ).to.emit(tokenFarm, "Withdrawn").withArgs(user0.address, 1)
+
+            expect( await myNFT.ownerOf(1) ).to.be.equal( user0.address )
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.closeTo( rewardsFor(73 * 1.4), tolerance )
+
+            const lock = await tokenFarm.tokenLocks(1);
+            expect( lock.end ).to.be.equal( 0 )
+        });
+    })
+
+    describe("exit early", function () {
+
+        it("withdraws the NFT and forfeits its boost rewards", async function () {
+            const { tokenFarm, myNFT, rewardToken, user0 } = await loadFixture(deployLockedTokenFarm);
+
+            await waitSeconds(10 * day);
+
+            const tx = tokenFarm.connect(user0).exitEarly(1);
+            await expect( tx ).to.emit(tokenFarm, "Withdrawn").withArgs(user0.address, 1)
+
+            const receipt = await (await tx).wait();
+            const forfeited = receipt.events!.find(event => event.event === "EarlyExited")!.args!.forfeitedRewards;
+            expect( forfeited ).to.be.closeTo( rewardsFor(4), tolerance )
+
+            expect( await myNFT.ownerOf(1) ).to.be.equal( user0.address )
+            expect( await tokenFarm.lockedTokensOf(user0.address) ).to.be.deep.equal( [] )
+            expect( await tokenFarm.totalStaked() ).to.be.equal( 0 )
+
+            // the base rewards are still claimable
+            await waitSeconds(day);
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.be.closeTo( rewardsFor(10), tolerance )
+
+            await tokenFarm.connect(user0).claimAll();
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.closeTo( rewardsFor(10), tolerance )
+        });
+
+        it("keeps the boost rewards of the other locked NFTs", async function () {
+            const { tokenFarm, user0 } = await loadFixture(deployLockedTokenFarm);
+
+            await tokenFarm.connect(user0).stakeWithLock(2, 73 * day);
+            await waitSeconds(10 * day);
+
+            await tokenFarm.connect(user0).exitEarly(1);
+
+            expect( await tokenFarm.boostRewardsOf(2) ).to.be.closeTo( rewardsFor(4), tolerance )
+        });
+
+        it("reverts when the NFT is not locked", async function () {
+            const { tokenFarm, user0 } = await loadFixture(deployLockedTokenFarm);
+
+            await tokenFarm.connect(user0).stakeMany([2]);
+
+            await expect(
+                tokenFarm.connect(user0).exitEarly(2)
+            ).to.be.revertedWithCustomError(tokenFarm, "TokenNotLocked").withArgs(2)
+
+            await waitSeconds(73 * day);
+
+            await expect(
+                tokenFarm.connect(user0).exitEarly(1)
+            ).to.be.revertedWithCustomError(tokenFarm, "TokenNotLocked").withArgs(1)
+        });
+
+        it("reverts when the caller is not the staker", async function () {
+            const { tokenFarm, user1 } = await loadFixture(deployLockedTokenFarm);
+
+            await expect(
+                tokenFarm.connect(user1).exitEarly(1)
+            ).to.be.revertedWithCustomError(tokenFarm, "NotTheTokenOwner")
+        });
+
+        it("is replayed in the staking state", async function () {
+            const { tokenFarm, user0 } = await loadFixture(deployLockedTokenFarm);
+
+            await tokenFarm.connect(user0).exitEarly(1);
+
+            const state = await rebuildStakingState(tokenFarm);
+            expect( state.totalStaked ).to.be.equal( 0 )
+        });
+    })
+
+    describe("emergency withdraw", function () {
+
+        it("returns the locked NFTs without rewards", async function () {
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployLockedTokenFarm);
+
+            await waitSeconds(10 * day);
+            await tokenFarm.connect(user0).emergencyWithdraw();
+
+            expect( await myNFT.ownerOf(1) ).to.be.equal( user0.address )
+            expect( await tokenFarm.lockedTokensOf(user0.address) ).to.be.deep.equal( [] )
+            expect( await tokenFarm.boostRewardsOf(1) ).to.be.equal( 0 )
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.be.equal( 0 )
+        });
+    })
+
+});
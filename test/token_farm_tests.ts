@@ -1,13 +1,24 @@
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
 
 import { expect } from "chai";
+import { BigNumber, ContractTransaction, ethers } from "ethers";
 
-import { deployTokenFarm, deploySimpleNFT, toUnits, toWei, waitSeconds } from "./helpers/test_helpers";
-import { formatUnits } from "ethers/lib/utils";
+import { day, getLastBlockTimestamp, range, toUnits, toWei, waitSeconds } from "./helpers/test_helpers";
+import { deploySimpleNFT, deployTokenFarm, fixture } from "./helpers/fixtures";
+import { rebuildStakingState } from "../scripts/staking_state";
 
 
 describe("TokenFarm", function () {
 
+    // user0 staked the NFT 1 and holds the NFT 2
+    const deployStakedTokenFarm = fixture({ whitelist: [ "user0", "user1" ], holdings: { user0: [1, 2] }, staked: [1] });
+
+    // user0 staked the NFTs 1 and 2
+    const deployTwoStakedTokenFarm = fixture({ whitelist: [ "user0", "user1" ], holdings: { user0: [1, 2] }, staked: [1, 2] });
+
+    // user0 holds the NFTs from 1 to 5
+    const deployTokenFarmWith5NFTs = fixture({ whitelist: [ "user0", "user1" ], holdings: { user0: range(1, 5) } });
+
     describe("config", function () {
 
         it("has the NFT Token", async function () {
@@ -22,15 +33,23 @@ describe("TokenFarm", function () {
             expect( await tokenFarm.rewardToken() ).to.be.equal( rewardToken.address )
         });
 
-        it("owns the Reward Token", async function () {
+        it("mints the Reward Token", async function () {
             const { tokenFarm, rewardToken, owner } = await loadFixture(deployTokenFarm);
 
-            expect( await rewardToken.owner() ).to.be.equal( tokenFarm.address )
+            expect( await rewardToken.hasRole(await rewardToken.MINTER_ROLE(), tokenFarm.address) ).to.be.true
         });
     })
 
 
     describe("deposit", function () {
+        it("emits Deposited with the staker", async function () {
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployTokenFarm);
+
+            await expect(
+                myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 1)
+            ).to.emit(tokenFarm, "Deposited").withArgs(user0.address, 1)
+        });
+
         it("can deposit the NFT", async function () {
 
             const { tokenFarm, myNFT, rewardToken, owner, user0 } = await loadFixture(deployTokenFarm);
@@ -57,10 +76,7 @@ describe("TokenFarm", function () {
     describe("withdraw", function () {
         it("can withdraw the NFT", async function () {
 
-            const { tokenFarm, myNFT, rewardToken, owner, user0 } = await loadFixture(deployTokenFarm);
-   
-            // send NFT to the contract
-            await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 1)
+            const { tokenFarm, myNFT, rewardToken, owner, user0 } = await loadFixture(deployStakedTokenFarm);
 
             // withraw the nft
             await tokenFarm.connect(user0).withdraw(1)
@@ -69,26 +85,33 @@ describe("TokenFarm", function () {
         });
 
         it("reverts when called by non-owner", async function () {
-            const { tokenFarm, myNFT, user0, user1 } = await loadFixture(deployTokenFarm);
-
-            // send NFT to the contract
-            await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 1)
+            const { tokenFarm, myNFT, user0, user1 } = await loadFixture(deployStakedTokenFarm);
 
             // non-owner withraw the nft should revert
             await expect( 
                 tokenFarm.connect(user1).withdraw(1) 
             ).to.be.revertedWithCustomError(tokenFarm, "NotTheTokenOwner")
         });
+
+        it("claims the tokens farmed when withdrawing", async function () {
+            const { tokenFarm, rewardToken, user0 } = await loadFixture(deployStakedTokenFarm);
+
+            // wait for 24h
+            await waitSeconds(24 * 60 * 60)
+
+            // withraw the nft
+            await expect( tokenFarm.connect(user0).withdraw(1) ).to.emit(tokenFarm, "Claimed")
+
+            expect( toUnits(await rewardToken.balanceOf(user0.address)) ).to.be.approximately(10, 0.001)
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.equal(0)
+        });
     })
 
     describe("claim tokens", function () {
 
         it("can claim 10 tokens after staking for 24h", async function () {
 
-            const { tokenFarm, myNFT, rewardToken, owner, user0 } = await loadFixture(deployTokenFarm);
-   
-            // send NFT to the contract
-            await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 1)
+            const { tokenFarm, myNFT, rewardToken, owner, user0 } = await loadFixture(deployStakedTokenFarm);
 
             // wait for 24h
             await waitSeconds(24 * 60 * 60)
@@ -104,10 +127,7 @@ describe("TokenFarm", function () {
 
         it("accounts for tokens already ckaimed when claiming again", async function () {
 
-            const { tokenFarm, myNFT, rewardToken, owner, user0 } = await loadFixture(deployTokenFarm);
-   
-            // send NFT to the contract
-            await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 1)
+            const { tokenFarm, myNFT, rewardToken, owner, user0 } = await loadFixture(deployStakedTokenFarm);
 
             // wait for 24h
             await waitSeconds(24 * 60 * 60)
@@ -134,10 +154,7 @@ describe("TokenFarm", function () {
         });
 
         it("reverts when called by non-owner", async function () {
-            const { tokenFarm, myNFT, user0, user1 } = await loadFixture(deployTokenFarm);
-   
-            // send NFT to the contract
-            await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 1)
+            const { tokenFarm, myNFT, user0, user1 } = await loadFixture(deployStakedTokenFarm);
 
             // wait for 24h
             await waitSeconds(24 * 60 * 60)
@@ -148,15 +165,96 @@ describe("TokenFarm", function () {
             ).to.be.revertedWithCustomError(tokenFarm, "NotTheTokenOwner")
         });
 
+        it("can claim 10 tokens for each NFT staked for 24h", async function () {
+            const { tokenFarm, rewardToken, user0 } = await loadFixture(deployTwoStakedTokenFarm);
+
+            // wait for 24h
+            await waitSeconds(24 * 60 * 60)
+
+            // claim the ERC20 token of both NFTs in one call
+            await tokenFarm.connect(user0).claimTokens(2);
+
+            expect( toUnits(await rewardToken.balanceOf(user0.address)) ).to.be.approximately(20, 0.001)
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.equal(0)
+        });
+
+        it("accounts for NFTs staked at different times", async function () {
+            const { tokenFarm, myNFT, rewardToken, user0 } = await loadFixture(deployStakedTokenFarm);
+
+            // wait for 24h and stake the second NFT
+            await waitSeconds(24 * 60 * 60)
+            await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 2)
+
+            // the rewards of the first NFT are not lost
+            expect( toUnits(await tokenFarm.claimableTokens(user0.address)) ).to.be.approximately(10, 0.001)
+
+            // wait for 24h
+            await waitSeconds(24 * 60 * 60)
+
+            // claim the ERC20 token
+            await tokenFarm.connect(user0).claimTokens(1);
+
+            // 10 tokens for the first day and 20 tokens for the second day
+            expect( toUnits(await rewardToken.balanceOf(user0.address)) ).to.be.approximately(30, 0.001)
+        });
+
+        it("keeps farming the NFTs still staked after a partial withdrawal", async function () {
+            const { tokenFarm, myNFT, rewardToken, user0 } = await loadFixture(deployTwoStakedTokenFarm);
+
+            // wait for 24h and withdraw the first NFT
+            await waitSeconds(24 * 60 * 60)
+            await tokenFarm.connect(user0).withdraw(1)
+
+            // the rewards of both NFTs are claimed on withdraw
+            const balanceAfterWithdraw = toUnits(await rewardToken.balanceOf(user0.address))
+            expect( balanceAfterWithdraw ).to.be.approximately(20, 0.001)
+            expect( await myNFT.ownerOf(1) ).to.be.equal(user0.address)
+            expect( await tokenFarm.stakedCount(user0.address) ).to.be.equal(1)
+
+            // wait for 24h
+            await waitSeconds(24 * 60 * 60)
+
+            // the NFT still staked keeps farming
+            await tokenFarm.connect(user0).claimTokens(2);
+
+            const tokensReceived = toUnits(await rewardToken.balanceOf(user0.address)) - balanceAfterWithdraw
+            expect( tokensReceived ).to.be.approximately(10, 0.001)
+        });
+
+        it("cannot claim with a withdrawn NFT", async function () {
+            const { tokenFarm, user0 } = await loadFixture(deployTwoStakedTokenFarm);
+
+            await tokenFarm.connect(user0).withdraw(1)
+
+            await expect( 
+                tokenFarm.connect(user0).claimTokens(1)
+            ).to.be.revertedWithCustomError(tokenFarm, "NotTheTokenOwner")
+        });
+
+        it("accounts for the claims of different users separately", async function () {
+            const { tokenFarm, myNFT, rewardToken, user0, user1 } = await loadFixture(deployStakedTokenFarm);
+
+            // user1 stakes the second NFT 12h after user0
+            await waitSeconds(12 * 60 * 60)
+            await myNFT.connect(user0).transferFrom(user0.address, user1.address, 2)
+            await myNFT.connect(user1)["safeTransferFrom(address,address,uint256)"](user1.address, tokenFarm.address, 2)
+
+            // wait for 12h
+            await waitSeconds(12 * 60 * 60)
+
+            await tokenFarm.connect(user0).claimTokens(1);
+            await tokenFarm.connect(user1).claimTokens(2);
+
+            expect( toUnits(await rewardToken.balanceOf(user0.address)) ).to.be.approximately(10, 0.001)
+            expect( toUnits(await rewardToken.balanceOf(user1.address)) ).to.be.approximately(5, 0.001)
+        });
+
     })
 
     describe("claimable tokens", function () {
 
         it("can claim 0 tokens when no staking interval has passed", async function () {
-            const { tokenFarm, myNFT, user0 } = await loadFixture(deployTokenFarm);
-   
-            // send NFT to the contract
-            await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 1)
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployStakedTokenFarm);
 
             // claim the ERC20 token
             let tokensToClaim = await tokenFarm.connect(user0).claimableTokens(user0.address);
@@ -165,10 +263,7 @@ describe("TokenFarm", function () {
         });
 
         it("can claim 0 tokens when not the staker user", async function () {
-            const { tokenFarm, myNFT, user0, user1 } = await loadFixture(deployTokenFarm);
-   
-            // send NFT to the contract
-            await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 1)
+            const { tokenFarm, myNFT, user0, user1 } = await loadFixture(deployStakedTokenFarm);
 
             // claim the ERC20 token
             let tokensToClaim = await tokenFarm.connect(user0).claimableTokens(user1.address);
@@ -177,10 +272,7 @@ describe("TokenFarm", function () {
         });
 
         it("can claim the expected tokens when a staking interval has passed", async function () {
-            const { tokenFarm, myNFT, user0 } = await loadFixture(deployTokenFarm);
-   
-            // send NFT to the contract
-            await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, 1)
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployStakedTokenFarm);
 
             // wait for 24h
             await waitSeconds(24 * 60 * 60)
@@ -193,4 +285,338 @@ describe("TokenFarm", function () {
 
     })
 
-});
\ No newline at end of file
+    describe("reward rate", function () {
+
+        it("has the initial reward rate", async function () {
+            const { tokenFarm } = await loadFixture(deployTokenFarm);
+
+            expect( await tokenFarm.rewardRate() ).to.be.equal( toWei(10) )
+            expect( await tokenFarm.rewardEpochsCount() ).to.be.equal(1)
+            expect( await tokenFarm.emissionEnd() ).to.be.equal(0)
+        });
+
+        it("can change the reward rate without changing the rewards already farmed", async function () {
+            const { tokenFarm, rewardToken, owner, user0 } = await loadFixture(deployStakedTokenFarm);
+            const stakeTime = (await tokenFarm.ownerToTimeFarming(user0.address)).toNumber()
+
+            // wait for 24h and double the reward rate
+            await waitSeconds(day)
+            await expect( tokenFarm.connect(owner).setRewardRate(toWei(20)) ).to.emit(tokenFarm, "RewardEpochScheduled")
+            const rateChangeTime = await getLastBlockTimestamp()
+
+            // wait for 24h and claim the ERC20 token
+            await waitSeconds(day)
+            await tokenFarm.connect(user0).claimTokens(1);
+            const claimTime = await getLastBlockTimestamp()
+
+            const expected = toWei(10).mul(rateChangeTime - stakeTime)
+                .add( toWei(20).mul(claimTime - rateChangeTime) )
+                .div(day)
+
+            expect( await tokenFarm.rewardRate() ).to.be.equal( toWei(20) )
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.equal(expected)
+        });
+
+        it("can claim the exact rewards across several scheduled epochs", async function () {
+            const { tokenFarm, rewardToken, owner, user0 } = await loadFixture(deployTwoStakedTokenFarm);
+            const stakeTime = (await tokenFarm.ownerToTimeFarming(user0.address)).toNumber()
+
+            // the NFT 1 was staked 1 second before the NFT 2
+            const farmedBeforeStakeTime = toWei(10).div(day)
+
+            // 10 tokens on day 1, 20 tokens on day 2, 5 tokens on day 3, then emissions stop
+            await expect( tokenFarm.connect(owner).scheduleRewardEpoch(stakeTime + day, toWei(20)) )
+                .to.emit(tokenFarm, "RewardEpochScheduled").withArgs(stakeTime + day, toWei(20))
+            await tokenFarm.connect(owner).scheduleRewardEpoch(stakeTime + 2 * day, toWei(5))
+            await expect( tokenFarm.connect(owner).setEmissionEnd(stakeTime + 3 * day) )
+                .to.emit(tokenFarm, "EmissionEndSet").withArgs(stakeTime + 3 * day)
+
+            // claim half way through day 2
+            await time.increaseTo(stakeTime + day + day / 2 - 1)
+            await tokenFarm.connect(user0).claimTokens(1);
+
+            // 2 NFTs farmed 10 tokens for 1 day and 20 tokens for 12h
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.equal( toWei(2 * (10 + 10)).add(farmedBeforeStakeTime) )
+
+            // claim after the emission end
+            await time.increaseTo(stakeTime + 4 * day)
+            await tokenFarm.connect(user0).claimTokens(1);
+
+            // 2 NFTs farmed 10 + 20 + 5 tokens
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.equal( toWei(2 * 35).add(farmedBeforeStakeTime) )
+            expect( await tokenFarm.rewardRate() ).to.be.equal(0)
+        });
+
+        it("stops farming after the emission end", async function () {
+            const { tokenFarm, owner, user0 } = await loadFixture(deployStakedTokenFarm);
+            const stakeTime = (await tokenFarm.ownerToTimeFarming(user0.address)).toNumber()
+
+            await tokenFarm.connect(owner).setEmissionEnd(stakeTime + day)
+
+            await time.increaseTo(stakeTime + 3 * day)
+            await time.increase(1) // mine a block with the new timestamp
+
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.be.equal( toWei(10) )
+        });
+
+        it("reverts when called by non-owner", async function () {
+            const { tokenFarm, user0 } = await loadFixture(deployTokenFarm);
+            const now = await getLastBlockTimestamp()
+
+            await expect( tokenFarm.connect(user0).setRewardRate(toWei(20)) ).to.be.revertedWith("Ownable: caller is not the owner")
+            await expect( tokenFarm.connect(user0).scheduleRewardEpoch(now + day, toWei(20)) ).to.be.revertedWith("Ownable: caller is not the owner")
+            await expect( tokenFarm.connect(user0).setEmissionEnd(now + day) ).to.be.revertedWith("Ownable: caller is not the owner")
+        });
+
+        it("reverts when scheduling an epoch before the last epoch", async function () {
+            const { tokenFarm, owner } = await loadFixture(deployTokenFarm);
+            const now = await getLastBlockTimestamp()
+
+            // epochs can't start in the past
+            await expect( 
+                tokenFarm.connect(owner).scheduleRewardEpoch(now - 1, toWei(20))
+            ).to.be.revertedWithCustomError(tokenFarm, "InvalidEpochStart")
+
+            await tokenFarm.connect(owner).scheduleRewardEpoch(now + 2 * day, toWei(20))
+
+            // epochs can't start before the last epoch scheduled
+            await expect( 
+                tokenFarm.connect(owner).scheduleRewardEpoch(now + day, toWei(5))
+            ).to.be.revertedWithCustomError(tokenFarm, "InvalidEpochStart")
+
+            // the rate can't change now when an epoch is scheduled in the future
+            await expect( 
+                tokenFarm.connect(owner).setRewardRate(toWei(5))
+            ).to.be.revertedWithCustomError(tokenFarm, "InvalidEpochStart")
+        });
+
+        it("reverts when changing the emission end after it is reached", async function () {
+            const { tokenFarm, owner } = await loadFixture(deployTokenFarm);
+            const now = await getLastBlockTimestamp()
+
+            // the emission end can't be in the past
+            await expect( 
+                tokenFarm.connect(owner).setEmissionEnd(now - 1)
+            ).to.be.revertedWithCustomError(tokenFarm, "InvalidEmissionEnd")
+
+            await tokenFarm.connect(owner).setEmissionEnd(now + day)
+            await waitSeconds(2 * day)
+
+            await expect( 
+                tokenFarm.connect(owner).setEmissionEnd(0)
+            ).to.be.revertedWithCustomError(tokenFarm, "EmissionsEnded")
+            await expect( 
+                tokenFarm.connect(owner).setRewardRate(toWei(20))
+            ).to.be.revertedWithCustomError(tokenFarm, "EmissionsEnded")
+        });
+    })
+
+    describe("batch", function () {
+
+        it("can stake many NFTs approved for all", async function () {
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployTokenFarmWith5NFTs);
+
+            await myNFT.connect(user0).setApprovalForAll(tokenFarm.address, true)
+            const tx = tokenFarm.connect(user0).stakeMany([1, 2, 3, 4, 5])
+
+            for (const tokenId of range(1, 5)) {
+                await expect( tx ).to.emit(tokenFarm, "Deposited").withArgs(user0.address, tokenId)
+                expect( await myNFT.ownerOf(tokenId) ).to.be.equal(tokenFarm.address)
+                expect( await tokenFarm.tokenToOwner(tokenId) ).to.be.equal(user0.address)
+            }
+            expect( await tokenFarm.stakedCount(user0.address) ).to.be.equal(5)
+        });
+
+        it("can stake many NFTs approved one by one", async function () {
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployTokenFarmWith5NFTs);
+
+            await myNFT.connect(user0).approve(tokenFarm.address, 1)
+            await myNFT.connect(user0).approve(tokenFarm.address, 3)
+            await tokenFarm.connect(user0).stakeMany([1, 3])
+
+            expect( await myNFT.ownerOf(1) ).to.be.equal(tokenFarm.address)
+            expect( await myNFT.ownerOf(3) ).to.be.equal(tokenFarm.address)
+            expect( await tokenFarm.stakedCount(user0.address) ).to.be.equal(2)
+        });
+
+        it("farms 10 tokens for each NFT staked in a batch", async function () {
+            const { tokenFarm, myNFT, rewardToken, user0 } = await loadFixture(deployTokenFarmWith5NFTs);
+
+            await myNFT.connect(user0).setApprovalForAll(tokenFarm.address, true)
+            await tokenFarm.connect(user0).stakeMany([1, 2, 3])
+
+            // wait for 24h
+            await waitSeconds(day)
+
+            await tokenFarm.connect(user0).claimAll()
+
+            expect( toUnits(await rewardToken.balanceOf(user0.address)) ).to.be.approximately(30, 0.001)
+        });
+
+        it("reverts when staking NFTs not approved", async function () {
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployTokenFarmWith5NFTs);
+
+            await myNFT.connect(user0).approve(tokenFarm.address, 1)
+
+            await expect( 
+                tokenFarm.connect(user0).stakeMany([1, 2])
+            ).to.be.revertedWithCustomError(tokenFarm, "TokenTransferNotApproved")
+        });
+
+        it("reverts when staking NFTs of another user", async function () {
+            const { tokenFarm, myNFT, user0, user1 } = await loadFixture(deployTokenFarmWith5NFTs);
+
+            await myNFT.connect(user0).setApprovalForAll(tokenFarm.address, true)
+
+            await expect( 
+                tokenFarm.connect(user1).stakeMany([1])
+            ).to.be.revertedWithCustomError(tokenFarm, "TokenTransferNotApproved")
+
+            await myNFT.connect(user0).approve(tokenFarm.address, 1)
+
+            await expect( 
+                tokenFarm.connect(user1).stakeMany([1])
+            ).to.be.revertedWith("ERC721: transfer from incorrect owner")
+        });
+
+        it("can withdraw many NFTs and claim their tokens", async function () {
+            const { tokenFarm, myNFT, rewardToken, user0 } = await loadFixture(deployTokenFarmWith5NFTs);
+
+            await myNFT.connect(user0).setApprovalForAll(tokenFarm.address, true)
+            await tokenFarm.connect(user0).stakeMany([1, 2, 3])
+
+            // wait for 24h
+            await waitSeconds(day)
+
+            const tx = tokenFarm.connect(user0).withdrawMany([1, 3])
+            await expect( tx ).to.emit(tokenFarm, "Withdrawn").withArgs(user0.address, 1)
+            await expect( tx ).to.emit(tokenFarm, "Withdrawn").withArgs(user0.address, 3)
+            await expect( tx ).to.emit(tokenFarm, "Claimed")
+
+            expect( await myNFT.ownerOf(1) ).to.be.equal(user0.address)
+            expect( await myNFT.ownerOf(2) ).to.be.equal(tokenFarm.address)
+            expect( await myNFT.ownerOf(3) ).to.be.equal(user0.address)
+            expect( await tokenFarm.stakedCount(user0.address) ).to.be.equal(1)
+            expect( toUnits(await rewardToken.balanceOf(user0.address)) ).to.be.approximately(30, 0.001)
+        });
+
+        it("reverts when withdrawing NFTs not staked by the caller", async function () {
+            const { tokenFarm, myNFT, user0, user1 } = await loadFixture(deployTokenFarmWith5NFTs);
+
+            await myNFT.connect(user0).setApprovalForAll(tokenFarm.address, true)
+            await tokenFarm.connect(user0).stakeMany([1, 2])
+
+            await expect( 
+                tokenFarm.connect(user1).withdrawMany([1])
+            ).to.be.revertedWithCustomError(tokenFarm, "NotTheTokenOwner")
+
+            // the same NFT can't be withdrawn twice
+            await expect( 
+                tokenFarm.connect(user0).withdrawMany([1, 1])
+            ).to.be.revertedWithCustomError(tokenFarm, "NotTheTokenOwner")
+        });
+
+        it("can claim all the tokens farmed with one call", async function () {
+            const { tokenFarm, rewardToken, user0 } = await loadFixture(deployTwoStakedTokenFarm);
+
+            // wait for 24h
+            await waitSeconds(day)
+
+            await expect( tokenFarm.connect(user0).claimAll() ).to.emit(tokenFarm, "Claimed")
+
+            expect( toUnits(await rewardToken.balanceOf(user0.address)) ).to.be.approximately(20, 0.001)
+            expect( await tokenFarm.claimableTokens(user0.address) ).to.be.equal(0)
+        });
+
+        it("uses less gas to stake and withdraw many NFTs than one at a time", async function () {
+            const { tokenFarm, myNFT, user0 } = await loadFixture(deployTokenFarmWith5NFTs);
+            const tokenIds = range(1, 5)
+
+            const gasUsed = async (tx: Promise<ContractTransaction>) => (await (await tx).wait()).gasUsed
+
+            // stake and withdraw one at a time
+            let singleGas = BigNumber.from(0)
+            for (const tokenId of tokenIds) {
+                singleGas = singleGas.add( await gasUsed(myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, tokenFarm.address, tokenId)) )
+            }
+            for (const tokenId of tokenIds) {
+                singleGas = singleGas.add( await gasUsed(tokenFarm.connect(user0).withdraw(tokenId)) )
+            }
+
+            // stake and withdraw in a batch
+            await myNFT.connect(user0).setApprovalForAll(tokenFarm.address, true)
+            const batchGas = (await gasUsed(tokenFarm.connect(user0).stakeMany(tokenIds)))
+                .add( await gasUsed(tokenFarm.connect(user0).withdrawMany(tokenIds)) )
+
+            expect( batchGas ).to.be.lessThan(singleGas)
+        });
+    })
+
+    describe("staked tokens", function () {
+
+        // user0 holds the NFTs from 1 to 4 and user1 holds the NFTs from 5 to 8
+        const deployTokenFarmWith2Stakers = fixture({ holdings: { user0: range(1, 4), user1: range(5, 8) } });
+
+        const sorted = (tokenIds: (BigNumber | string)[]) => tokenIds.map(id => id.toString()).sort()
+
+        it("has no staked NFTs", async function () {
+            const { tokenFarm, user0 } = await loadFixture(deployTokenFarmWith2Stakers);
+
+            expect( await tokenFarm.stakedTokensOf(user0.address) ).to.be.empty
+            expect( await tokenFarm.stakedCount(user0.address) ).to.be.equal(0)
+            expect( await tokenFarm.totalStaked() ).to.be.equal(0)
+        });
+
+        it("enumerates the NFTs staked by each user", async function () {
+            const { tokenFarm, myNFT, user0, user1 } = await loadFixture(deployTokenFarmWith2Stakers);
+
+            await myNFT.connect(user0).setApprovalForAll(tokenFarm.address, true)
+            await tokenFarm.connect(user0).stakeMany([1, 2, 3])
+            await myNFT.connect(user1)["safeTransferFrom(address,address,uint256)"](user1.address, tokenFarm.address, 6)
+            await tokenFarm.connect(user0).withdraw(2)
+
+            expect( sorted(await tokenFarm.stakedTokensOf(user0.address)) ).to.be.deep.equal(["1", "3"])
+            expect( sorted(await tokenFarm.stakedTokensOf(user1.address)) ).to.be.deep.equal(["6"])
+            expect( await tokenFarm.stakedCount(user0.address) ).to.be.equal(2)
+            expect( await tokenFarm.stakedCount(user1.address) ).to.be.equal(1)
+            expect( await tokenFarm.totalStaked() ).to.be.equal(3)
+        });
+
+        it("rebuilds the staking state from the events", async function () {
+            const { tokenFarm, myNFT, user0, user1 } = await loadFixture(deployTokenFarmWith2Stakers);
+
+            await myNFT.connect(user0).setApprovalForAll(tokenFarm.address, true)
+            await myNFT.connect(user1).setApprovalForAll(tokenFarm.address, true)
+
+            await tokenFarm.connect(user0).stakeMany([1, 2, 3, 4])
+            await myNFT.connect(user1)["safeTransferFrom(address,address,uint256)"](user1.address, tokenFarm.address, 5)
+            await tokenFarm.connect(user1).stakeMany([7, 8])
+            await tokenFarm.connect(user0).withdrawMany([2, 4])
+            const blockNumber = await tokenFarm.provider.getBlockNumber()
+
+            // user0 sends a withdrawn NFT to user1, who stakes it
+            await myNFT.connect(user0).transferFrom(user0.address, user1.address, 2)
+            await tokenFarm.connect(user1).stakeMany([2])
+            await tokenFarm.connect(user1).withdraw(5)
+
+            const state = await rebuildStakingState(tokenFarm)
+
+            for (const user of [ user0, user1 ]) {
+                const stakedTokens = state.stakedTokens.get(user.address) ?? []
+                expect( sorted(stakedTokens) ).to.be.deep.equal( sorted(await tokenFarm.stakedTokensOf(user.address)) )
+            }
+            for (const tokenId of range(1, 8)) {
+                const staker = state.tokenToOwner.get(tokenId.toString()) ?? ethers.constants.AddressZero
+                expect( staker ).to.be.equal( await tokenFarm.tokenToOwner(tokenId) )
+            }
+            expect( state.totalStaked ).to.be.equal( await tokenFarm.totalStaked() )
+
+            // the state at a past block
+            const pastState = await rebuildStakingState(tokenFarm, blockNumber)
+            expect( sorted(pastState.stakedTokens.get(user0.address)!) ).to.be.deep.equal(["1", "3"])
+            expect( sorted(pastState.stakedTokens.get(user1.address)!) ).to.be.deep.equal(["5", "7", "8"])
+            expect( pastState.totalStaked ).to.be.equal(5)
+        });
+    })
+
+});
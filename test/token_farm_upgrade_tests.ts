@@ -0,0 +1,444 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+
+import { day, getLastBlockTimestamp, toWei, waitSeconds } from "./helpers/test_helpers";
+import { Fixture, fixture, migrateFarmAfterDelay } from "./helpers/fixtures";
+import { checkMigration, migrateFarm } from "../scripts/migrate_farm";
+import { rebuildStakingState } from "../scripts/staking_state";
+import { TokenFarmUpgradeable } from "../typechain-types";
+
+
+describe("TokenFarm upgrades", function () {
+
+    // user0 holds the NFTs 1, 2 and 3, user1 holds the NFTs 4 and 5, the NFTs 1 and 4 are staked in the legacy TokenFarm
+    const deployTokenFarm = fixture({ holdings: { user0: [1, 2, 3], user1: [4, 5] }, staked: [1, 4] });
+
+    const log = () => {};
+
+    /**
+     * @param deployment the fixture
+     * @returns a TokenFarmUpgradeable proxy with the settings of the legacy TokenFarm and its StakeReceipt, minting the reward token
+     */
+    const deployProxy = async ({ myNFT, rewardToken, forwarder }: Fixture) => {
+        const farm = await upgrades.deployProxy(
+            await ethers.getContractFactory("TokenFarmUpgradeable"),
+            [ myNFT.address, rewardToken.address, toWei(10), forwarder.address ],
+            { kind: "transparent" },
+        ) as TokenFarmUpgradeable;
+
+        const stakeReceipt = await (await ethers.getContractFactory("StakeReceipt")).deploy(myNFT.address, farm.address);
+        await farm.setReceiptToken(stakeReceipt.address);
+
+        await rewardToken.grantRole(await rewardToken.MINTER_ROLE(), farm.address);
+
+        return farm;
+    }
+
+    // user0 staked the NFT 2 and locked the NFT 3 for 73 days in the proxy
+    const deployStakedProxy = async () => {
+        const deployment = await deployTokenFarm();
+        const { myNFT, user0 } = deployment;
+        const farm = await deployProxy(deployment);
+
+        await myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, farm.address, 2);
+        await myNFT.connect(user0).approve(farm.address, 3);
+        await farm.connect(user0).stakeWithLock(3, 73 * day);
+
+        return { ...deployment, farm };
+    }
+
+    // user0 also locked the NFT 3 for 73 days and user1 staked the NFT 5 a day later in the legacy TokenFarm
+    const deployLegacyStakes = async () => {
+        const deployment = await deployTokenFarm();
+        const { tokenFarm, myNFT, user0, user1 } = deployment;
+
+        await myNFT.connect(user0).approve(tokenFarm.address, 3);
+        await tokenFarm.connect(user0).stakeWithLock(3, 73 * day);
+
+        await waitSeconds(day);
+        await myNFT.connect(user1)["safeTransferFrom(address,address,uint256)"](user1.address, tokenFarm.address, 5);
+        await waitSeconds(day);
+
+        const farm = await deployProxy(deployment);
+
+        return { ...deployment, farm };
+    }
+
+
+    describe("proxy", function () {
+
+        it("is initialized once", async function () {
+            const { farm, myNFT, rewardToken, forwarder, owner } = await loadFixture(deployStakedProxy);
+
+            expect( await farm.owner() ).to.be.equal( owner.address )
+            expect( await farm.nftToken() ).to.be.equal( myNFT.address )
+            expect( await farm.rewardToken() ).to.be.equal( rewardToken.address )
+            expect( await farm.trustedForwarder() ).to.be.equal( forwarder.address )
+
+            await expect(
+                farm.initialize(myNFT.address, rewardToken.address, toWei(10), forwarder.address)
+            ).to.be.revertedWith("Initializable: contract is already initialized")
+
+            // the implementation can't be initialized
+            const implementation = await ethers.getContractAt("TokenFarmUpgradeable", await upgrades.erc1967.getImplementationAddress(farm.address));
+            await expect(
+                implementation.initialize(myNFT.address, rewardToken.address, toWei(10), forwarder.address)
+            ).to.be.revertedWith("Initializable: contract is already initialized")
+        });
+
+        it("mints the receipts of the NFTs staked", async function () {
+            const { farm, user0 } = await loadFixture(deployStakedProxy);
+
+            const stakeReceipt = await ethers.getContractAt("StakeReceipt", await farm.receiptToken());
+            expect( await stakeReceipt.farm() ).to.be.equal( farm.address )
+            expect( await stakeReceipt.balanceOf(user0.address) ).to.be.equal( 2 )
+
+            await farm.connect(user0).withdraw(2);
+            expect( await stakeReceipt.balanceOf(user0.address) ).to.be.equal( 1 )
+            expect( await stakeReceipt.ownerOf(3) ).to.be.equal( user0.address )
+        });
+
+        it("sets the receipt token of the proxy once", async function () {
+            const { farm, myNFT, rewardToken, forwarder, user0 } = await loadFixture(deployStakedProxy);
+
+            const receiptFactory = await ethers.getContractFactory("StakeReceipt");
+            await expect(
+                farm.setReceiptToken((await receiptFactory.deploy(myNFT.address, farm.address)).address)
+            ).to.be.revertedWithCustomError(farm, "InvalidReceiptToken")
+
+            const newFarm = await upgrades.deployProxy(
+                await ethers.getContractFactory("TokenFarmUpgradeable"),
+                [ myNFT.address, rewardToken.address, toWei(10), forwarder.address ],
+                { kind: "transparent" },
+            ) as TokenFarmUpgradeable;
+
+            // the NFTs can't be staked until the receipt token is set
+            await expect(
+                myNFT.connect(user0)["safeTransferFrom(address,address,uint256)"](user0.address, newFarm.address, 1)
+            ).to.be.reverted
+
+            // the receipts must be minted by the proxy
+            await expect(
+                newFarm.setReceiptToken((await receiptFactory.deploy(myNFT.address, farm.address)).address)
+            ).to.be.revertedWithCustomError(newFarm, "InvalidReceiptToken")
+
+            const stakeReceipt = await receiptFactory.deploy(myNFT.address, newFarm.address);
+            await expect(
+                newFarm.connect(user0).setReceiptToken(stakeReceipt.address)
+            ).to.be.revertedWith("Ownable: caller is not the owner")
+
+            await expect(
+                newFarm.setReceiptToken(stakeReceipt.address)
+            ).to.emit(newFarm, "ReceiptTokenSet").withArgs(stakeReceipt.address)
+        });
+
+        it("farms the rewards of the NFTs staked", async function () {
+            const { farm, rewardToken, user0 } = await loadFixture(deployStakedProxy);
+
+            await waitSeconds(day);
+            await farm.connect(user0).claimAll();
+
+            // 2 NFTs staked for about 1 day at 10 tokens per day
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.closeTo( toWei(20), toWei(0.01) )
+        });
+    })
+
+    describe("upgrade", function () {
+
+        it("keeps the stakes and the rewards", async function () {
+            const { farm, rewardToken, user0 } = await loadFixture(deployStakedProxy);
+
+            const stakedAt = await farm.ownerToTimeFarming(user0.address);
+            const unclaimed = await farm.ownerToUnclaimedRewards(user0.address);
+            const lock = await farm.tokenLocks(3);
+            await waitSeconds(10 * day);
+
+            const upgraded = await upgrades.upgradeProxy(farm.address, await ethers.getContractFactory("TokenFarmUpgradeableV2"));
+
+            expect( upgraded.address ).to.be.equal( farm.address )
+            expect( await upgraded.version() ).to.be.equal( 2 )
+
+            expect( (await farm.stakedTokensOf(user0.address)).map(Number) ).to.be.deep.equal( [ 2, 3 ] )
+            expect( await farm.totalStaked() ).to.be.equal( 2 )
+            expect( await farm.tokenToOwner(3) ).to.be.equal( user0.address )
+            expect( await farm.tokenLocks(3) ).to.be.deep.equal( lock )
+            expect( await farm.ownerToTimeFarming(user0.address) ).to.be.equal( stakedAt )
+
+            // the base rewards of 2 NFTs since the last checkpoint, the boost of the NFT 3 is claimable when the lock expires
+            await farm.connect(user0).claimAll();
+            const claimedAt = await getLastBlockTimestamp();
+
+            const expected = unclaimed.add(toWei(10).mul(claimedAt - stakedAt.toNumber()).mul(2).div(day));
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.equal( expected )
+        });
+
+        it("only the owner of the proxy admin can upgrade", async function () {
+            const { farm, user0 } = await loadFixture(deployStakedProxy);
+
+            await expect(
+                upgrades.upgradeProxy(farm.address, await ethers.getContractFactory("TokenFarmUpgradeableV2", user0))
+            ).to.be.rejectedWith("Ownable: caller is not the owner")
+        });
+    })
+
+    describe("migration", function () {
+
+        it("imports the stakes of the legacy farm", async function () {
+            const { tokenFarm, farm, rewardToken, myNFT, user0, user1 } = await loadFixture(deployLegacyStakes);
+
+            const report = await migrateFarmAfterDelay(tokenFarm, farm, rewardToken, { log });
+            const legacyTag = { blockTag: report.legacyBlock };
+
+            expect( report.stakers ).to.be.deep.equal( [ user0.address, user1.address ] )
+            expect( report.tokenIds ).to.be.deep.equal( [ "1", "3", "4", "5" ] )
+
+            for (const tokenId of [1, 3, 4, 5]) {
+                expect( await myNFT.ownerOf(tokenId) ).to.be.equal( farm.address )
+                expect( await farm.tokenToOwner(tokenId) ).to.be.equal( await tokenFarm.tokenToOwner(tokenId, legacyTag) )
+                expect( await farm.tokenLocks(tokenId) ).to.be.deep.equal( await tokenFarm.tokenLocks(tokenId, legacyTag) )
+            }
+
+            for (const user of [ user0, user1 ]) {
+                expect( await farm.ownerToTimeFarming(user.address) ).to.be.equal( await tokenFarm.ownerToTimeFarming(user.address, legacyTag) )
+                expect( await farm.ownerToUnclaimedRewards(user.address) ).to.be.equal( await tokenFarm.ownerToUnclaimedRewards(user.address, legacyTag) )
+            }
+            expect( await farm.ownerToUnclaimedRewards(user1.address) ).to.be.gt( 0 )
+            expect( await farm.totalStaked() ).to.be.equal( 4 )
+            expect( await farm.rewardEpochs(0) ).to.be.deep.equal( await tokenFarm.rewardEpochs(0) )
+            expect( await farm.legacyFarm() ).to.be.equal( tokenFarm.address )
+            expect( await farm.paused() ).to.be.false
+        });
+
+        it("clears the stakes of the legacy farm", async function () {
+            const { tokenFarm, farm, rewardToken, stakeReceipt, user0, user1 } = await loadFixture(deployLegacyStakes);
+
+            await migrateFarmAfterDelay(tokenFarm, farm, rewardToken, { log });
+
+            const migrated = await tokenFarm.queryFilter(tokenFarm.filters.StakeMigrated(null, null, farm.address));
+            expect( migrated.map(event => event.args.tokenId.toNumber()).sort() ).to.be.deep.equal( [1, 3, 4, 5] )
+
+            for (const tokenId of [1, 3, 4, 5]) {
+                expect( await tokenFarm.tokenToOwner(tokenId) ).to.be.equal( ethers.constants.AddressZero )
+                expect( (await tokenFarm.tokenLocks(tokenId)).end ).to.be.equal( 0 )
+            }
+
+            for (const user of [ user0, user1 ]) {
+                expect( await tokenFarm.stakedCount(user.address) ).to.be.equal( 0 )
+                expect( await tokenFarm.ownerToTimeFarming(user.address) ).to.be.equal( 0 )
+                expect( await tokenFarm.ownerToUnclaimedRewards(user.address) ).to.be.equal( 0 )
+                expect( await tokenFarm.claimableTokens(user.address) ).to.be.equal( 0 )
+            }
+
+            expect( await tokenFarm.totalStaked() ).to.be.equal( 0 )
+            expect( await stakeReceipt.totalSupply() ).to.be.equal( 0 )
+
+            // the staking state rebuilt from the events of both farms
+            expect( (await rebuildStakingState(tokenFarm)).totalStaked ).to.be.equal( 0 )
+            const { stakedTokens } = await rebuildStakingState(await ethers.getContractAt("TokenFarm", farm.address));
+            expect( stakedTokens.get(user0.address) ).to.have.members( [ "1", "3" ] )
+            expect( stakedTokens.get(user1.address) ).to.have.members( [ "4", "5" ] )
+        });
+
+        it("keeps the rewards accruing as in the legacy farm", async function () {
+            const { tokenFarm, farm, rewardToken, user0, user1 } = await loadFixture(deployLegacyStakes);
+
+            const { legacyBlock } = await migrateFarmAfterDelay(tokenFarm, farm, rewardToken, { log });
+            const legacyClaimable = await tokenFarm.claimableTokens(user0.address, { blockTag: legacyBlock });
+            expect( await farm.claimableTokens(user0.address) ).to.be.closeTo( legacyClaimable, toWei(0.01) )
+
+            // past the end of the lock
+            await waitSeconds(80 * day);
+            await checkMigration(tokenFarm, farm, [ user0.address, user1.address ], legacyBlock);
+
+            const claimable = await farm.claimableTokens(user0.address);
+
+            // the NFT 1 staked for 89 days and the NFT 3 locked for 73 days with a 1.4x boost then staked for 16 days
+            expect( claimable ).to.be.closeTo( toWei(10 * 89 + 10 * 89 + 4 * 73), toWei(0.01) )
+
+            await farm.connect(user0).withdraw(3);
+            expect( await rewardToken.balanceOf(user0.address) ).to.be.closeTo( claimable, toWei(0.01) )
+        });
+
+        it("moves the NFTs and the minter role to the new farm", async function () {
+            const { tokenFarm, farm, rewardToken, myNFT, user1 } = await loadFixture(deployLegacyStakes);
+
+            await migrateFarmAfterDelay(tokenFarm, farm, rewardToken, { log });
+
+            const minterRole = await rewardToken.MINTER_ROLE();
+            expect( await rewardToken.hasRole(minterRole, farm.address) ).to.be.true
+            expect( await rewardToken.hasRole(minterRole, tokenFarm.address) ).to.be.false
+
+            // the legacy farm holds no NFTs
+            expect( await myNFT.balanceOf(tokenFarm.address) ).to.be.equal( 0 )
+            await tokenFarm.connect(user1).emergencyWithdraw();
+            expect( await myNFT.balanceOf(user1.address) ).to.be.equal( 0 )
+
+            await farm.connect(user1).emergencyWithdraw();
+            expect( await myNFT.balanceOf(user1.address) ).to.be.equal( 2 )
+        });
+
+        it("skips the stakers already imported when run again", async function () {
+            const { tokenFarm, farm, rewardToken } = await loadFixture(deployLegacyStakes);
+
+            await migrateFarmAfterDelay(tokenFarm, farm, rewardToken, { log, batchSize: 1 });
+            const report = await migrateFarm(tokenFarm, farm, rewardToken, { log });
+
+            expect( report.stakers ).to.be.empty
+            expect( await farm.totalStaked() ).to.be.equal( 4 )
+        });
+
+        it("only the owner can import the legacy farm", async function () {
+            const { tokenFarm, farm, user0 } = await loadFixture(deployLegacyStakes);
+
+            await expect(
+                farm.connect(user0).importRewardSchedule(tokenFarm.address)
+            ).to.be.revertedWith("Ownable: caller is not the owner")
+
+            await expect(
+                farm.connect(user0).importStakes([ user0.address ])
+            ).to.be.revertedWith("Ownable: caller is not the owner")
+
+            await expect(
+                tokenFarm.connect(user0).approveMigration(farm.address)
+            ).to.be.revertedWith("Ownable: caller is not the owner")
+        });
+
+        it("imports while both farms are paused", async function () {
+            const { tokenFarm, farm, user0 } = await loadFixture(deployLegacyStakes);
+
+            await expect(
+                farm.importRewardSchedule(tokenFarm.address)
+            ).to.be.revertedWith("Pausable: not paused")
+
+            await expect(
+                tokenFarm.approveMigration(farm.address)
+            ).to.be.revertedWith("Pausable: not paused")
+
+            await farm.pause();
+            await expect(
+                farm.importRewardSchedule(tokenFarm.address)
+            ).to.be.revertedWithCustomError(farm, "LegacyFarmNotPaused")
+
+            await tokenFarm.pause();
+            await farm.importRewardSchedule(tokenFarm.address);
+            await tokenFarm.unpause();
+
+            await expect(
+                farm.importStakes([ user0.address ])
+            ).to.be.revertedWithCustomError(farm, "LegacyFarmNotPaused")
+        });
+
+        it("imports the stakes of the legacy farm once", async function () {
+            const { tokenFarm, farm, user0 } = await loadFixture(deployLegacyStakes);
+
+            await tokenFarm.pause();
+            await farm.pause();
+
+            // the reward schedule is imported first
+            await expect(
+                farm.importStakes([ user0.address ])
+            ).to.be.revertedWithCustomError(farm, "InvalidLegacyFarm")
+
+            await expect(
+                farm.importRewardSchedule(tokenFarm.address)
+            ).to.emit(farm, "RewardScheduleImported").withArgs(tokenFarm.address, 1)
+
+            await expect(
+                farm.importRewardSchedule(tokenFarm.address)
+            ).to.be.revertedWithCustomError(farm, "InvalidLegacyFarm")
+
+            // the new farm must be approved to release the stakes of the legacy farm
+            await expect(
+                farm.importStakes([ user0.address ])
+            ).to.be.revertedWithCustomError(tokenFarm, "InvalidCaller")
+
+            await tokenFarm.approveMigration(farm.address);
+            const effectiveAt = (await getLastBlockTimestamp()) + 7 * day;
+            expect( await tokenFarm.migrationFarm() ).to.be.equal( farm.address )
+            expect( await tokenFarm.migrationEffectiveAt() ).to.be.equal( effectiveAt )
+
+            await expect(
+                tokenFarm.connect(user0).releaseStakes(user0.address)
+            ).to.be.revertedWithCustomError(tokenFarm, "InvalidCaller")
+
+            // the stakes are released after the migration delay
+            await expect(
+                farm.importStakes([ user0.address ])
+            ).to.be.revertedWithCustomError(tokenFarm, "MigrationNotEffective").withArgs(effectiveAt)
+
+            await time.increaseTo(effectiveAt);
+
+            await expect(
+                farm.importStakes([ user0.address ])
+            ).to.emit(farm, "StakeImported").withArgs(user0.address, 1)
+                .and.to.emit(tokenFarm, "StakeMigrated").withArgs(user0.address, 1, farm.address)
+
+            await expect(
+                farm.importStakes([ user0.address ])
+            ).to.be.revertedWithCustomError(farm, "AlreadyImported").withArgs(user0.address)
+        });
+
+        it("approves the migration to a farm of the same NFT", async function () {
+            const { tokenFarm, farm, rewardToken, forwarder, user0 } = await loadFixture(deployLegacyStakes);
+
+            await tokenFarm.pause();
+
+            // an account with no code
+            await expect(
+                tokenFarm.approveMigration(user0.address)
+            ).to.be.revertedWithCustomError(tokenFarm, "InvalidMigrationFarm")
+
+            const otherNFT = await (await ethers.getContractFactory("SimpleNFT")).deploy();
+            const otherFarm = await (await ethers.getContractFactory("TokenFarm")).deploy(
+                otherNFT.address, rewardToken.address, toWei(10), forwarder.address,
+            );
+            await expect(
+                tokenFarm.approveMigration(otherFarm.address)
+            ).to.be.revertedWithCustomError(tokenFarm, "InvalidMigrationFarm")
+
+            const approval = await tokenFarm.approveMigration(farm.address);
+            const effectiveAt = (await getLastBlockTimestamp()) + 7 * day;
+            await expect( approval ).to.emit(tokenFarm, "MigrationApproved").withArgs(farm.address, effectiveAt)
+        });
+
+        it("lets the stakers withdraw during the migration delay", async function () {
+            const { tokenFarm, farm, rewardToken, myNFT, user0, user1 } = await loadFixture(deployLegacyStakes);
+
+            const pending = await migrateFarm(tokenFarm, farm, rewardToken, { log });
+            expect( pending.pending ).to.be.true
+            expect( pending.stakers ).to.be.empty
+            expect( pending.effectiveAt ).to.be.equal( await tokenFarm.migrationEffectiveAt() )
+            expect( await farm.totalStaked() ).to.be.equal( 0 )
+
+            // user1 leaves the paused legacy farm with the NFTs 4 and 5
+            await tokenFarm.connect(user1).emergencyWithdraw();
+            expect( await myNFT.balanceOf(user1.address) ).to.be.equal( 2 )
+
+            await time.increaseTo(pending.effectiveAt);
+            const report = await migrateFarm(tokenFarm, farm, rewardToken, { log });
+
+            expect( report.pending ).to.be.false
+            expect( report.stakers ).to.be.deep.equal( [ user0.address ] )
+            expect( report.tokenIds ).to.be.deep.equal( [ "1", "3" ] )
+            expect( await farm.totalStaked() ).to.be.equal( 2 )
+        });
+
+        it("imports the legacy farm of the same NFT only", async function () {
+            const { farm, rewardToken, forwarder } = await loadFixture(deployLegacyStakes);
+
+            const otherNFT = await (await ethers.getContractFactory("SimpleNFT")).deploy();
+            const otherFarm = await (await ethers.getContractFactory("TokenFarm")).deploy(
+                otherNFT.address, rewardToken.address, toWei(10), forwarder.address,
+            );
+            await otherFarm.pause();
+            await farm.pause();
+
+            await expect(
+                farm.importRewardSchedule(otherFarm.address)
+            ).to.be.revertedWithCustomError(farm, "InvalidLegacyFarm")
+        });
+    })
+
+});
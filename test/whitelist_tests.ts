@@ -0,0 +1,152 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { deployMyNFT } from "./helpers/fixtures";
+import { buildWhitelist, loadWhitelistRoot, readWhitelistFile, writeWhitelist } from "../scripts/whitelist";
+
+
+describe("Whitelist builder", function () {
+
+    const addresses = [
+        "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+        "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC",
+        "0x90F79bf6EB2c4f870365E785982E1f101E93b906",
+    ];
+
+    describe("build", function () {
+
+        it("assigns the index of each address in the list", async function () {
+            const { proofs } = buildWhitelist(addresses);
+
+            addresses.forEach((address, i) => {
+                expect( proofs[address].index ).to.be.equal(i)
+            })
+        });
+
+        it("includes the allowance of each address, 1 by default", async function () {
+            const { proofs } = buildWhitelist([ addresses[0], { address: addresses[1], allowance: 5 } ]);
+
+            expect( proofs[addresses[0]].allowance ).to.be.equal(1)
+            expect( proofs[addresses[1]].allowance ).to.be.equal(5)
+        });
+
+        it("throws on invalid allowances", async function () {
+            expect(
+                () => buildWhitelist([ addresses[0], { address: addresses[1], allowance: 0 } ])
+            ).to.throw("Invalid allowance at position 1")
+        });
+
+        it("normalizes addresses to their checksum format", async function () {
+            const { proofs } = buildWhitelist(addresses.map(a => a.toLowerCase()));
+
+            expect( Object.keys(proofs) ).to.be.deep.equal(addresses)
+        });
+
+        it("throws on duplicate addresses", async function () {
+            expect(
+                () => buildWhitelist([ addresses[0], addresses[1], addresses[0].toLowerCase() ])
+            ).to.throw("Duplicate address at position 2")
+        });
+
+        it("throws on invalid addresses", async function () {
+            expect(
+                () => buildWhitelist([ addresses[0], "0x1234" ])
+            ).to.throw("Invalid address at position 1")
+        });
+
+        it("throws on empty whitelist", async function () {
+            expect( () => buildWhitelist([]) ).to.throw("Whitelist is empty")
+        });
+
+        it("throws on single address whitelist", async function () {
+            expect( () => buildWhitelist([ addresses[0] ]) ).to.throw("at least 2 addresses")
+        });
+    })
+
+    describe("files", function () {
+
+        it("reads addresses and allowances from CSV and JSON files", async function () {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), "whitelist-"));
+
+            const csvFile = path.join(dir, "whitelist.csv");
+            fs.writeFileSync(csvFile, ["address,allowance", `${addresses[0]}`, `${addresses[1]},3`, ""].join("\n"));
+
+            const jsonFile = path.join(dir, "whitelist.json");
+            fs.writeFileSync(jsonFile, JSON.stringify([ addresses[0], { address: addresses[1], allowance: 3 } ]));
+
+            const entries = [
+                { address: addresses[0], allowance: 1 },
+                { address: addresses[1], allowance: 3 },
+            ];
+            expect( readWhitelistFile(csvFile) ).to.be.deep.equal(entries)
+            expect( readWhitelistFile(jsonFile) ).to.be.deep.equal(entries)
+        });
+
+        it("skips the header of a CSV file only when its first line is not an address", async function () {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), "whitelist-"));
+
+            // a header starting with 0x, and addresses without the 0x prefix
+            const csvFile = path.join(dir, "whitelist.csv");
+            fs.writeFileSync(csvFile, ["0x address,allowance", addresses[0], addresses[1]].join("\n"));
+            expect( readWhitelistFile(csvFile).map(entry => entry.address) ).to.be.deep.equal( [ addresses[0], addresses[1] ] )
+
+            const noPrefixFile = path.join(dir, "no-prefix.csv");
+            fs.writeFileSync(noPrefixFile, [addresses[0].slice(2), addresses[1].slice(2)].join("\n"));
+            expect( readWhitelistFile(noPrefixFile).map(entry => entry.address) ).to.be.deep.equal( [ addresses[0].slice(2), addresses[1].slice(2) ] )
+
+            // a first address missing a digit is not taken for a header
+            const malformedFile = path.join(dir, "malformed.csv");
+            fs.writeFileSync(malformedFile, [addresses[0].slice(0, -1), addresses[1]].join("\n"));
+            expect(
+                () => buildWhitelist(readWhitelistFile(malformedFile))
+            ).to.throw("Invalid address at position 0")
+        });
+
+        it("writes the tree, the root and the proofs", async function () {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), "whitelist-"));
+            const whitelist = buildWhitelist(addresses);
+
+            writeWhitelist(whitelist, dir);
+
+            const proofs = JSON.parse(fs.readFileSync(path.join(dir, "proofs.json"), "utf8"));
+            expect( proofs ).to.be.deep.equal(whitelist.proofs)
+            expect( loadWhitelistRoot(dir) ).to.be.equal(whitelist.root)
+            expect( loadWhitelistRoot(path.join(dir, "tree.json")) ).to.be.equal(whitelist.root)
+        });
+    })
+
+    describe("MyNFT", function () {
+
+        it("verifies the proofs of all whitelisted addresses", async function () {
+            const { myNFT, user0, user1, user2 } = await loadFixture(deployMyNFT);
+            const { root, proofs } = buildWhitelist([ user0.address, user1.address, user2.address ]);
+
+            await myNFT.setWhiteListMerkleRoot(root);
+
+            for (const [address, whitelistProof] of Object.entries(proofs)) {
+                expect( await myNFT.isWhitelistedAddress(address, whitelistProof) ).to.be.true
+            }
+        });
+
+        it("can mint at discounted price with a proof from the whitelist", async function () {
+            const { myNFT, owner, user2 } = await loadFixture(deployMyNFT);
+            const { root, proofs } = buildWhitelist([ owner.address, user2.address ]);
+
+            await myNFT.setWhiteListMerkleRoot(root);
+
+            const whitelistProof = proofs[user2.address];
+            const [ price, whitelisted ] = await myNFT.priceForMint(user2.address, whitelistProof);
+
+            expect( whitelisted ).to.be.true
+            expect( price ).to.be.equal( (await myNFT.MINT_PRICE()).mul(8).div(10) )
+
+            await myNFT.mint(user2.address, 1, whitelistProof, { value: price });
+            expect( await myNFT.balanceOf(user2.address) ).to.be.equal(1)
+        });
+    })
+
+});